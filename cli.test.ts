@@ -0,0 +1,299 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { spawn, spawnSync, type ChildProcess } from 'node:child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = dirname(fileURLToPath(import.meta.url));
+
+/** Each run starts the CLI in a fresh process and parses the sources with ts-morph */
+const CLI_TIMEOUT = 60_000;
+
+let dir: string;
+let child: ChildProcess | undefined;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  child?.kill();
+  child = undefined;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Creates a project with a local adapter for the `demo` API and the given sources
+ */
+function createProject(sources: Record<string, string>, config: object = {}): void {
+  writeFileSync(join(dir, 'type-extraction.config.js'), `export default ${JSON.stringify({
+    api: 'demo',
+    source: { root: './src', patterns: ['**/*.ts'] },
+    output: { directory: './out' },
+    ...config
+  })};\n`);
+
+  const adapterDir = join(dir, 'type-extraction', 'adapters', 'demo');
+  mkdirSync(adapterDir, { recursive: true });
+  writeFileSync(join(adapterDir, 'extractor.js'), [
+    `import { BaseTypeExtractor } from ${JSON.stringify(join(root, 'core', 'index.ts'))};`,
+    'export default class extends BaseTypeExtractor {',
+    "  constructor(rules) { super({ apiId: 'demo', ...rules }); }",
+    '  async applyTransformations() {}',
+    '  async validateTypes() {}',
+    '}',
+    ''
+  ].join('\n'));
+
+  mkdirSync(join(dir, 'src'), { recursive: true });
+  for (const [file, content] of Object.entries(sources)) {
+    writeFileSync(join(dir, 'src', file), content);
+  }
+}
+
+/**
+ * Arguments that run the CLI from source
+ *
+ * @remarks
+ * Vite's file watcher would keep the process alive after a successful run,
+ * which ends without `process.exit`, so it is disabled.
+ */
+function cliArguments(args: string[]): string[] {
+  const viteConfig = join(dir, 'vite.config.mjs');
+  writeFileSync(viteConfig, 'export default { server: { watch: null } };\n');
+
+  return [join(root, 'node_modules', 'vite-node', 'vite-node.mjs'), '--root', root, '--config', viteConfig, join(root, 'cli.ts'), ...args];
+}
+
+/**
+ * Starts the CLI in the project directory
+ */
+function start(...args: string[]): ChildProcess {
+  return spawn(process.execPath, cliArguments(args), { cwd: dir });
+}
+
+/**
+ * Runs the CLI in the project directory until it exits
+ */
+function run(...args: string[]): { status: number | null; output: string } {
+  const result = spawnSync(process.execPath, cliArguments(args), { cwd: dir, encoding: 'utf-8', timeout: CLI_TIMEOUT });
+  return { status: result.status, output: result.stdout + result.stderr };
+}
+
+/**
+ * Resolves with the output of a process once it contains `text`
+ */
+function waitForOutput(process: ChildProcess, text: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let output = '';
+    const onData = (data: Buffer): void => {
+      output += data.toString();
+      if (output.includes(text)) {
+        process.stdout?.off('data', onData);
+        process.stderr?.off('data', onData);
+        resolve(output);
+      }
+    };
+    process.stdout?.on('data', onData);
+    process.stderr?.on('data', onData);
+    process.once('exit', code => reject(new Error(`Exited with ${code} before printing '${text}':\n${output}`)));
+  });
+}
+
+describe('type-extract --watch', () => {
+  it('regenerates the output when a source changes', async () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string }' });
+    const types = join(dir, 'out', 'demo.types.ts');
+
+    child = start('--watch');
+    await waitForOutput(child, 'Watching');
+    expect(readFileSync(types, 'utf-8')).toContain('id: string');
+
+    const updated = waitForOutput(child, 'Updated');
+    writeFileSync(join(dir, 'src', 'guest.ts'), 'export interface Guest { id: number }');
+    expect(await updated).toContain('~ Changed: Guest');
+    expect(readFileSync(types, 'utf-8')).toContain('id: number');
+  }, CLI_TIMEOUT);
+
+  it('keeps the output when a change introduces any', async () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string }' });
+    const types = join(dir, 'out', 'demo.types.ts');
+
+    child = start('--watch');
+    await waitForOutput(child, 'Watching');
+    const generated = readFileSync(types, 'utf-8');
+
+    const skipped = waitForOutput(child, 'Output not updated');
+    writeFileSync(join(dir, 'src', 'guest.ts'), 'export interface Guest { id: any }');
+    expect(await skipped).toContain("1 'any' violation(s)");
+    expect(readFileSync(types, 'utf-8')).toBe(generated);
+  }, CLI_TIMEOUT);
+
+  it('regenerates the contracts and the extraction map', async () => {
+    createProject(
+      { 'guest.ts': 'export interface Guest { id: string }' },
+      { contracts: { outputPath: './contracts.d.ts', failOnDrift: false } }
+    );
+    const contracts = join(dir, 'contracts.d.ts');
+    const map = join(dir, 'type-extraction-map.json');
+
+    child = start('--watch');
+    await waitForOutput(child, 'Watching');
+
+    const updated = waitForOutput(child, 'Updated');
+    writeFileSync(join(dir, 'src', 'host.ts'), 'export interface Host { name: string }');
+    expect(await updated).toContain('+ Added: Host');
+    expect(readFileSync(contracts, 'utf-8')).toContain('export interface Host');
+    expect(JSON.parse(readFileSync(map, 'utf-8')).types).toEqual({ 'src/guest.ts': ['Guest'], 'src/host.ts': ['Host'] });
+  }, CLI_TIMEOUT);
+});
+
+describe('type-extract check', () => {
+  it('exits with 4 without a configuration', () => {
+    expect(run('check').status).toBe(4);
+  }, CLI_TIMEOUT);
+
+  it('exits with 1 until the output is generated, then with 0', () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string }' });
+
+    const missing = run('check');
+    expect(missing.status).toBe(1);
+    expect(missing.output).toContain('missing, not generated yet');
+
+    expect(run().status).toBe(0);
+    expect(run('check').status).toBe(0);
+  }, CLI_TIMEOUT * 3);
+
+  it('exits with 1 when a source changed since the output was generated', () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string }' });
+    expect(run().status).toBe(0);
+
+    writeFileSync(join(dir, 'src', 'guest.ts'), 'export interface Guest { id: number }');
+    const drift = run('check');
+    expect(drift.status).toBe(1);
+    expect(drift.output).toContain('Guest.id: property type changed: string -> number');
+  }, CLI_TIMEOUT * 2);
+
+  it('exits with 2 on any violations', () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string; data: any }' });
+
+    const result = run('check');
+    expect(result.status).toBe(2);
+    expect(result.output).toContain("'any' violation(s)");
+  }, CLI_TIMEOUT);
+
+  it('exits with 5 when type references cannot be resolved', () => {
+    createProject({ 'guest.ts': 'export interface Guest { stay: Stay }' }, { rules: { roots: ['Guest'] } });
+
+    const result = run('check');
+    expect(result.status).toBe(5);
+    expect(result.output).toContain('unresolved type reference(s)');
+  }, CLI_TIMEOUT);
+});
+
+describe('type-extract --report', () => {
+  it('writes a SARIF report of the any violations found by check', () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string; data: any }' });
+
+    expect(run('check', '--report', 'sarif', '--report-file', 'reports/run.sarif').status).toBe(2);
+
+    const sarif = JSON.parse(readFileSync(join(dir, 'reports', 'run.sarif'), 'utf-8'));
+    expect(sarif.runs[0].results).toContainEqual(expect.objectContaining({
+      ruleId: 'any-type-violation',
+      level: 'error',
+      locations: [expect.objectContaining({ physicalLocation: expect.objectContaining({ artifactLocation: { uri: 'src/guest.ts', uriBaseId: '%SRCROOT%' } }) })]
+    }));
+  }, CLI_TIMEOUT);
+
+  it('prints and reports the security red flags of the declarations check finds changed', () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string }' });
+    expect(run().status).toBe(0);
+
+    writeFileSync(join(dir, 'src', 'guest.ts'), 'export interface Guest { id: string; script: string }');
+    const result = run('check', '--report', 'sarif', '--report-file', 'reports/run.sarif');
+    expect(result.status).toBe(1);
+    expect(result.output).toContain('[SECURITY-REVIEW-REQUIRED] 1 high-severity red flag(s)');
+    expect(result.output).toContain('[HIGH] execution-property Guest.script: new string property whose name suggests executable code');
+
+    const sarif = JSON.parse(readFileSync(join(dir, 'reports', 'run.sarif'), 'utf-8'));
+    expect(sarif.runs[0].results).toContainEqual(expect.objectContaining({
+      ruleId: 'execution-property',
+      level: 'error',
+      locations: [expect.objectContaining({ physicalLocation: expect.objectContaining({ artifactLocation: { uri: 'src/guest.ts', uriBaseId: '%SRCROOT%' } }) })]
+    }));
+  }, CLI_TIMEOUT * 2);
+
+  it('rejects unknown formats', () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string }' });
+
+    const result = run('--report', 'html');
+    expect(result.status).not.toBe(0);
+    expect(result.output).toContain("Unknown report format 'html'");
+  }, CLI_TIMEOUT);
+});
+
+describe('type-extract', () => {
+  it('leaves the generated types untouched when the contracts drift', () => {
+    createProject(
+      { 'guest.ts': 'export interface Guest { id: string }' },
+      { contracts: { outputPath: './contracts.d.ts' } }
+    );
+    expect(run().status).toBe(0);
+    const types = readFileSync(join(dir, 'out', 'demo.types.ts'), 'utf-8');
+
+    writeFileSync(join(dir, 'src', 'guest.ts'), 'export interface Guest { id: number }');
+    const drift = run();
+    expect(drift.status).toBe(1);
+    expect(drift.output).toContain('Type drift detected');
+    expect(readFileSync(join(dir, 'out', 'demo.types.ts'), 'utf-8')).toBe(types);
+  }, CLI_TIMEOUT * 2);
+
+  it('writes nothing and fails on any violations', () => {
+    createProject({ 'guest.ts': 'export interface Guest { id: string; data: any }' });
+
+    const result = run();
+    expect(result.status).toBe(1);
+    expect(result.output).toContain("1 'any' violation(s)");
+    expect(result.output).not.toContain('Extraction failed: Extraction failed');
+    expect(existsSync(join(dir, 'out'))).toBe(false);
+  }, CLI_TIMEOUT);
+
+  it('writes nothing when type references cannot be resolved', () => {
+    createProject({ 'guest.ts': 'export interface Guest { stay: Stay }' }, { rules: { roots: ['Guest'] } });
+
+    const result = run();
+    expect(result.status).toBe(1);
+    expect(result.output).toContain("Unresolved type reference 'Stay' in 'Guest'");
+    expect(existsSync(join(dir, 'out'))).toBe(false);
+  }, CLI_TIMEOUT);
+
+  it('records the metrics history only when metrics are configured', () => {
+    const history = join(dir, 'type-extraction-metrics.jsonl');
+    createProject({ 'guest.ts': 'export interface Guest { id: string }' });
+    expect(run().status).toBe(0);
+    expect(existsSync(history)).toBe(false);
+
+    createProject({}, { metrics: {} });
+    expect(run().status).toBe(0);
+    expect(readFileSync(history, 'utf-8').trim().split('\n')).toHaveLength(1);
+  }, CLI_TIMEOUT * 2);
+
+  it('prints errors with their location and rule, and warnings only with --verbose', () => {
+    createProject({ 'guest.ts': "import type { InternalGuest } from '../internal.js';\nexport type Guest = Pick<InternalGuest, 'address'>;" }, {
+      source: { root: './src', patterns: ['**/*.ts'], expand: { maxDepth: 1 } }
+    });
+    writeFileSync(join(dir, 'internal.ts'), 'export interface InternalGuest { address: { city: { name: string } } }');
+
+    const quiet = run();
+    expect(quiet.status).toBe(0);
+    expect(quiet.output).not.toContain('expansion depth limit');
+
+    const verbose = run('--verbose');
+    expect(verbose.output).toContain('Warnings: 1');
+    expect(verbose.output).toMatch(/src\/guest\.ts:2: Type 'Guest' reached the expansion depth limit \(1\).* \[expand-depth\]/);
+
+    createProject({ 'guest.ts': 'export interface Guest { stay: Stay }' }, { rules: { roots: ['Guest'] } });
+    expect(run().output).toContain("src/guest.ts:1: Unresolved type reference 'Stay' in 'Guest' [unresolved-reference]");
+  }, CLI_TIMEOUT * 3);
+});
@@ -11,14 +11,36 @@
  * @since 1.0.0
  */
 
-import { resolve, dirname } from 'node:path';
-import { existsSync } from 'node:fs';
+import { resolve, dirname, relative } from 'node:path';
+import { existsSync, readFileSync, writeFileSync, mkdirSync, statSync, watch, type FSWatcher } from 'node:fs';
+import { createHash } from 'node:crypto';
 import { parseArgs } from 'node:util';
 import { fileURLToPath } from 'node:url';
 import { glob } from 'glob';
-import { loadConfigFile, resolveConfig, createOutputConfig } from './core/config.js';
+import {
+  loadConfigFile,
+  resolveConfig,
+  createOutputConfig,
+  createRFCGeneratorConfig,
+  createExtractOptions
+} from './core/config.js';
 import { TypeGenerator } from './core/generator.js';
-import type { ExtractionContext } from './core/types.js';
+import { RFCCompliantGenerator } from './core/rfc-generator.js';
+import { getDefaultApprovalsPath, loadApprovals, saveApprovals, approvePending } from './core/approvals.js';
+import { checkGeneratedFiles, formatFileDrift, scanGeneratedFiles, type FileDrift } from './core/check.js';
+import { createReport, formatReport, REPORT_FORMATS, type ReportFormat } from './core/report.js';
+import { formatSecurityReview, type SecurityFinding } from './core/security.js';
+import { formatSourcePath } from './core/source-map.js';
+import {
+  appendMetricsRecord,
+  createMetricsRecord,
+  describeRegression,
+  findMetricsRegressions,
+  formatMetricsTrend,
+  loadMetricsHistory
+} from './core/metrics-history.js';
+import type { BaseTypeExtractor } from './core/extractor.js';
+import type { ExtractionContext, ExtractionError } from './core/types.js';
 import type { TypeExtractionConfig } from './core/config.js';
 
 // For ESM compatibility
@@ -36,9 +58,47 @@ interface CLIOptions {
   output?: string;
   watch?: boolean;
   verbose?: boolean;
+  deterministic?: boolean;
+  report?: string;
+  'report-file'?: string;
+  limit?: string;
+  reviewer?: string;
+  reason?: string;
   help?: boolean;
 }
 
+/**
+ * @constant CHECK_EXIT_CODES
+ * @description Exit codes of `type-extract check`; when several problems are found, the highest applies
+ */
+const CHECK_EXIT_CODES = {
+  clean: 0,
+  drift: 1,
+  anyViolations: 2,
+  validatorErrors: 3,
+  configuration: 4,
+  failure: 5
+} as const;
+
+/**
+ * @interface ReportOptions
+ * @description Machine-readable report requested with --report
+ */
+interface ReportOptions {
+  format: ReportFormat;
+  file: string;
+}
+
+/**
+ * @interface ExtractionRun
+ * @description Result of a completed extraction, reused by watch mode
+ */
+interface ExtractionRun {
+  extractor: BaseTypeExtractor;
+  context: ExtractionContext;
+  sourceFiles: string[];
+}
+
 /**
  * @function showHelp
  * @description Displays help message
@@ -49,6 +109,14 @@ Type Extraction CLI
 
 Usage:
   type-extract [options]
+  type-extract check [options]
+  type-extract metrics [--limit <n>]
+  type-extract approve [types...] --reviewer <name> --reason <text>
+
+Commands:
+  check                   Compare a fresh extraction with the committed output, without writing
+  metrics                 Show recorded extraction metrics and their trend
+  approve                 Approve quarantined contract changes (all pending, or the listed types)
 
 Options:
   -c, --config <path>     Path to configuration file (default: type-extraction.config.js)
@@ -56,7 +124,13 @@ Options:
   -s, --source <path>     Source directory to scan
   -o, --output <path>     Output directory for generated types
   -w, --watch             Watch mode for continuous extraction
-  -v, --verbose           Verbose logging
+  -v, --verbose           Also print warnings and progress details
+  --deterministic         Byte-identical output for identical inputs (no timestamps)
+  --report <format>       Write a json, sarif or junit report of the run
+  --report-file <path>    Report path (default: type-extraction-report.<json|sarif|xml>)
+  --limit <n>             Runs shown by metrics (default: 20)
+  --reviewer <name>       Reviewer recorded by approve
+  --reason <text>         Reason recorded by approve
   -h, --help              Show this help message
 
 Examples:
@@ -69,6 +143,16 @@ Examples:
   # Watch mode
   type-extract --api stripe --watch
 
+  # CI gate: exit 1 on drift, 2 on 'any' violations, 3 on validator errors,
+  # 4 on configuration errors, 5 when extraction fails
+  type-extract check
+
+  # Annotate pull requests through GitHub code scanning
+  type-extract check --report sarif --report-file type-extraction.sarif
+
+  # Accept reviewed contract drift
+  type-extract approve Listing --reviewer jane --reason "Upstream made price optional"
+
 Configuration File:
   Create a type-extraction.config.js file:
 
@@ -90,10 +174,11 @@ Configuration File:
 /**
  * @function parseArguments
  * @description Parses command-line arguments
- * @returns {CLIOptions} Parsed options
+ * @returns {{ options: CLIOptions; positionals: string[] }} Parsed options and positional arguments (command and its operands)
  */
-function parseArguments(): CLIOptions {
-  const { values } = parseArgs({
+function parseArguments(): { options: CLIOptions; positionals: string[] } {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
     options: {
       config: { type: 'string', short: 'c' },
       api: { type: 'string', short: 'a' },
@@ -101,11 +186,17 @@ function parseArguments(): CLIOptions {
       output: { type: 'string', short: 'o' },
       watch: { type: 'boolean', short: 'w' },
       verbose: { type: 'boolean', short: 'v' },
+      deterministic: { type: 'boolean' },
+      report: { type: 'string' },
+      'report-file': { type: 'string' },
+      limit: { type: 'string' },
+      reviewer: { type: 'string' },
+      reason: { type: 'string' },
       help: { type: 'boolean', short: 'h' }
     }
   });
 
-  return values as CLIOptions;
+  return { options: values as CLIOptions, positionals };
 }
 
 /**
@@ -167,7 +258,7 @@ async function loadAdapter(api: string): Promise<any> {
  * @function discoverSourceFiles
  * @description Discovers source files based on configuration
  * @param {TypeExtractionConfig} config - Configuration
- * @returns {Promise<string[]>} Array of file paths
+ * @returns {Promise<string[]>} Array of file paths, sorted so runs do not depend on directory order
  */
 async function discoverSourceFiles(config: TypeExtractionConfig): Promise<string[]> {
   const files: string[] = [];
@@ -181,15 +272,119 @@ async function discoverSourceFiles(config: TypeExtractionConfig): Promise<string
     files.push(...matches);
   }
 
+  return [...new Set(files)].sort();
+}
+
+/**
+ * @function discoverGeneratedInputs
+ * @description Lists the OpenAPI documents and sample files types are generated from
+ * @param {TypeExtractionConfig} config - Configuration
+ * @returns {Promise<string[]>} Absolute file paths
+ */
+async function discoverGeneratedInputs(config: TypeExtractionConfig): Promise<string[]> {
+  const files = [...(config.source.openapi ?? [])];
+  
+  for (const samplePath of config.source.samples ?? []) {
+    files.push(...(statSync(samplePath, { throwIfNoEntry: false })?.isDirectory()
+      ? (await glob('**/*.json', { cwd: samplePath, absolute: true })).sort()
+      : [samplePath]));
+  }
+  
   return files;
 }
 
+/**
+ * @function reportValidatorErrors
+ * @description Prints validator errors that should block generation
+ * @param {TypeExtractionConfig} config - Configuration
+ * @param {ExtractionContext} context - Extraction results
+ * @returns {boolean} Whether generation must be skipped
+ */
+function reportValidatorErrors(config: TypeExtractionConfig, context: ExtractionContext): boolean {
+  const validatorErrors = context.errors.filter(
+    error => error.rule === 'validator' && error.severity !== 'warning'
+  );
+  
+  if (validatorErrors.length === 0 || config.failOnValidatorErrors === false) {
+    return false;
+  }
+
+  console.error(`\n❌ ${validatorErrors.length} validator error(s):`);
+  validatorErrors.forEach(error => {
+    console.error(`   ${error.file}:${error.line ?? 0}: ${error.message}`);
+  });
+  
+  return true;
+}
+
+/**
+ * @function formatDiagnostic
+ * @description Formats an error or warning for console output
+ * @param {TypeExtractionConfig} config - Configuration (paths are made relative to `output.sourceBase`)
+ * @param {ExtractionError} error - Diagnostic
+ * @returns {string} `path:line:column: message [rule]`
+ */
+function formatDiagnostic(config: TypeExtractionConfig, error: ExtractionError): string {
+  const location = error.file
+    ? `${formatSourcePath(error.file, config.output.sourceBase)}${error.line ? `:${error.line}${error.column ? `:${error.column}` : ''}` : ''}: `
+    : '';
+  return `${location}${error.message}${error.rule ? ` [${error.rule}]` : ''}`;
+}
+
+/**
+ * @function reportUnresolvedReferences
+ * @description Prints type references the checker could not resolve
+ * @param {ExtractionContext} context - Extraction results
+ * @returns {boolean} Whether generation must be skipped, as the output would contain dangling names
+ */
+function reportUnresolvedReferences(context: ExtractionContext): boolean {
+  const unresolved = context.errors.filter(
+    error => error.rule === 'unresolved-reference' && error.severity !== 'warning'
+  );
+  
+  if (unresolved.length === 0) {
+    return false;
+  }
+
+  console.error(`\n❌ ${unresolved.length} unresolved type reference(s):`);
+  unresolved.forEach(error => {
+    console.error(`   ${error.file}:${error.line ?? 0}: ${error.message}`);
+  });
+  
+  return true;
+}
+
+/**
+ * @function reportExtractionFailures
+ * @description Prints 'any' policy violations and failures that stopped the extraction
+ * @param {ExtractionContext} context - Extraction results
+ * @returns {boolean} Whether generation must be skipped, as the types are incomplete or contain 'any'
+ */
+function reportExtractionFailures(context: ExtractionContext): boolean {
+  const anyViolations = context.errors.filter(error => error.rule === 'any-type-violation');
+  const failures = context.errors.filter(error => error.rule === 'extraction-failed');
+  
+  if (anyViolations.length > 0) {
+    // The any policy fails last, its failure only summarizes the violations
+    console.error(`\n❌ ${anyViolations.length} 'any' violation(s):`);
+    anyViolations.forEach(error => {
+      console.error(`   ${error.file}:${error.line ?? 0}:${error.column ?? 0}: ${error.message}`);
+    });
+  } else {
+    failures.forEach(error => console.error(`\n❌ Extraction failed: ${error.message}`));
+  }
+  
+  return anyViolations.length > 0 || failures.length > 0;
+}
+
 /**
  * @function runExtraction
  * @description Runs the type extraction process
  * @param {TypeExtractionConfig} config - Configuration
+ * @param {ReportOptions} [report] - Report to write once types are extracted
+ * @returns {Promise<ExtractionRun | undefined>} The run, or undefined if no source files were found
  */
-async function runExtraction(config: TypeExtractionConfig): Promise<void> {
+async function runExtraction(config: TypeExtractionConfig, report?: ReportOptions): Promise<ExtractionRun | undefined> {
   console.log(`🚀 Starting type extraction for ${config.api} API`);
   
   try {
@@ -198,21 +393,36 @@ async function runExtraction(config: TypeExtractionConfig): Promise<void> {
       console.log(`📦 Loading adapter for ${config.api}...`);
     }
     const ExtractorClass = await loadAdapter(config.api);
-    const extractor = new ExtractorClass(config.rules);
+    const extractor: BaseTypeExtractor = new ExtractorClass(config.rules);
 
     // Discover files
     console.log('🔍 Discovering source files...');
     const sourceFiles = await discoverSourceFiles(config);
     console.log(`Found ${sourceFiles.length} files\n`);
 
-    if (sourceFiles.length === 0) {
+    const packages = Object.keys(config.source.packages ?? {});
+    if (packages.length > 0) {
+      console.log(`📦 Packages: ${packages.join(', ')}\n`);
+    }
+
+    const openApiSpecs = config.source.openapi ?? [];
+    if (openApiSpecs.length > 0) {
+      console.log(`📘 OpenAPI documents: ${openApiSpecs.map(spec => relative(process.cwd(), spec)).join(', ')}\n`);
+    }
+
+    const samples = config.source.samples ?? [];
+    if (samples.length > 0) {
+      console.log(`🧪 Response samples: ${samples.map(sample => relative(process.cwd(), sample)).join(', ')}\n`);
+    }
+
+    if (sourceFiles.length === 0 && packages.length === 0 && openApiSpecs.length === 0 && samples.length === 0) {
       console.warn('⚠️  No source files found');
-      return;
+      return undefined;
     }
 
     // Extract types
     console.log('🔧 Extracting types...');
-    const context: ExtractionContext = await extractor.extract(sourceFiles);
+    const context: ExtractionContext = await extractor.extract(sourceFiles, [], createExtractOptions(config));
 
     // Report results
     console.log('\n📊 Extraction Results:');
@@ -222,20 +432,46 @@ async function runExtraction(config: TypeExtractionConfig): Promise<void> {
     console.log(`   Validations passed: ${context.metrics.validationsPassed}`);
     console.log(`   Validations failed: ${context.metrics.validationsFailed}`);
 
-    if (context.errors.length > 0 && config.verbose) {
-      console.log(`\n⚠️  Errors: ${context.errors.length}`);
-      context.errors.forEach(error => {
-        console.log(`   ${error.file}: ${error.message}`);
-      });
+    // Errors are always shown, warnings only with --verbose
+    const errors = context.errors.filter(error => error.severity !== 'warning');
+    const warnings = context.errors.filter(error => error.severity === 'warning');
+    if (errors.length > 0) {
+      console.error(`\n❌ Errors: ${errors.length}`);
+      errors.forEach(error => console.error(`   ${formatDiagnostic(config, error)}`));
+    }
+    if (warnings.length > 0 && config.verbose) {
+      console.log(`\n⚠️  Warnings: ${warnings.length}`);
+      warnings.forEach(error => console.log(`   ${formatDiagnostic(config, error)}`));
+    }
+
+    // Drift is measured against the files as they are before this run writes them
+    if (report) {
+      const files = await renderOutput(config, context);
+      writeReport(report, config, context, checkGeneratedFiles(files), scanGeneratedFiles(files, context));
+    }
+
+    // Record the run and compare it with the previous runs (RFC section 8.7)
+    const regressed = trackMetrics(config, context);
+
+    // Failures, 'any' violations, validator errors, unresolved references and metrics regressions block generation
+    const failed = reportExtractionFailures(context);
+    const unresolved = reportUnresolvedReferences(context);
+    if (failed || reportValidatorErrors(config, context) || unresolved || regressed) {
+      process.exit(1);
     }
 
     // Generate output
-    console.log('\n📝 Generating TypeScript files...');
-    const generator = new TypeGenerator(createOutputConfig(config));
-    await generator.generate(context);
+    const contractsConfig = createRFCGeneratorConfig(config);
+    console.log(`\n📝 Generating TypeScript files${contractsConfig ? ' and RFC contracts' : ''}...`);
+    await generateOutput(config, context);
 
     console.log(`\n✅ Type extraction complete!`);
     console.log(`📁 Output: ${config.output.directory}`);
+    if (contractsConfig) {
+      console.log(`📜 Contracts: ${contractsConfig.outputPath}`);
+    }
+
+    return { extractor, context, sourceFiles };
 
   } catch (error) {
     console.error(`\n❌ Extraction failed: ${error}`);
@@ -243,18 +479,464 @@ async function runExtraction(config: TypeExtractionConfig): Promise<void> {
   }
 }
 
+/**
+ * @function generateOutput
+ * @description Writes the generated types, the RFC contracts and the extraction map
+ * @param {TypeExtractionConfig} config - Configuration
+ * @param {ExtractionContext} context - Extraction results
+ * @returns {Promise<string[]>} Paths of generated type files whose content changed
+ * @throws {Error} On unapproved contract drift, before any file is written
+ * 
+ * @remarks
+ * Drift is checked first: writing the types and then rejecting the contracts
+ * would leave quarantined changes in the types file.
+ */
+async function generateOutput(config: TypeExtractionConfig, context: ExtractionContext): Promise<string[]> {
+  const contractsConfig = createRFCGeneratorConfig(config);
+  const contractsGenerator = contractsConfig && new RFCCompliantGenerator(contractsConfig);
+  
+  await contractsGenerator?.checkDrift(context);
+  const written = await new TypeGenerator(createOutputConfig(config)).generate(context);
+  await contractsGenerator?.write(context);
+  
+  return written;
+}
+
+/**
+ * @function checkExtraction
+ * @description Extracts in memory and compares the result with the committed output, without writing
+ * @param {TypeExtractionConfig} config - Configuration
+ * @param {ReportOptions} [report] - Report to write once types are extracted
+ * @returns {Promise<number>} Exit code, one of CHECK_EXIT_CODES
+ * 
+ * @remarks
+ * Generated files and contracts are compared declaration by declaration, so
+ * timestamps and formatting never count as drift. 'any' violations, validator
+ * errors and drift are all reported before the exit code is chosen.
+ */
+async function checkExtraction(config: TypeExtractionConfig, report?: ReportOptions): Promise<number> {
+  console.log(`🔎 Checking ${config.api} types against the committed output`);
+  
+  let extractor: BaseTypeExtractor;
+  let sourceFiles: string[];
+  try {
+    const ExtractorClass = await loadAdapter(config.api);
+    extractor = new ExtractorClass(config.rules);
+    sourceFiles = await discoverSourceFiles(config);
+  } catch (error) {
+    console.error(`\n❌ ${error}`);
+    return CHECK_EXIT_CODES.configuration;
+  }
+  
+  const inputs = sourceFiles.length + Object.keys(config.source.packages ?? {}).length +
+    (config.source.openapi ?? []).length + (config.source.samples ?? []).length;
+  if (inputs === 0) {
+    console.error('\n❌ No source files found');
+    return CHECK_EXIT_CODES.configuration;
+  }
+  
+  let context: ExtractionContext | undefined;
+  let drift: FileDrift[] = [];
+  let securityFindings: SecurityFinding[] = [];
+  try {
+    context = await extractor.extract(sourceFiles, [], createExtractOptions(config));
+    let exitCode: number = CHECK_EXIT_CODES.clean;
+    
+    // The any policy fails last, any other failure leaves nothing to compare
+    if (reportExtractionFailures(context)) {
+      if (!context.errors.some(error => error.rule === 'any-type-violation')) {
+        return CHECK_EXIT_CODES.failure;
+      }
+      exitCode = Math.max(exitCode, CHECK_EXIT_CODES.anyViolations);
+    }
+    
+    if (reportValidatorErrors(config, context)) {
+      exitCode = Math.max(exitCode, CHECK_EXIT_CODES.validatorErrors);
+    }
+    
+    if (reportUnresolvedReferences(context)) {
+      exitCode = Math.max(exitCode, CHECK_EXIT_CODES.failure);
+    }
+    
+    const files = await renderOutput(config, context);
+    drift = checkGeneratedFiles(files);
+    securityFindings = scanGeneratedFiles(files, context);
+    if (drift.length > 0) {
+      console.error(`\n❌ Output out of date (${drift.length} file(s)):`);
+      for (const fileDrift of drift) {
+        console.error(`   ${relative(process.cwd(), fileDrift.file)}`);
+        formatFileDrift(fileDrift).forEach(line => console.error(`     ${line}`));
+      }
+      
+      const review = formatSecurityReview(securityFindings);
+      if (review) {
+        console.error(`\n${review}`);
+      }
+      console.error('\n   Run type-extract and commit the result to update it.');
+      exitCode = Math.max(exitCode, CHECK_EXIT_CODES.drift);
+    } else {
+      console.log(`\n✅ Output up to date (${files.size} file(s))`);
+    }
+    
+    return exitCode;
+  } catch (error) {
+    console.error(`\n❌ Check failed: ${error}`);
+    return CHECK_EXIT_CODES.failure;
+  } finally {
+    if (report && context) {
+      writeReport(report, config, context, drift, securityFindings);
+    }
+  }
+}
+
+/**
+ * @function trackMetrics
+ * @description Records a run in the metrics history and checks the configured thresholds
+ * @param {TypeExtractionConfig} config - Configuration
+ * @param {ExtractionContext} context - Extraction results
+ * @returns {boolean} Whether a metric regressed beyond its threshold
+ */
+function trackMetrics(config: TypeExtractionConfig, context: ExtractionContext): boolean {
+  const { record = true, historyPath, thresholds = {} } = config.metrics ?? {};
+  if (!historyPath) {
+    return false;
+  }
+  
+  const regressions = findMetricsRegressions(loadMetricsHistory(historyPath, config.api), context.metrics, thresholds);
+  if (record) {
+    appendMetricsRecord(historyPath, createMetricsRecord(context, regressions.length === 0));
+  }
+  
+  if (regressions.length > 0) {
+    console.error(`\n❌ ${regressions.length} metric(s) regressed beyond the thresholds:`);
+    regressions.forEach(regression => console.error(`   ${describeRegression(regression)}`));
+  }
+  
+  return regressions.length > 0;
+}
+
+/**
+ * @function showMetrics
+ * @description Prints the recorded runs of the API and whether the latest one is within the thresholds
+ * @param {TypeExtractionConfig} config - Configuration
+ * @param {number} limit - Number of most recent runs to show
+ */
+function showMetrics(config: TypeExtractionConfig, limit: number): void {
+  const historyPath = config.metrics?.historyPath;
+  const history = historyPath ? loadMetricsHistory(historyPath, config.api) : [];
+  
+  if (!historyPath || history.length === 0) {
+    console.log(`No runs recorded for ${config.api}${historyPath ? ` in ${relative(process.cwd(), historyPath)}` : ''}`);
+    return;
+  }
+  
+  console.log(`📈 ${config.api}: ${history.length} run(s) recorded in ${relative(process.cwd(), historyPath)}\n`);
+  formatMetricsTrend(history.slice(-Math.max(1, limit || 20))).forEach(line => console.log(`   ${line}`));
+  
+  const thresholds = config.metrics?.thresholds ?? {};
+  if (Object.keys(thresholds).length === 0) {
+    return;
+  }
+  
+  const latest = history[history.length - 1];
+  const regressions = findMetricsRegressions(history.slice(0, -1), latest, thresholds);
+  if (regressions.length === 0) {
+    console.log('\n✅ Latest run within the thresholds');
+  } else {
+    console.log('\n❌ Latest run regressed beyond the thresholds:');
+    regressions.forEach(regression => console.log(`   ${describeRegression(regression)}`));
+  }
+}
+
+/**
+ * @function renderOutput
+ * @description Renders everything a run writes (types, contracts, extraction map) in memory
+ * @param {TypeExtractionConfig} config - Configuration
+ * @param {ExtractionContext} context - Extraction results
+ * @returns {Promise<Map<string, string>>} File content by path
+ */
+async function renderOutput(config: TypeExtractionConfig, context: ExtractionContext): Promise<Map<string, string>> {
+  const files = await new TypeGenerator(createOutputConfig(config)).render(context);
+  
+  const contractsConfig = createRFCGeneratorConfig(config);
+  if (contractsConfig) {
+    for (const [file, content] of await new RFCCompliantGenerator(contractsConfig).render(context)) {
+      files.set(file, content);
+    }
+  }
+  
+  return files;
+}
+
+/**
+ * @function resolveReportOptions
+ * @description Validates --report and --report-file
+ * @param {CLIOptions} options - Command-line options
+ * @param {string} projectRoot - Directory the report path is resolved against
+ * @returns {ReportOptions | undefined} Report to write, if one was requested
+ * @throws {Error} If the format is unknown
+ */
+function resolveReportOptions(options: CLIOptions, projectRoot: string): ReportOptions | undefined {
+  if (!options.report) {
+    return undefined;
+  }
+  
+  const format = options.report as ReportFormat;
+  if (!REPORT_FORMATS.includes(format)) {
+    throw new Error(`Unknown report format '${options.report}', expected ${REPORT_FORMATS.join(', ')}`);
+  }
+  
+  const extension = format === 'junit' ? 'xml' : format;
+  return { format, file: resolve(projectRoot, options['report-file'] ?? `type-extraction-report.${extension}`) };
+}
+
+/**
+ * @function writeReport
+ * @description Writes the machine-readable report of a run
+ * @param {ReportOptions} report - Format and path
+ * @param {TypeExtractionConfig} config - Configuration (paths are made relative to `output.sourceBase`)
+ * @param {ExtractionContext} context - Extraction results
+ * @param {FileDrift[]} drift - Generated files that differ from the files on disk
+ * @param {SecurityFinding[]} securityFindings - Security red flags of the differing declarations
+ */
+function writeReport(
+  report: ReportOptions,
+  config: TypeExtractionConfig,
+  context: ExtractionContext,
+  drift: FileDrift[],
+  securityFindings: SecurityFinding[]
+): void {
+  try {
+    mkdirSync(dirname(report.file), { recursive: true });
+    const content = formatReport(createReport(context, drift, securityFindings), report.format, config.output.sourceBase);
+    writeFileSync(report.file, content, 'utf-8');
+    console.log(`📋 Report: ${relative(process.cwd(), report.file)}`);
+  } catch (error) {
+    console.error(`❌ Failed to write report: ${error}`);
+  }
+}
+
+/**
+ * @function hashFiles
+ * @description Hashes file contents to detect which files really changed
+ * @param {string[]} files - File paths
+ * @returns {Map<string, string>} File path to content hash
+ */
+function hashFiles(files: string[]): Map<string, string> {
+  const hashes = new Map<string, string>();
+  
+  for (const file of files) {
+    try {
+      hashes.set(file, createHash('sha1').update(readFileSync(file)).digest('hex'));
+    } catch {
+      // File vanished between discovery and hashing; treat it as removed
+    }
+  }
+  
+  return hashes;
+}
+
+/**
+ * @function snapshotTypes
+ * @description Captures a comparable signature for every extracted type
+ * @param {ExtractionContext} context - Extraction results
+ * @returns {Map<string, string>} Type name to signature
+ */
+function snapshotTypes(context: ExtractionContext): Map<string, string> {
+  const signatures = new Map<string, string>();
+  
+  for (const [name, type] of context.types) {
+    signatures.set(name, JSON.stringify({
+      kind: type.kind,
+      definition: type.definition,
+      properties: type.properties,
+      typeParameters: type.typeParameters,
+      extends: type.extends,
+      documentation: type.documentation
+    }));
+  }
+  
+  return signatures;
+}
+
+/**
+ * @function diffTypeSnapshots
+ * @description Lists added, removed and changed type names between two snapshots
+ */
+function diffTypeSnapshots(
+  before: Map<string, string>,
+  after: Map<string, string>
+): { added: string[]; removed: string[]; changed: string[] } {
+  const added = [...after.keys()].filter(name => !before.has(name));
+  const removed = [...before.keys()].filter(name => !after.has(name));
+  const changed = [...after.keys()].filter(name => before.has(name) && before.get(name) !== after.get(name));
+  
+  return { added: added.sort(), removed: removed.sort(), changed: changed.sort() };
+}
+
+/**
+ * @function watchExtraction
+ * @description Re-runs extraction whenever source files change
+ * @param {TypeExtractionConfig} config - Configuration
+ * @param {ExtractionRun} run - Initial run whose extractor and results are reused
+ * 
+ * @remarks
+ * Changes are detected by content hash, so only files that really changed are
+ * refreshed in the extractor's ts-morph project. Output is regenerated only
+ * when the set of types changed, through the same path as a full run, and
+ * only type files with new content are written.
+ */
+async function watchExtraction(config: TypeExtractionConfig, run: ExtractionRun): Promise<void> {
+  let fileHashes = hashFiles([...run.sourceFiles, ...await discoverGeneratedInputs(config)]);
+  let typeSnapshot = snapshotTypes(run.context);
+  let running = false;
+  let pending = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const cycle = async (): Promise<void> => {
+    if (running) {
+      pending = true;
+      return;
+    }
+    running = true;
+
+    try {
+      const sourceFiles = await discoverSourceFiles(config);
+      const hashes = hashFiles([...sourceFiles, ...await discoverGeneratedInputs(config)]);
+      const changed = [...hashes.keys()].filter(file => hashes.get(file) !== fileHashes.get(file));
+      const removed = [...fileHashes.keys()].filter(file => !hashes.has(file));
+
+      if (changed.length === 0 && removed.length === 0) {
+        return;
+      }
+      fileHashes = hashes;
+
+      console.log(`\n🔄 ${changed.length} changed, ${removed.length} removed - re-extracting...`);
+      // OpenAPI documents and samples are converted again on every run
+      const context = await run.extractor.extract(sourceFiles, changed, createExtractOptions(config));
+      const snapshot = snapshotTypes(context);
+      const diff = diffTypeSnapshots(typeSnapshot, snapshot);
+
+      if (diff.added.length > 0) console.log(`   + Added: ${diff.added.join(', ')}`);
+      if (diff.removed.length > 0) console.log(`   - Removed: ${diff.removed.join(', ')}`);
+      if (diff.changed.length > 0) console.log(`   ~ Changed: ${diff.changed.join(', ')}`);
+
+      if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+        console.log('   No type changes');
+        return;
+      }
+
+      const failed = reportExtractionFailures(context);
+      const unresolved = reportUnresolvedReferences(context);
+      if (failed || reportValidatorErrors(config, context) || unresolved) {
+        console.log('   Output not updated');
+        return;
+      }
+
+      // Same output as a full run: types, contracts (failing on unapproved drift) and the extraction map
+      const written = await generateOutput(config, context);
+      typeSnapshot = snapshot;
+      console.log(`📝 Updated ${written.length} file(s)`);
+    } catch (error) {
+      console.error(`❌ Re-extraction failed: ${error}`);
+    } finally {
+      running = false;
+      if (pending) {
+        pending = false;
+        schedule();
+      }
+    }
+  };
+
+  const schedule = (): void => {
+    clearTimeout(timer);
+    timer = setTimeout(() => void cycle(), 100);
+  };
+
+  let watcher: FSWatcher | undefined;
+  let poller: NodeJS.Timeout | undefined;
+  try {
+    watcher = watch(config.source.root, { recursive: true }, schedule);
+  } catch {
+    // Recursive fs.watch is unavailable on some platforms (Linux before Node 20)
+    poller = setInterval(schedule, 1000);
+  }
+
+  // OpenAPI documents and samples may live outside the source root
+  const inputWatchers = [...(config.source.openapi ?? []), ...(config.source.samples ?? [])]
+    .filter(input => existsSync(input))
+    .map(input => watch(input, { recursive: statSync(input).isDirectory() }, schedule));
+
+  console.log(`\n👀 Watching ${config.source.root} for changes (Ctrl+C to stop)...`);
+
+  process.on('SIGINT', () => {
+    watcher?.close();
+    inputWatchers.forEach(inputWatcher => inputWatcher.close());
+    clearInterval(poller);
+    clearTimeout(timer);
+    process.exit(0);
+  });
+}
+
+/**
+ * @function approveChanges
+ * @description Approves quarantined contract changes after review
+ * @param {TypeExtractionConfig} config - Configuration
+ * @param {CLIOptions} options - Command-line options (reviewer and reason)
+ * @param {string[]} types - Types to approve (all pending when empty)
+ */
+function approveChanges(config: TypeExtractionConfig, options: CLIOptions, types: string[]): void {
+  const contractsConfig = createRFCGeneratorConfig(config);
+  if (!contractsConfig) {
+    console.error('❌ No contracts output configured. Add a "contracts" section to the configuration.');
+    process.exit(1);
+  }
+
+  const approvalsPath = contractsConfig.approvalsPath ?? getDefaultApprovalsPath(contractsConfig.extractionMapPath);
+  const approvals = loadApprovals(approvalsPath);
+  const pending = Object.entries(approvals.pending);
+
+  if (pending.length === 0) {
+    console.log('✅ No pending contract changes');
+    return;
+  }
+
+  if (!options.reviewer || !options.reason) {
+    console.log(`📋 ${pending.length} type(s) with pending changes:`);
+    pending.forEach(([name, entry]) => {
+      console.log(`   ${name}`);
+      entry.changes.forEach(change => console.log(`     ${change}`));
+    });
+    console.error('\n❌ --reviewer and --reason are required to approve changes');
+    process.exit(1);
+  }
+
+  const approved = approvePending(approvals, { reviewer: options.reviewer, reason: options.reason, types });
+  saveApprovals(approvalsPath, approvals);
+
+  console.log(`✅ Approved ${approved.length} type(s): ${approved.join(', ')}`);
+  console.log(`📄 ${approvalsPath}`);
+}
+
 /**
  * @function main
  * @description Main CLI entry point
  */
 async function main(): Promise<void> {
-  const options = parseArguments();
+  const { options, positionals } = parseArguments();
+  const [command, ...operands] = positionals;
 
   if (options.help) {
     showHelp();
     process.exit(0);
   }
 
+  if (command !== undefined && !['approve', 'check', 'metrics'].includes(command)) {
+    console.error(`❌ Unknown command: ${command}`);
+    showHelp();
+    process.exit(1);
+  }
+
   const projectRoot = process.cwd();
   let config: TypeExtractionConfig;
 
@@ -286,7 +968,7 @@ async function main(): Promise<void> {
       } else {
         console.error('❌ No configuration found. Use --config or --api option.');
         showHelp();
-        process.exit(1);
+        process.exit(command === 'check' ? CHECK_EXIT_CODES.configuration : 1);
       }
     }
 
@@ -294,20 +976,35 @@ async function main(): Promise<void> {
     if (options.api) config.api = options.api;
     if (options.verbose !== undefined) config.verbose = options.verbose;
     if (options.watch !== undefined) config.watch = options.watch;
+    if (options.deterministic) config.output.deterministic = true;
+    const report = resolveReportOptions(options, projectRoot);
+
+    if (command === 'approve') {
+      approveChanges(config, options, operands);
+      return;
+    }
+
+    if (command === 'metrics') {
+      showMetrics(config, Number(options.limit ?? 20));
+      return;
+    }
+
+    if (command === 'check') {
+      process.exit(await checkExtraction(config, report));
+    }
 
     // Run extraction
-    await runExtraction(config);
+    const run = await runExtraction(config, report);
 
     // Watch mode
-    if (config.watch) {
-      console.log('\n👀 Watching for changes...');
-      // TODO: Implement file watching
-      console.log('Watch mode not yet implemented');
+    if (config.watch && run) {
+      await watchExtraction(config, run);
     }
 
   } catch (error) {
     console.error(`❌ Error: ${error}`);
-    process.exit(1);
+    // checkExtraction handles its own failures, anything left is the configuration
+    process.exit(command === 'check' ? CHECK_EXIT_CODES.configuration : 1);
   }
 }
 
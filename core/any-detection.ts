@@ -0,0 +1,279 @@
+/**
+ * @fileoverview Type Extraction Framework - Any Detection
+ *
+ * @description
+ * Finds `any` in declarations by walking their type nodes, so comments, JSDoc
+ * and string literals never count. Each occurrence carries its position and
+ * the path of the member it was found in (`Listing.meta.tags`,
+ * `Client.fetch(id)`). With the type checker, parameters and properties that
+ * are implicitly `any` are reported as well.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { Node, SyntaxKind } from 'ts-morph';
+import type { AnyException } from './types.js';
+
+/**
+ * @interface AnyOccurrence
+ * @description A single `any` found in a declaration
+ * @since 2.0.0
+ */
+export interface AnyOccurrence {
+  /** Declaration and member path (`Listing.meta.tags`, `Client.fetch()` for a return type) */
+  path: string;
+
+  /** 1-based line in the walked text */
+  line: number;
+
+  /** 1-based column in the walked text */
+  column: number;
+
+  /** Whether the checker inferred `any` where no type was written */
+  implicit: boolean;
+
+  /**
+   * Range of the `any` keyword in the declaration's full text; for implicit
+   * `any`, an empty range where the missing annotation belongs
+   */
+  start: number;
+  end: number;
+
+  /** Whether the keyword is the operand of `[]`, a type operator or an indexed access */
+  operand: boolean;
+}
+
+/**
+ * Nodes whose missing type annotation the checker may fill in with `any`
+ */
+const IMPLICIT_ANY_CANDIDATES = [
+  SyntaxKind.Parameter,
+  SyntaxKind.PropertySignature,
+  SyntaxKind.PropertyDeclaration
+];
+
+/**
+ * Parents of parameters that are never contextually typed, so a missing
+ * annotation without initializer always means `any`
+ */
+const UNTYPED_PARAMETER_PARENTS = [
+  SyntaxKind.MethodSignature,
+  SyntaxKind.CallSignature,
+  SyntaxKind.ConstructSignature,
+  SyntaxKind.FunctionType,
+  SyntaxKind.ConstructorType,
+  SyntaxKind.MethodDeclaration,
+  SyntaxKind.Constructor
+];
+
+/**
+ * Signatures whose missing return type the checker may fill in with `any`
+ */
+const IMPLICIT_RETURN_CANDIDATES = [
+  SyntaxKind.MethodSignature,
+  SyntaxKind.CallSignature,
+  SyntaxKind.ConstructSignature
+];
+
+/**
+ * @function findAnyTypes
+ * @description Finds explicit (and optionally implicit) `any` in a declaration
+ * @param {Node} declaration - Interface, type alias, enum or class declaration
+ * @param {string} name - Name the paths start with
+ * @param {boolean} implicit - Also report implicit `any`
+ * @param {boolean} useChecker - Whether the declaration comes from a project whose
+ * type checker resolves it; without it, only implicit `any` visible from the syntax
+ * (untyped members and signature parameters) is reported
+ * @returns {AnyOccurrence[]} Occurrences in source order
+ *
+ * @example
+ * // interface Listing { meta: { tags: any[] }; find(id): void }
+ * findAnyTypes(node, 'Listing', true);
+ * // [{ path: 'Listing.meta.tags', line: 1, column: 37, implicit: false },
+ * //  { path: 'Listing.find(id)', line: 1, column: 51, implicit: true }]
+ */
+export function findAnyTypes(declaration: Node, name: string, implicit: boolean, useChecker = true): AnyOccurrence[] {
+  const sourceFile = declaration.getSourceFile();
+  const occurrences: Array<AnyOccurrence & { pos: number }> = [];
+  const add = (node: Node, isImplicit: boolean): void => {
+    const pos = isImplicit ? getNameNode(node).getStart() : node.getStart();
+    const { line, column } = sourceFile.getLineAndColumnAtPos(pos);
+    const parent = node.getParent();
+    const insertAt = isImplicit ? getAnnotationPos(node) : undefined;
+
+    occurrences.push({
+      path: getMemberPath(node, declaration, name, isImplicit),
+      line,
+      column,
+      implicit: isImplicit,
+      start: (insertAt ?? node.getStart()) - declaration.getPos(),
+      end: (insertAt ?? node.getEnd()) - declaration.getPos(),
+      operand: !isImplicit && parent !== undefined &&
+        (Node.isArrayTypeNode(parent) || Node.isTypeOperatorTypeNode(parent) || Node.isIndexedAccessTypeNode(parent)),
+      pos
+    });
+  };
+
+  for (const keyword of declaration.getDescendantsOfKind(SyntaxKind.AnyKeyword)) {
+    add(keyword, false);
+  }
+
+  if (implicit) {
+    declaration.forEachDescendant(node => {
+      if (IMPLICIT_ANY_CANDIDATES.includes(node.getKind())) {
+        if (isImplicitAny(node, useChecker)) {
+          add(node, true);
+        }
+      } else if (IMPLICIT_RETURN_CANDIDATES.includes(node.getKind())) {
+        if (Node.isReturnTyped(node) && !node.getReturnTypeNode()) {
+          add(node, true);
+        }
+      }
+    });
+  }
+
+  return occurrences
+    .sort((a, b) => a.pos - b.pos)
+    .map(({ pos: _pos, ...occurrence }) => occurrence);
+}
+
+/**
+ * Whether a parameter or property without a type annotation is `any`
+ */
+function isImplicitAny(node: Node, useChecker: boolean): boolean {
+  if (!Node.isTyped(node) || node.getTypeNode()) {
+    return false;
+  }
+
+  // Untyped rest parameters are `any[]`
+  if (Node.isParameterDeclaration(node) && node.isRestParameter()) {
+    return false;
+  }
+
+  const initialized = Node.isInitializerExpressionable(node) && node.hasInitializer();
+  const parentKind = node.getParent()?.getKind();
+  const annotatable = !Node.isParameterDeclaration(node) ||
+    (parentKind !== undefined && UNTYPED_PARAMETER_PARENTS.includes(parentKind));
+
+  if (annotatable && !initialized) {
+    return true;
+  }
+
+  return useChecker && node.getType().isAny();
+}
+
+/**
+ * Path from the declaration to a node: property names, `(param)` for
+ * parameters, `()` for return types and `[key]` for index signatures
+ */
+function getMemberPath(node: Node, declaration: Node, name: string, isImplicit: boolean): string {
+  // An implicit return type has no node of its own, start from the signature
+  const returnOf = isImplicit && IMPLICIT_RETURN_CANDIDATES.includes(node.getKind()) ? node : undefined;
+  const chain = [...(returnOf ? [] : [node]), ...node.getAncestors()];
+  const ancestors = chain.slice(0, chain.indexOf(declaration)).reverse();
+  if (returnOf) {
+    ancestors.push(returnOf);
+  }
+
+  let path = name;
+
+  ancestors.forEach((ancestor, index) => {
+    const inner = ancestors[index + 1];
+
+    if (Node.isParameterDeclaration(ancestor)) {
+      path += `(${ancestor.getName()})`;
+      return;
+    }
+
+    if (Node.isIndexSignatureDeclaration(ancestor)) {
+      path += `[${ancestor.getKeyName()}]`;
+      return;
+    }
+
+    if (Node.isConstructorDeclaration(ancestor)) {
+      path += '.constructor';
+    } else if (Node.isConstructSignatureDeclaration(ancestor)) {
+      path += '.new';
+    } else if (
+      Node.isPropertySignature(ancestor) ||
+      Node.isPropertyDeclaration(ancestor) ||
+      Node.isMethodSignature(ancestor) ||
+      Node.isMethodDeclaration(ancestor) ||
+      Node.isGetAccessorDeclaration(ancestor) ||
+      Node.isSetAccessorDeclaration(ancestor)
+    ) {
+      path += `.${ancestor.getName()}`;
+    }
+
+    // Anywhere in a signature but its parameters is the return type
+    const isSignature = Node.isMethodSignature(ancestor) || Node.isMethodDeclaration(ancestor) ||
+      Node.isCallSignatureDeclaration(ancestor) || Node.isConstructSignatureDeclaration(ancestor) ||
+      Node.isConstructorDeclaration(ancestor) || Node.isFunctionTypeNode(ancestor) || Node.isConstructorTypeNode(ancestor);
+    if (isSignature && !(inner && Node.isParameterDeclaration(inner))) {
+      path += '()';
+    }
+  });
+
+  return path;
+}
+
+/**
+ * @function spliceAnyTypes
+ * @description Replaces `any` occurrences in a declaration's full text
+ * @param {string} text - Full text of the declaration the occurrences were found in
+ * @param {Array<{ occurrence: AnyOccurrence; type: string }>} replacements - Type text for each occurrence
+ * @returns {string} Text with each `any` replaced and each implicit `any` annotated
+ */
+export function spliceAnyTypes(text: string, replacements: Array<{ occurrence: AnyOccurrence; type: string }>): string {
+  let result = text;
+
+  for (const { occurrence, type } of [...replacements].sort((a, b) => b.occurrence.start - a.occurrence.start)) {
+    const replacement = occurrence.implicit ? `: ${type}` : occurrence.operand ? `(${type})` : type;
+    result = result.slice(0, occurrence.start) + replacement + result.slice(occurrence.end);
+  }
+
+  return result;
+}
+
+/**
+ * Position of the missing type annotation of a parameter, property or signature
+ */
+function getAnnotationPos(node: Node): number {
+  if (IMPLICIT_RETURN_CANDIDATES.includes(node.getKind())) {
+    return node.getLastChildByKindOrThrow(SyntaxKind.CloseParenToken).getEnd();
+  }
+
+  const questionToken = Node.isQuestionTokenable(node) ? node.getQuestionTokenNode() : undefined;
+  return (questionToken ?? getNameNode(node)).getEnd();
+}
+
+/**
+ * Name of a member or parameter, where implicit `any` is reported
+ */
+function getNameNode(node: Node): Node {
+  return (Node.hasName(node) ? node.getNameNode() : undefined) ?? node;
+}
+
+/**
+ * @function formatAnyExceptions
+ * @description Formats the branded and allowed `any` occurrences for a generated file header
+ * @param {AnyException[]} exceptions - `context.anyExceptions`
+ * @param {Function} [formatPath] - Formats the file path of an occurrence
+ * @returns {string[]} One line per occurrence, safe inside a block comment
+ *
+ * @example
+ * formatAnyExceptions(context.anyExceptions);
+ * // ['allowed Listing.meta (src/listing.ts:12): Free-form metadata, validated by the API']
+ */
+export function formatAnyExceptions(
+  exceptions: AnyException[],
+  formatPath: (file: string) => string = file => file
+): string[] {
+  return exceptions.map(exception => {
+    const file = formatPath(exception.file);
+    const location = exception.line ? `${file}:${exception.line}` : file;
+    const justification = exception.justification ? `: ${exception.justification}` : '';
+    return `${exception.action} ${exception.path} (${location})${justification}`.replace(/\*\//g, '*\\/');
+  });
+}
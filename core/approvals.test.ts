@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createHash } from 'node:crypto';
+import { REMOVED_TYPE_HASH, approvePending, hashTypeDeclaration, isApproved, type ApprovalsFile } from './approvals.js';
+import { parseDeclarations } from './drift.js';
+
+const hashOf = (source: string): string => hashTypeDeclaration([...parseDeclarations(source).values()][0]);
+
+describe('hashTypeDeclaration', () => {
+  it('ignores formatting, comments and property order', () => {
+    expect(hashOf('export interface Guest { id: string; name?: string }'))
+      .toBe(hashOf('/** Guest */\nexport interface Guest {\n  name?: string;\n  id:   string;\n}'));
+    expect(hashOf('export interface Guest { id: string }')).not.toBe(hashOf('export interface Guest { id: number }'));
+    expect(hashTypeDeclaration(undefined)).toBe(REMOVED_TYPE_HASH);
+  });
+
+  it('orders properties by code unit, so the hash does not depend on the locale', () => {
+    const fingerprint = {
+      kind: 'interface',
+      typeParameters: [],
+      extends: [],
+      properties: [['B', false, false, 'string'], ['a', false, false, 'string'], ['b', false, false, 'string']]
+    };
+
+    expect(hashOf('export interface Flags { b: string; a: string; B: string }'))
+      .toBe(createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex'));
+  });
+});
+
+describe('approvePending', () => {
+  it('moves pending changes to the approved baseline', () => {
+    const approvals: ApprovalsFile = {
+      version: '1.0.0',
+      approved: {},
+      pending: {
+        Guest: { hash: 'a', changes: [], detectedAt: '2025-01-01T00:00:00.000Z' },
+        Stay: { hash: 'b', changes: [], detectedAt: '2025-01-01T00:00:00.000Z' }
+      }
+    };
+
+    expect(approvePending(approvals, { reviewer: 'jane', reason: 'Upstream change', types: ['Stay'] })).toEqual(['Stay']);
+    expect(isApproved(approvals, 'Stay', 'b')).toBe(true);
+    expect(isApproved(approvals, 'Stay', 'c')).toBe(false);
+    expect(Object.keys(approvals.pending)).toEqual(['Guest']);
+    expect(() => approvePending(approvals, { reviewer: 'jane', reason: 'x', types: ['Host'] }))
+      .toThrow('No pending change for type: Host');
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * @fileoverview Type Extraction Framework - Drift Approvals
+ *
+ * @description
+ * Approval baseline for contract drift. Reviewed changes are recorded in
+ * `type-extraction-approvals.json` (next to `type-extraction-map.json`) as a
+ * hash of the approved declaration plus reviewer and reason, so
+ * `RFCCompliantGenerator` only fails on changes nobody has signed off on.
+ * Unapproved changes are quarantined in the same file until they are approved.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { writeFileSync, existsSync, readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import { createHash } from 'node:crypto';
+import type { ExtractedType } from './types.js';
+import { getDeclarationBody, getMemberFingerprint, normalizeTypeText } from './drift.js';
+import { compareNames } from './deterministic.js';
+
+/**
+ * Default file name, resolved next to the extraction map
+ */
+export const APPROVALS_FILENAME = 'type-extraction-approvals.json';
+
+/**
+ * Hash recorded for approved removals
+ */
+export const REMOVED_TYPE_HASH = 'removed';
+
+/**
+ * @interface ApprovalEntry
+ * @description A reviewed change to a single type
+ * @since 2.0.0
+ */
+export interface ApprovalEntry {
+  /** Hash of the approved declaration (see hashTypeDeclaration) */
+  hash: string;
+  reviewer: string;
+  reason: string;
+
+  /** ISO timestamp */
+  approvedAt: string;
+}
+
+/**
+ * @interface PendingApproval
+ * @description A quarantined change waiting for review
+ * @since 2.0.0
+ */
+export interface PendingApproval {
+  /** Hash of the declaration that would be approved */
+  hash: string;
+
+  /** One-line descriptions of the changes (see describeChange) */
+  changes: string[];
+
+  /** ISO timestamp */
+  detectedAt: string;
+}
+
+/**
+ * @interface ApprovalsFile
+ * @description Contents of type-extraction-approvals.json
+ * @since 2.0.0
+ */
+export interface ApprovalsFile {
+  version: string;
+  approved: Record<string, ApprovalEntry>;
+  pending: Record<string, PendingApproval>;
+}
+
+/**
+ * @function getDefaultApprovalsPath
+ * @description Path of the approvals file for an extraction map
+ * @param {string} extractionMapPath - Path to type-extraction-map.json
+ * @returns {string} Path to type-extraction-approvals.json in the same directory
+ */
+export function getDefaultApprovalsPath(extractionMapPath: string): string {
+  return resolve(dirname(extractionMapPath), APPROVALS_FILENAME);
+}
+
+/**
+ * @function hashTypeDeclaration
+ * @description Hashes the semantic shape of a declaration
+ * @param {ExtractedType | undefined} type - Declaration, or undefined for a removed type
+ * @returns {string} sha256 hex digest, or REMOVED_TYPE_HASH
+ *
+ * @remarks
+ * Only what drift detection compares is hashed, so formatting, comments and
+ * property order do not invalidate an approval.
+ */
+export function hashTypeDeclaration(type: ExtractedType | undefined): string {
+  if (!type) {
+    return REMOVED_TYPE_HASH;
+  }
+
+  const members = type.kind === 'interface' ? getMemberFingerprint(type) : [];
+  const fingerprint = type.kind === 'interface'
+    ? {
+      kind: type.kind,
+      typeParameters: type.typeParameters ?? [],
+      extends: (type.extends ?? []).map(normalizeTypeText).sort(),
+      properties: (type.properties ?? [])
+        .map(prop => [prop.name, prop.optional, prop.readonly, normalizeTypeText(prop.type)])
+        .sort((a, b) => compareNames(String(a[0]), String(b[0]))),
+      // Only present when there are members, so hashes of property-only interfaces are unchanged
+      ...(members.length > 0 ? { members } : {})
+    }
+    : {
+      kind: type.kind,
+      typeParameters: type.typeParameters ?? [],
+      body: getDeclarationBody(type.definition)
+    };
+
+  return createHash('sha256').update(JSON.stringify(fingerprint)).digest('hex');
+}
+
+/**
+ * @function loadApprovals
+ * @description Reads an approvals file
+ * @param {string} approvalsPath - Path to the approvals file
+ * @returns {ApprovalsFile} Contents, or an empty baseline if the file does not exist
+ * @throws {Error} If the file exists but is not valid JSON
+ */
+export function loadApprovals(approvalsPath: string): ApprovalsFile {
+  if (!existsSync(approvalsPath)) {
+    return { version: '1.0.0', approved: {}, pending: {} };
+  }
+
+  try {
+    const content = JSON.parse(readFileSync(approvalsPath, 'utf-8')) as Partial<ApprovalsFile>;
+    return {
+      version: content.version ?? '1.0.0',
+      approved: content.approved ?? {},
+      pending: content.pending ?? {}
+    };
+  } catch (error) {
+    throw new Error(`Failed to read approvals from ${approvalsPath}: ${error}`);
+  }
+}
+
+/**
+ * @function saveApprovals
+ * @description Writes an approvals file with entries sorted by type name
+ * @param {string} approvalsPath - Path to the approvals file
+ * @param {ApprovalsFile} approvals - Contents to write
+ * @returns {boolean} Whether the file changed
+ */
+export function saveApprovals(approvalsPath: string, approvals: ApprovalsFile): boolean {
+  const sorted = <T>(entries: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(Object.keys(entries).sort().map(name => [name, entries[name]]));
+
+  const content = JSON.stringify({
+    version: approvals.version,
+    approved: sorted(approvals.approved),
+    pending: sorted(approvals.pending)
+  }, null, 2) + '\n';
+
+  if (existsSync(approvalsPath) && readFileSync(approvalsPath, 'utf-8') === content) {
+    return false;
+  }
+
+  writeFileSync(approvalsPath, content, 'utf-8');
+  return true;
+}
+
+/**
+ * @function isApproved
+ * @description Whether the given version of a type has been approved
+ * @param {ApprovalsFile} approvals - Approvals baseline
+ * @param {string} typeName - Type name
+ * @param {string} hash - Hash of the current declaration
+ * @returns {boolean}
+ */
+export function isApproved(approvals: ApprovalsFile, typeName: string, hash: string): boolean {
+  return approvals.approved[typeName]?.hash === hash;
+}
+
+/**
+ * @function approvePending
+ * @description Moves quarantined changes to the approved baseline
+ * @param {ApprovalsFile} approvals - Approvals baseline (updated in place)
+ * @param {Object} review - Reviewer, reason and optionally the types to approve (default: all pending)
+ * @returns {string[]} Names of the approved types
+ * @throws {Error} If a requested type has no pending change
+ *
+ * @example
+ * const approvals = loadApprovals(path);
+ * approvePending(approvals, { reviewer: 'jane', reason: 'Upstream made price optional' });
+ * saveApprovals(path, approvals);
+ */
+export function approvePending(
+  approvals: ApprovalsFile,
+  review: { reviewer: string; reason: string; types?: string[] }
+): string[] {
+  const names = review.types && review.types.length > 0 ? review.types : Object.keys(approvals.pending).sort();
+  const approvedAt = new Date().toISOString();
+
+  for (const name of names) {
+    if (!approvals.pending[name]) {
+      throw new Error(`No pending change for type: ${name}`);
+    }
+  }
+
+  for (const name of names) {
+    approvals.approved[name] = {
+      hash: approvals.pending[name].hash,
+      reviewer: review.reviewer,
+      reason: review.reason,
+      approvedAt
+    };
+    delete approvals.pending[name];
+  }
+
+  return names;
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { checkGeneratedFiles, formatFileDrift, scanGeneratedFiles } from './check.js';
+import { parseDeclarations } from './drift.js';
+import type { ExtractionContext } from './types.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('checkGeneratedFiles', () => {
+  it('reports files that have not been generated', () => {
+    const file = join(dir, 'api.types.ts');
+
+    expect(checkGeneratedFiles(new Map([[file, 'export type A = string;']]))).toEqual([
+      { file, missing: true, changes: [], notes: [] }
+    ]);
+  });
+
+  it('compares TypeScript files by declaration and re-export, ignoring formatting', () => {
+    const types = join(dir, 'api.types.ts');
+    const index = join(dir, 'index.ts');
+    writeFileSync(types, '// Generated 2025-01-01\nexport interface Guest { id: string }\n');
+    writeFileSync(index, "export * from './api.types.js';\n");
+
+    expect(checkGeneratedFiles(new Map([
+      [types, '// Generated 2025-02-01\nexport interface Guest {\n  id: string;\n}\n'],
+      [index, "export * from './api.types.js';\n"]
+    ]))).toEqual([]);
+
+    const [drift] = checkGeneratedFiles(new Map([
+      [types, 'export interface Guest { id: number }\n']
+    ]));
+    expect(formatFileDrift(drift)).toEqual(['[BREAKING] Guest.id: property type changed: string -> number']);
+
+    expect(checkGeneratedFiles(new Map([[index, "export * from './stay.types.js';\n"]]))[0].notes).toEqual([
+      "re-export added: export * from './stay.types.js';",
+      "re-export removed: export * from './api.types.js';"
+    ]);
+  });
+
+  it('reports documentation changes, which drift detection ignores', () => {
+    const types = join(dir, 'api.types.ts');
+    const header = '/**\n * Generated 2025-01-01\n */\n\n';
+    writeFileSync(types, `${header}/** A guest */\nexport interface Guest {\n  /** Id */\n  id: string;\n  note: string;\n}\n`);
+
+    expect(checkGeneratedFiles(new Map([
+      [types, `${header.replace('01-01', '02-01')}/** A guest */\nexport interface Guest {\n  /** Id */\n  id: string;\n  note: string;\n}\n`]
+    ]))).toEqual([]);
+
+    const [drift] = checkGeneratedFiles(new Map([
+      [types, `${header}/** A visitor */\nexport interface Guest {\n  id: string;\n  /** Free text */\n  note: string;\n}\n`]
+    ]));
+    expect(formatFileDrift(drift)).toEqual([
+      'documentation changed: Guest',
+      'documentation changed: Guest.id',
+      'documentation changed: Guest.note'
+    ]);
+  });
+
+  it('compares extraction maps by entry, ignoring the timestamp', () => {
+    const file = join(dir, 'type-extraction-map.json');
+    writeFileSync(file, JSON.stringify({ generated: '2025-01-01', types: { 'src/api.ts': ['Guest'] } }));
+
+    expect(checkGeneratedFiles(new Map([
+      [file, JSON.stringify({ generated: '2025-02-01', types: { 'src/api.ts': ['Guest'] } })]
+    ]))).toEqual([]);
+    expect(checkGeneratedFiles(new Map([
+      [file, JSON.stringify({ types: { 'src/api.ts': ['Stay'] } })]
+    ]))[0].notes).toEqual(['types[src/api.ts]: + Stay', 'types[src/api.ts]: - Guest']);
+  });
+});
+
+describe('scanGeneratedFiles', () => {
+  it('scans changed declarations once across files and points at the source', () => {
+    const types = join(dir, 'api.types.ts');
+    const contracts = join(dir, 'api.contracts.d.ts');
+    const source = join(dir, 'src', 'api.ts');
+    writeFileSync(types, 'export interface Guest { id: string }\n');
+    writeFileSync(contracts, 'export declare namespace Contracts { export interface Guest { id: string } }\n');
+    const context = { types: parseDeclarations('export interface Guest { id: unknown }', source) } as ExtractionContext;
+
+    const findings = scanGeneratedFiles(new Map([
+      [types, 'export interface Guest { id: unknown }\n'],
+      [contracts, 'export declare namespace Contracts { export interface Guest { id: unknown } }\n'],
+      [join(dir, 'stay.types.ts'), 'export interface Stay { script: string }\n']
+    ]), context);
+
+    expect(findings.map(finding => [finding.rule, finding.type, finding.member, finding.file])).toEqual([
+      ['widened-to-unknown', 'Guest', 'id', source]
+    ]);
+  });
+});
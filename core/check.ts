@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Type Extraction Framework - Output Check
+ *
+ * @description
+ * Compares output rendered in memory with the committed files, without
+ * writing anything, for `type-extract check` in CI. Declarations are compared
+ * with the semantic differ, so header metadata and formatting never count;
+ * the extraction map is compared entry by entry. Changed declarations are
+ * also scanned for security red flags.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parseDeclarations, diffTypes, describeChange, type DriftChange } from './drift.js';
+import { formatAnyExceptions } from './any-detection.js';
+import { formatMemberLines } from './members.js';
+import { scanSecurityRedFlags, type SecurityFinding } from './security.js';
+import type { ExtractedType, ExtractionContext } from './types.js';
+import type { ExtractionMap } from './rfc-generator.js';
+
+/**
+ * @interface FileDrift
+ * @description Differences between a committed file and its freshly generated content
+ * @since 2.0.0
+ */
+export interface FileDrift {
+  /** Absolute path of the generated file */
+  file: string;
+
+  /** Whether the file has not been generated yet */
+  missing: boolean;
+
+  /** Declarations that changed, from the committed to the generated version */
+  changes: DriftChange[];
+
+  /** Other differences: re-exports, extraction map entries, source maps */
+  notes: string[];
+}
+
+/**
+ * @function checkGeneratedFiles
+ * @description Compares generated files with the files on disk
+ * @param {Map<string, string>} files - Generated content by path, from `TypeGenerator.render`
+ * or `RFCCompliantGenerator.render`
+ * @returns {FileDrift[]} Files that are missing or out of date, in the order given
+ *
+ * @remarks
+ * TypeScript files are compared declaration by declaration, plus their
+ * re-exports; JSON files as extraction maps, ignoring the timestamp; any
+ * other file (source maps) byte by byte.
+ *
+ * @example
+ * const drift = checkGeneratedFiles(await generator.render(context));
+ * if (drift.length > 0) process.exit(1);
+ */
+export function checkGeneratedFiles(files: Map<string, string>): FileDrift[] {
+  const drift: FileDrift[] = [];
+
+  for (const [file, content] of files) {
+    if (!existsSync(file)) {
+      drift.push({ file, missing: true, changes: [], notes: [] });
+      continue;
+    }
+
+    const committed = readFileSync(file, 'utf-8');
+    const { changes, notes } = compareFile(file, committed, content);
+    if (changes.length > 0 || notes.length > 0) {
+      drift.push({ file, missing: false, changes, notes });
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * @function scanGeneratedFiles
+ * @description Scans the declarations that changed between the committed and
+ * generated TypeScript files for security red flags
+ * @param {Map<string, string>} files - Generated content by path, as for `checkGeneratedFiles`
+ * @param {ExtractionContext} context - Extraction results the files were rendered from
+ * @returns {SecurityFinding[]} Findings pointing at the extracted source, high severity first
+ *
+ * @remarks
+ * A type declared in several files (the types and the contracts) is scanned
+ * once. Files that are not committed yet are skipped, like the first run of
+ * drift detection.
+ *
+ * @example
+ * console.log(formatSecurityReview(scanGeneratedFiles(files, context)));
+ */
+export function scanGeneratedFiles(files: Map<string, string>, context: ExtractionContext): SecurityFinding[] {
+  const previous = new Map<string, ExtractedType>();
+  const current = new Map<string, ExtractedType>();
+
+  for (const [file, content] of files) {
+    if (extname(file) !== '.ts' || !existsSync(file)) {
+      continue;
+    }
+    parseDeclarations(readFileSync(file, 'utf-8'), file).forEach((type, name) => previous.set(name, type));
+    parseDeclarations(content, file).forEach((type, name) => current.set(name, type));
+  }
+
+  return scanSecurityRedFlags({ ...context, types: previous }, { ...context, types: current }).map(finding => {
+    const source = context.types.get(finding.type);
+    return source ? { ...finding, file: source.sourceFile, line: source.location.line } : finding;
+  });
+}
+
+/**
+ * @function formatFileDrift
+ * @description Formats the differences of a file for console output
+ * @param {FileDrift} drift - Differences of one file
+ * @returns {string[]} One line per difference, changes marked breaking or non-breaking
+ */
+export function formatFileDrift(drift: FileDrift): string[] {
+  if (drift.missing) {
+    return ['missing, not generated yet'];
+  }
+
+  return [
+    ...drift.changes.map(change => `${change.breaking ? '[BREAKING]' : '[non-breaking]'} ${describeChange(change)}`),
+    ...drift.notes
+  ];
+}
+
+/**
+ * Differences between the committed and generated content of a file
+ */
+function compareFile(file: string, committed: string, generated: string): Pick<FileDrift, 'changes' | 'notes'> {
+  switch (extname(file)) {
+    case '.ts': {
+      const previous = parseDeclarations(committed, file);
+      const current = parseDeclarations(generated, file);
+      return {
+        changes: diffTypes(previous, current),
+        notes: [...diffDocumentation(previous, current), ...diffReExports(committed, generated)]
+      };
+    }
+    case '.json': {
+      let previous: Partial<ExtractionMap>;
+      try {
+        previous = JSON.parse(committed);
+      } catch {
+        return { changes: [], notes: ['not valid JSON'] };
+      }
+      return { changes: [], notes: diffExtractionMaps(previous, JSON.parse(generated)) };
+    }
+    default:
+      return { changes: [], notes: committed === generated ? [] : ['content differs'] };
+  }
+}
+
+/**
+ * Types, properties and members whose documentation changed, which drift
+ * detection ignores but a run would rewrite
+ */
+function diffDocumentation(previous: Map<string, ExtractedType>, current: Map<string, ExtractedType>): string[] {
+  const notes: string[] = [];
+
+  for (const [name, type] of current) {
+    const before = previous.get(name);
+    if (!before) {
+      continue;
+    }
+
+    if (before.documentation !== type.documentation) {
+      notes.push(`documentation changed: ${name}`);
+    }
+
+    const beforeMembers = getMemberDocumentation(before);
+    for (const [member, documentation] of getMemberDocumentation(type)) {
+      if (beforeMembers.has(member) && beforeMembers.get(member) !== documentation) {
+        notes.push(`documentation changed: ${name}.${member}`);
+      }
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Documentation of the properties and members of an interface, by name or signature
+ */
+function getMemberDocumentation(type: ExtractedType): Map<string, string | undefined> {
+  return new Map([
+    ...(type.properties ?? []).map(prop => [prop.name, prop.documentation] as const),
+    ...formatMemberLines(type).map(member => [member.text, member.documentation] as const)
+  ]);
+}
+
+/**
+ * Re-exports (`export * from './Guest.js'`) added or removed, as index files have no declarations
+ */
+function diffReExports(committed: string, generated: string): string[] {
+  const pattern = /^export\b[^;\n]*\bfrom\s+['"][^'"]+['"];?[ \t]*$/gm;
+  const previous = new Set(committed.match(pattern)?.map(line => line.trim()));
+  const current = new Set(generated.match(pattern)?.map(line => line.trim()));
+
+  return [
+    ...[...current].filter(line => !previous.has(line)).map(line => `re-export added: ${line}`),
+    ...[...previous].filter(line => !current.has(line)).map(line => `re-export removed: ${line}`)
+  ];
+}
+
+/**
+ * Entries of the extraction map that changed; the timestamp is ignored
+ */
+function diffExtractionMaps(previous: Partial<ExtractionMap>, current: ExtractionMap): string[] {
+  const notes: string[] = [];
+
+  if (previous.apiVersion !== current.apiVersion) {
+    notes.push(`apiVersion: ${previous.apiVersion ?? '(none)'} -> ${current.apiVersion ?? '(none)'}`);
+  }
+
+  const previousTypes = previous.types ?? {};
+  const files = [...new Set([...Object.keys(previousTypes), ...Object.keys(current.types)])].sort();
+  for (const file of files) {
+    const before = new Set(previousTypes[file]);
+    const after = new Set(current.types[file]);
+    notes.push(
+      ...[...after].filter(name => !before.has(name)).map(name => `types[${file}]: + ${name}`),
+      ...[...before].filter(name => !after.has(name)).map(name => `types[${file}]: - ${name}`)
+    );
+  }
+
+  const before = new Set(formatAnyExceptions(previous.anyExceptions ?? []));
+  const after = new Set(formatAnyExceptions(current.anyExceptions ?? []));
+  notes.push(
+    ...[...after].filter(line => !before.has(line)).map(line => `anyExceptions: + ${line}`),
+    ...[...before].filter(line => !after.has(line)).map(line => `anyExceptions: - ${line}`)
+  );
+
+  return notes;
+}
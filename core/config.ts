@@ -10,7 +10,9 @@
  */
 
 import { resolve } from 'node:path';
-import type { ExtractionRules, OutputConfig } from './types.js';
+import type { ExtractionRules, ExtractOptions, ExpandOptions, OutputConfig, SampleInferenceOptions } from './types.js';
+import type { RFCGeneratorConfig } from './rfc-generator.js';
+import { getDefaultMetricsHistoryPath, type MetricsThresholds } from './metrics-history.js';
 
 /**
  * @interface TypeExtractionConfig
@@ -30,6 +32,30 @@ export interface TypeExtractionConfig {
     
     /** Patterns to exclude */
     exclude?: string[];
+    
+    /**
+     * npm packages to extract from, mapped to the exported types to extract
+     * (resolved from node_modules above `root`)
+     */
+    packages?: Record<string, string[]>;
+    
+    /** OpenAPI 3.x documents (JSON or YAML) to extract component schemas from */
+    openapi?: string[];
+    
+    /** Directories of JSON response samples or HAR files to infer types from */
+    samples?: string[];
+    
+    /** Tuning for type inference from samples */
+    sampleInference?: SampleInferenceOptions;
+    
+    /** Resolve aliases, enums and classes through the type checker (self-contained output) */
+    expand?: boolean | ExpandOptions;
+    
+    /** Also fail on implicit `any` inferred by the type checker */
+    implicitAny?: boolean;
+    
+    /** Library declarations the sources are checked against (tsconfig `lib`, default: ['es2022']) */
+    lib?: string[];
   };
   
   /** Output configuration */
@@ -48,11 +74,53 @@ export interface TypeExtractionConfig {
     
     /** Custom header for generated files */
     header?: string;
+    
+    /** Whether to write a `.map` source map next to each generated file */
+    sourceMaps?: boolean;
+    
+    /** Directory `@source` paths are relative to (default: project root) */
+    sourceBase?: string;
+    
+    /** Byte-identical output for identical inputs, for `git diff --exit-code` gates */
+    deterministic?: boolean;
+  };
+  
+  /** RFC-2025-TS-A01 contracts output (optional) */
+  contracts?: {
+    /** Path of third-party-contracts.d.ts */
+    outputPath: string;
+    
+    /** Path of type-extraction-map.json (default: project root) */
+    extractionMapPath?: string;
+    
+    /** Path of type-extraction-approvals.json (default: next to the extraction map) */
+    approvalsPath?: string;
+    
+    /** Fail on unapproved drift (default: true) */
+    failOnDrift?: boolean;
+    
+    /** Version of the API being extracted */
+    apiVersion?: string;
+  };
+  
+  /** Metrics history and regression alerting (RFC section 8.7); nothing is recorded without it */
+  metrics?: {
+    /** Record every extraction run in the history (default: true) */
+    record?: boolean;
+    
+    /** Path of the JSON lines history (default: type-extraction-metrics.jsonl next to the extraction map) */
+    historyPath?: string;
+    
+    /** Largest accepted regression per metric, in percent of the last passing run */
+    thresholds?: MetricsThresholds;
   };
   
   /** Extraction rules (optional - can be defined in adapter) */
   rules?: Partial<ExtractionRules>;
   
+  /** Whether errors reported by rules.validators fail the run (default: true) */
+  failOnValidatorErrors?: boolean;
+  
   /** Whether to run in watch mode */
   watch?: boolean;
   
@@ -84,6 +152,7 @@ export const DEFAULT_CONFIG: Partial<TypeExtractionConfig> = {
     generateIndex: true,
     splitTypes: false
   },
+  failOnValidatorErrors: true,
   watch: false,
   verbose: false
 };
@@ -109,14 +178,33 @@ export function resolveConfig(
     source: {
       ...DEFAULT_CONFIG.source!,
       ...userConfig.source,
-      root: resolve(projectRoot, userConfig.source?.root || DEFAULT_CONFIG.source!.root)
+      root: resolve(projectRoot, userConfig.source?.root || DEFAULT_CONFIG.source!.root),
+      openapi: userConfig.source?.openapi?.map(specPath => resolve(projectRoot, specPath)),
+      samples: userConfig.source?.samples?.map(samplePath => resolve(projectRoot, samplePath))
     },
     output: {
       ...DEFAULT_CONFIG.output!,
       ...userConfig.output,
-      directory: resolve(projectRoot, userConfig.output?.directory || DEFAULT_CONFIG.output!.directory)
+      directory: resolve(projectRoot, userConfig.output?.directory || DEFAULT_CONFIG.output!.directory),
+      sourceBase: resolve(projectRoot, userConfig.output?.sourceBase || '.')
+    },
+    contracts: userConfig.contracts && {
+      ...userConfig.contracts,
+      outputPath: resolve(projectRoot, userConfig.contracts.outputPath),
+      extractionMapPath: resolve(projectRoot, userConfig.contracts.extractionMapPath || 'type-extraction-map.json'),
+      approvalsPath: userConfig.contracts.approvalsPath && resolve(projectRoot, userConfig.contracts.approvalsPath),
+      failOnDrift: userConfig.contracts.failOnDrift ?? true
+    },
+    // Recording writes a file on every run, which would break `git diff --exit-code` gates unless asked for
+    metrics: userConfig.metrics && {
+      ...userConfig.metrics,
+      record: userConfig.metrics.record ?? true,
+      historyPath: userConfig.metrics.historyPath
+        ? resolve(projectRoot, userConfig.metrics.historyPath)
+        : getDefaultMetricsHistoryPath(resolve(projectRoot, userConfig.contracts?.extractionMapPath || 'type-extraction-map.json'))
     },
     rules: userConfig.rules,
+    failOnValidatorErrors: userConfig.failOnValidatorErrors ?? DEFAULT_CONFIG.failOnValidatorErrors,
     watch: userConfig.watch ?? DEFAULT_CONFIG.watch,
     verbose: userConfig.verbose ?? DEFAULT_CONFIG.verbose
   };
@@ -165,6 +253,49 @@ export function createOutputConfig(config: TypeExtractionConfig): OutputConfig {
     generateIndex: config.output.generateIndex ?? true,
     splitTypes: config.output.splitTypes ?? false,
     header: config.output.header,
-    sourceMaps: false
+    sourceMaps: config.output.sourceMaps ?? false,
+    sourceBase: config.output.sourceBase,
+    deterministic: config.output.deterministic ?? false
+  };
+}
+
+/**
+ * @function createRFCGeneratorConfig
+ * @description Creates RFCGeneratorConfig from TypeExtractionConfig
+ * @param {TypeExtractionConfig} config - Extraction configuration
+ * @returns {RFCGeneratorConfig | undefined} Generator configuration, or undefined if no contracts output is configured
+ */
+export function createRFCGeneratorConfig(config: TypeExtractionConfig): RFCGeneratorConfig | undefined {
+  if (!config.contracts) {
+    return undefined;
+  }
+  
+  return {
+    outputPath: config.contracts.outputPath,
+    extractionMapPath: config.contracts.extractionMapPath || resolve('type-extraction-map.json'),
+    approvalsPath: config.contracts.approvalsPath,
+    failOnDrift: config.contracts.failOnDrift ?? true,
+    apiVersion: config.contracts.apiVersion,
+    sourceBase: config.output.sourceBase,
+    deterministic: config.output.deterministic ?? false
+  };
+}
+
+/**
+ * @function createExtractOptions
+ * @description Creates ExtractOptions from TypeExtractionConfig
+ * @param {TypeExtractionConfig} config - Extraction configuration
+ * @returns {ExtractOptions} Options for BaseTypeExtractor.extract
+ */
+export function createExtractOptions(config: TypeExtractionConfig): ExtractOptions {
+  return {
+    packages: config.source.packages,
+    resolveFrom: config.source.root,
+    openapi: config.source.openapi,
+    samples: config.source.samples,
+    sampleInference: config.source.sampleInference,
+    expand: config.source.expand,
+    implicitAny: config.source.implicitAny,
+    lib: config.source.lib
   };
 }
\ No newline at end of file
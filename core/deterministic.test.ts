@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { compareNames, normalizeOutput, sortMembers } from './deterministic.js';
+import { parseDeclarations } from './drift.js';
+
+describe('compareNames', () => {
+  it('orders by code unit regardless of locale', () => {
+    expect(['b', 'B', 'a', 'Ä', '_x'].sort(compareNames)).toEqual(['B', '_x', 'a', 'b', 'Ä']);
+  });
+});
+
+describe('sortMembers', () => {
+  it('sorts properties and methods but keeps overload order', () => {
+    const type = parseDeclarations(
+      'export interface Api { z: string; a: number; get(id: string): string; get(id: number): string; close(): void }',
+      'api.ts'
+    ).get('Api')!;
+
+    const sorted = sortMembers(type);
+
+    expect(sorted.properties?.map(property => property.name)).toEqual(['a', 'z']);
+    expect(sorted.methods?.map(method => `${method.name}(${method.parameters.map(parameter => parameter.type).join()})`)).toEqual([
+      'close()', 'get(string)', 'get(number)'
+    ]);
+    expect(type.properties?.map(property => property.name)).toEqual(['z', 'a']);
+  });
+});
+
+describe('normalizeOutput', () => {
+  it('normalizes line endings, trailing whitespace and the final newline', () => {
+    expect(normalizeOutput('a  \r\nb\t\rc\n\n\n')).toBe('a\nb\nc\n');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Type Extraction Framework - Deterministic Output
+ *
+ * @description
+ * Helpers for byte-identical output from identical inputs, so a
+ * `git diff --exit-code` gate (RFC section 7.1) only fails on real type
+ * changes: ordinal instead of locale-aware ordering, stable member order and
+ * normalized line endings and whitespace.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import type { ExtractedType } from './types.js';
+
+/**
+ * @function compareNames
+ * @description Orders strings by UTF-16 code units, the same on every machine and locale
+ * @param {string} a - First name
+ * @param {string} b - Second name
+ * @returns {number} Negative, zero or positive, for `Array.prototype.sort`
+ *
+ * @example
+ * ['b', 'B', 'a'].sort(compareNames); // ['B', 'a', 'b']
+ */
+export function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * @function sortMembers
+ * @description Copy of a type with its properties and methods sorted by name
+ * @param {ExtractedType} type - Extracted type
+ * @returns {ExtractedType} Type whose properties and methods are in name order
+ *
+ * @remarks
+ * The sort is stable, so overloads of a method keep their order. Index, call
+ * and construct signatures are left as declared: the order of call and
+ * construct signatures decides overload resolution.
+ */
+export function sortMembers(type: ExtractedType): ExtractedType {
+  return {
+    ...type,
+    properties: type.properties && [...type.properties].sort((a, b) => compareNames(a.name, b.name)),
+    methods: type.methods && [...type.methods].sort((a, b) => compareNames(a.name, b.name))
+  };
+}
+
+/**
+ * @function normalizeOutput
+ * @description Normalizes line endings and whitespace of generated content
+ * @param {string} content - Generated file content
+ * @returns {string} Content with `\n` line endings, no trailing whitespace and one final newline
+ *
+ * @remarks
+ * No line is added or removed before the end of the content, so source maps
+ * created for the original content still apply.
+ */
+export function normalizeOutput(content: string): string {
+  return content
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n*$/, '\n');
+}
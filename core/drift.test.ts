@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createDriftReport, describeChange, diffTypes, parseDeclarations } from './drift.js';
+
+const diff = (before: string, after: string) => diffTypes(parseDeclarations(before), parseDeclarations(after));
+
+describe('diffTypes', () => {
+  it('ignores formatting, comments and Array<T> versus T[]', () => {
+    expect(diff(
+      'export interface Guest { id: string; tags: string[] }',
+      '/** Guest */\nexport interface Guest {\n  id:   string;\n  // tags\n  tags: Array<string>;\n}'
+    )).toEqual([]);
+  });
+
+  it('ignores the order of union members', () => {
+    expect(diff(
+      "export interface Guest { status: 'a' | 'b'; tags: Array<'x' | 'y'> | null } export type Id = string | number;",
+      "export interface Guest { status: 'b' | 'a'; tags: null | ('y' | 'x')[] } export type Id = number | string;"
+    )).toEqual([]);
+  });
+
+  it('classifies property changes as breaking or not', () => {
+    const changes = diff(
+      'export interface Guest { id: string; name?: string; email: string; readonly note: string }',
+      'export interface Guest { id: string | number; email?: string; note: string; nickname?: string; phone: string }'
+    );
+
+    expect(changes.map(change => [change.member, change.kind, change.breaking])).toEqual([
+      ['id', 'property-type-changed', true],
+      ['name', 'property-removed', true],
+      ['email', 'property-optionality-changed', true],
+      ['note', 'property-readonly-changed', false],
+      ['nickname', 'property-added', false],
+      ['phone', 'property-added', true]
+    ]);
+  });
+
+  it('compares methods and signatures', () => {
+    const changes = diff(
+      'export interface Client { fetch(id: string): Guest; (input: string): void }',
+      'export interface Client { fetch(id: number): Guest; close?(): void; (input: string): void; [key: string]: unknown }'
+    );
+
+    expect(changes.map(change => `${change.breaking ? '!' : ''}${describeChange(change)}`)).toEqual([
+      '!Client.fetch(): member signature changed: fetch(id: string): Guest -> fetch(id: number): Guest',
+      'Client.close(): added (close?(): void)',
+      '!Client.[string]: added ([key: string]: unknown)'
+    ]);
+  });
+
+  it('compares enum members and their values', () => {
+    const changes = diff('export enum Status { A = "a", B = "b" }', 'export enum Status { A = "x", C = "c" }');
+
+    expect(changes.map(change => `${change.breaking ? '!' : ''}${describeChange(change)}`)).toEqual([
+      '!Status.A: enum member value changed: "a" -> "x"',
+      '!Status.B: removed',
+      'Status.C: added ("c")'
+    ]);
+  });
+
+  it('reports added and removed types', () => {
+    const changes = diff('export type A = string;', 'export type B = number;');
+
+    expect(changes.map(change => [change.type, change.kind, change.breaking])).toEqual([
+      ['A', 'type-removed', true],
+      ['B', 'type-added', false]
+    ]);
+  });
+});
+
+describe('createDriftReport', () => {
+  it('summarizes the changes with breaking markers', () => {
+    const report = createDriftReport(diff('export interface A { x: string }', 'export interface A { x: number }'));
+
+    expect(report.hasDrift).toBe(true);
+    expect(report.summary).toBe('1 change(s), 1 breaking:\n  [BREAKING] A.x: property type changed: string -> number');
+    expect(createDriftReport([])).toEqual({ hasDrift: false, summary: 'No drift detected', changes: [] });
+  });
+});
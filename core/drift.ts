@@ -0,0 +1,529 @@
+/**
+ * @fileoverview Type Extraction Framework - Semantic Drift Analysis
+ *
+ * @description
+ * AST-based semantic diff between two versions of extracted types, as
+ * required by RFC-2025-TS-A01 section 8.6. Declarations are compared member
+ * by member, so formatting, comments and metadata headers never count as
+ * drift while a property turning optional or a type widening to `unknown` does.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { Node, SyntaxKind, printNode, ts, type JSDocableNode } from 'ts-morph';
+import type { ExtractedType, PropertyInfo, SignatureInfo } from './types.js';
+import { withParsedText } from './type-text.js';
+import { readInterfaceMembers, formatSignature } from './members.js';
+import { compareNames } from './deterministic.js';
+
+/**
+ * Kinds of change reported by the differ
+ */
+export type DriftChangeKind =
+  | 'type-added'
+  | 'type-removed'
+  | 'kind-changed'
+  | 'type-parameters-changed'
+  | 'extends-changed'
+  | 'alias-changed'
+  | 'property-added'
+  | 'property-removed'
+  | 'property-optionality-changed'
+  | 'property-readonly-changed'
+  | 'property-type-changed'
+  | 'member-added'
+  | 'member-removed'
+  | 'member-signature-changed'
+  | 'enum-member-added'
+  | 'enum-member-removed'
+  | 'enum-member-value-changed';
+
+/**
+ * @interface DriftChange
+ * @description A single semantic change between two versions of a type
+ * @since 2.0.0
+ */
+export interface DriftChange {
+  /** Type the change belongs to */
+  type: string;
+
+  /** Property, enum member, method or signature (`fetch()`, `[string]`, `()`, `new()`), for member-level changes */
+  member?: string;
+
+  kind: DriftChangeKind;
+
+  /** Whether code written against the previous version may stop compiling */
+  breaking: boolean;
+
+  /** Previous value (type text, modifier, etc.) */
+  before?: string;
+
+  /** New value */
+  after?: string;
+}
+
+/**
+ * @interface DriftReport
+ * @description Result of comparing two versions of a set of types
+ * @since 2.0.0
+ */
+export interface DriftReport {
+  hasDrift: boolean;
+  summary: string;
+  changes: DriftChange[];
+}
+
+/**
+ * @function parseDeclarations
+ * @description Parses generated output back into ExtractedType records
+ * @param {string} content - Content of a generated file (unified types file or contracts .d.ts)
+ * @param {string} fileName - Path recorded as `sourceFile` on the parsed types
+ * @returns {Map<string, ExtractedType>} Declarations by name, including those inside `declare module` blocks
+ *
+ * @remarks
+ * Documentation is read for types, properties and members, for checks that
+ * compare more than the semantic shape.
+ */
+export function parseDeclarations(content: string, fileName = ''): Map<string, ExtractedType> {
+  return withParsedText(content, 'declaration', sourceFile => {
+    const types = new Map<string, ExtractedType>();
+    const containers = [sourceFile, ...sourceFile.getModules()];
+
+    for (const container of containers) {
+      const declarations = [
+        ...container.getInterfaces(),
+        ...container.getTypeAliases(),
+        ...container.getEnums(),
+        ...container.getClasses()
+      ];
+
+      for (const node of declarations) {
+        const name = node.getName();
+        if (!name) {
+          continue;
+        }
+
+        const base: ExtractedType = {
+          name,
+          kind: Node.isInterfaceDeclaration(node) ? 'interface'
+            : Node.isTypeAliasDeclaration(node) ? 'type'
+            : Node.isEnumDeclaration(node) ? 'enum'
+            : 'class',
+          definition: node.getText(),
+          sourceFile: fileName,
+          location: {
+            line: node.getStartLineNumber(),
+            column: sourceFile.getLineAndColumnAtPos(node.getStart()).column
+          },
+          isExported: node.isExported(),
+          documentation: getAttachedDocumentation(node)
+        };
+
+        if (Node.isInterfaceDeclaration(node)) {
+          base.typeParameters = node.getTypeParameters().map(tp => tp.getText());
+          base.extends = node.getExtends().map(ext => ext.getText());
+          base.properties = node.getProperties().map(prop => ({
+            name: prop.getName(),
+            type: prop.getTypeNode()?.getText() ?? 'any',
+            optional: prop.hasQuestionToken(),
+            readonly: prop.isReadonly(),
+            documentation: getAttachedDocumentation(prop)
+          }));
+          Object.assign(base, readInterfaceMembers(node));
+        } else if (Node.isTypeAliasDeclaration(node) || Node.isClassDeclaration(node)) {
+          base.typeParameters = node.getTypeParameters().map(tp => tp.getText());
+        }
+
+        types.set(name, base);
+      }
+    }
+
+    return types;
+  });
+}
+
+/**
+ * Description of the JSDoc right above a declaration; file headers and
+ * comments separated by a blank line are not documentation of the declaration
+ */
+function getAttachedDocumentation(node: Node & JSDocableNode): string | undefined {
+  const jsDoc = node.getJsDocs().at(-1);
+  if (!jsDoc || !/^[ \t]*(\r?\n)?[ \t]*$/.test(node.getSourceFile().getFullText().slice(jsDoc.getEnd(), node.getStart()))) {
+    return undefined;
+  }
+  return jsDoc.getDescription().trim() || undefined;
+}
+
+/**
+ * @function diffTypes
+ * @description Compares two versions of a set of types member by member
+ * @param {Map<string, ExtractedType>} before - Previous types
+ * @param {Map<string, ExtractedType>} after - Current types
+ * @returns {DriftChange[]} Changes, ordered by type name
+ *
+ * @remarks
+ * A change is breaking when code written against the previous version may no
+ * longer compile, whether it reads values of the type or constructs them.
+ * Only additions of types, optional properties, optional methods and enum
+ * members, and the removal of `readonly`, are considered non-breaking.
+ */
+export function diffTypes(before: Map<string, ExtractedType>, after: Map<string, ExtractedType>): DriftChange[] {
+  const changes: DriftChange[] = [];
+  const names = [...new Set([...before.keys(), ...after.keys()])].sort();
+
+  for (const name of names) {
+    const previous = before.get(name);
+    const current = after.get(name);
+
+    if (!previous) {
+      changes.push({ type: name, kind: 'type-added', breaking: false, after: current!.kind });
+    } else if (!current) {
+      changes.push({ type: name, kind: 'type-removed', breaking: true, before: previous.kind });
+    } else if (previous.kind !== current.kind) {
+      changes.push({ type: name, kind: 'kind-changed', breaking: true, before: previous.kind, after: current.kind });
+    } else {
+      changes.push(...diffType(previous, current));
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * @function createDriftReport
+ * @description Builds a drift report with a human-readable summary
+ * @param {DriftChange[]} changes - Changes from diffTypes
+ * @returns {DriftReport} Report
+ */
+export function createDriftReport(changes: DriftChange[]): DriftReport {
+  if (changes.length === 0) {
+    return { hasDrift: false, summary: 'No drift detected', changes };
+  }
+
+  const breaking = changes.filter(change => change.breaking).length;
+  const lines = [
+    `${changes.length} change(s), ${breaking} breaking:`,
+    ...changes.map(change => `  ${change.breaking ? '[BREAKING]' : '[non-breaking]'} ${describeChange(change)}`)
+  ];
+
+  return { hasDrift: true, summary: lines.join('\n'), changes };
+}
+
+/**
+ * @function describeChange
+ * @description Formats a single change for console output
+ * @param {DriftChange} change - Change to describe
+ * @returns {string} One-line description
+ */
+export function describeChange(change: DriftChange): string {
+  const target = change.member ? `${change.type}.${change.member}` : change.type;
+
+  switch (change.kind) {
+    case 'type-added':
+      return `${target}: added (${change.after})`;
+    case 'type-removed':
+      return `${target}: removed`;
+    case 'property-added':
+    case 'enum-member-added':
+    case 'member-added':
+      return `${target}: added${change.after ? ` (${change.after})` : ''}`;
+    case 'property-removed':
+    case 'enum-member-removed':
+    case 'member-removed':
+      return `${target}: removed`;
+    default:
+      return `${target}: ${change.kind.replace(/-/g, ' ')}: ${change.before ?? '(none)'} -> ${change.after ?? '(none)'}`;
+  }
+}
+
+/**
+ * Compare two versions of the same type
+ */
+function diffType(previous: ExtractedType, current: ExtractedType): DriftChange[] {
+  const changes: DriftChange[] = [];
+  const name = current.name;
+
+  const previousParams = (previous.typeParameters ?? []).join(', ');
+  const currentParams = (current.typeParameters ?? []).join(', ');
+  if (previousParams !== currentParams) {
+    changes.push({ type: name, kind: 'type-parameters-changed', breaking: true, before: previousParams, after: currentParams });
+  }
+
+  switch (current.kind) {
+    case 'interface': {
+      const previousExtends = (previous.extends ?? []).map(normalizeTypeText).sort().join(', ');
+      const currentExtends = (current.extends ?? []).map(normalizeTypeText).sort().join(', ');
+      if (previousExtends !== currentExtends) {
+        changes.push({ type: name, kind: 'extends-changed', breaking: true, before: previousExtends, after: currentExtends });
+      }
+      changes.push(...diffProperties(name, previous.properties ?? [], current.properties ?? []));
+      changes.push(...diffMembers(name, previous, current));
+      break;
+    }
+    case 'enum':
+      changes.push(...diffEnumMembers(name, previous.definition, current.definition));
+      break;
+    default: {
+      const previousBody = getDeclarationBody(previous.definition);
+      const currentBody = getDeclarationBody(current.definition);
+      if (previousBody !== currentBody) {
+        changes.push({ type: name, kind: 'alias-changed', breaking: true, before: previousBody, after: currentBody });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare interface properties
+ */
+function diffProperties(typeName: string, before: PropertyInfo[], after: PropertyInfo[]): DriftChange[] {
+  const changes: DriftChange[] = [];
+  const previousByName = new Map(before.map(prop => [prop.name, prop]));
+  const currentByName = new Map(after.map(prop => [prop.name, prop]));
+
+  for (const [propName, previous] of previousByName) {
+    const current = currentByName.get(propName);
+
+    if (!current) {
+      changes.push({ type: typeName, member: propName, kind: 'property-removed', breaking: true, before: previous.type });
+      continue;
+    }
+
+    if (previous.optional !== current.optional) {
+      changes.push({
+        type: typeName,
+        member: propName,
+        kind: 'property-optionality-changed',
+        // Required -> optional breaks readers, optional -> required breaks writers
+        breaking: true,
+        before: previous.optional ? 'optional' : 'required',
+        after: current.optional ? 'optional' : 'required'
+      });
+    }
+
+    if (previous.readonly !== current.readonly) {
+      changes.push({
+        type: typeName,
+        member: propName,
+        kind: 'property-readonly-changed',
+        breaking: current.readonly,
+        before: previous.readonly ? 'readonly' : 'mutable',
+        after: current.readonly ? 'readonly' : 'mutable'
+      });
+    }
+
+    const previousType = normalizeTypeText(previous.type);
+    const currentType = normalizeTypeText(current.type);
+    if (previousType !== currentType) {
+      changes.push({ type: typeName, member: propName, kind: 'property-type-changed', breaking: true, before: previousType, after: currentType });
+    }
+  }
+
+  for (const [propName, current] of currentByName) {
+    if (!previousByName.has(propName)) {
+      changes.push({
+        type: typeName,
+        member: propName,
+        kind: 'property-added',
+        breaking: !current.optional,
+        after: `${current.optional ? 'optional' : 'required'} ${normalizeTypeText(current.type)}`
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare methods, index, call and construct signatures
+ */
+function diffMembers(typeName: string, previous: ExtractedType, current: ExtractedType): DriftChange[] {
+  const changes: DriftChange[] = [];
+  const before = getMemberSignatures(previous);
+  const after = getMemberSignatures(current);
+
+  for (const [member, signature] of before) {
+    const next = after.get(member);
+
+    if (!next) {
+      changes.push({ type: typeName, member, kind: 'member-removed', breaking: true, before: signature.text });
+    } else if (next.key !== signature.key) {
+      changes.push({ type: typeName, member, kind: 'member-signature-changed', breaking: true, before: signature.text, after: next.text });
+    }
+  }
+
+  for (const [member, signature] of after) {
+    if (!before.has(member)) {
+      // A new required member breaks code that implements the interface
+      changes.push({ type: typeName, member, kind: 'member-added', breaking: !signature.optional, after: signature.text });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Non-property members keyed by `name()`, `[keyType]`, `()` and `new()`. Overloads
+ * are compared together, parameter names are ignored.
+ */
+function getMemberSignatures(type: ExtractedType): Map<string, { text: string; key: string; optional: boolean }> {
+  const members = new Map<string, { text: string; key: string; optional: boolean }>();
+  const add = (member: string, prefix: string, signatures: SignatureInfo[], optional: boolean): void => {
+    if (signatures.length > 0) {
+      members.set(member, {
+        text: signatures.map(signature => `${prefix}${formatSignature(signature)}`).join('; '),
+        key: signatures.map(signature => `${prefix}${getSignatureKey(signature)}`).join('; '),
+        optional
+      });
+    }
+  };
+
+  for (const name of new Set((type.methods ?? []).map(method => method.name))) {
+    const overloads = type.methods!.filter(method => method.name === name);
+    const optional = overloads.every(method => method.optional);
+    add(`${name}()`, `${name}${optional ? '?' : ''}`, overloads, optional);
+  }
+  for (const signature of type.indexSignatures ?? []) {
+    const text = `${signature.readonly ? 'readonly ' : ''}[${signature.keyName}: ${signature.keyType}]: ${signature.type}`;
+    const key = `${signature.readonly ? 'readonly ' : ''}${normalizeTypeText(signature.type)}`;
+    members.set(`[${normalizeTypeText(signature.keyType)}]`, { text, key, optional: false });
+  }
+  add('()', '', type.callSignatures ?? [], false);
+  add('new()', 'new ', type.constructSignatures ?? [], false);
+
+  return members;
+}
+
+/**
+ * @function getMemberFingerprint
+ * @description Normalized, sorted signatures of the non-property members of an interface
+ * @param {ExtractedType} type - Interface type
+ * @returns {string[]} One entry per method (all overloads), index, call and construct signature
+ */
+export function getMemberFingerprint(type: ExtractedType): string[] {
+  return [...getMemberSignatures(type)].map(([member, signature]) => `${member} ${signature.key}`).sort();
+}
+
+/**
+ * Signature text with normalized types and positional parameter names
+ */
+function getSignatureKey(signature: SignatureInfo): string {
+  return formatSignature({
+    typeParameters: signature.typeParameters,
+    parameters: signature.parameters.map((param, index) => ({ ...param, name: `p${index}`, type: normalizeTypeText(param.type) })),
+    returnType: normalizeTypeText(signature.returnType)
+  });
+}
+
+/**
+ * Compare enum members and their values
+ */
+function diffEnumMembers(typeName: string, beforeDefinition: string, afterDefinition: string): DriftChange[] {
+  const changes: DriftChange[] = [];
+  const before = getEnumMembers(beforeDefinition);
+  const after = getEnumMembers(afterDefinition);
+
+  for (const [member, value] of before) {
+    if (!after.has(member)) {
+      changes.push({ type: typeName, member, kind: 'enum-member-removed', breaking: true, before: value });
+    } else if (after.get(member) !== value) {
+      changes.push({ type: typeName, member, kind: 'enum-member-value-changed', breaking: true, before: value, after: after.get(member) });
+    }
+  }
+
+  for (const [member, value] of after) {
+    if (!before.has(member)) {
+      changes.push({ type: typeName, member, kind: 'enum-member-added', breaking: false, after: value });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Enum member names mapped to their (computed where possible) values
+ */
+function getEnumMembers(definition: string): Map<string, string> {
+  return withParsedText(definition, 'declaration', sourceFile => {
+    const members = new Map<string, string>();
+    const enumDecl = sourceFile.getFirstDescendantByKind(SyntaxKind.EnumDeclaration);
+
+    for (const member of enumDecl?.getMembers() ?? []) {
+      members.set(member.getName(), JSON.stringify(member.getValue() ?? member.getInitializer()?.getText() ?? null));
+    }
+
+    return members;
+  });
+}
+
+/**
+ * @function getDeclarationBody
+ * @description Normalized text of the type on the right-hand side of a type alias
+ * (or of the whole declaration for other kinds)
+ * @param {string} definition - Declaration text
+ * @returns {string} Normalized body text
+ */
+export function getDeclarationBody(definition: string): string {
+  return withParsedText(definition, 'declaration', sourceFile => {
+    const aliasType = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+    if (aliasType) {
+      return normalizeTypeText(aliasType.getText());
+    }
+    return printNode(sourceFile.compilerNode).replace(/\s+/g, ' ').trim();
+  });
+}
+
+/**
+ * @function normalizeTypeText
+ * @description Prints type text through the TypeScript printer so formatting differences vanish
+ * @param {string} text - Type text
+ * @returns {string} Normalized type text
+ *
+ * @remarks
+ * `Array<T>` and `ReadonlyArray<T>` are printed as `T[]` and `readonly T[]`,
+ * and union members are sorted, since their order does not change the type.
+ */
+export function normalizeTypeText(text: string): string {
+  return withParsedText(text, 'type', sourceFile => {
+    const alias = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration);
+    if (!alias?.getTypeNode()) {
+      return text.replace(/\s+/g, ' ').trim();
+    }
+
+    const print = (node: ts.Node): string => printNode(node, sourceFile.compilerNode).replace(/\s+/g, ' ').trim();
+    const normalize: ts.TransformerFactory<ts.Node> = context => {
+      const { factory } = context;
+      const visit = (original: ts.Node): ts.Node => {
+        const node = ts.visitEachChild(original, visit, context);
+
+        if (ts.isTypeReferenceNode(node) && ts.isIdentifier(node.typeName) && node.typeArguments?.length === 1) {
+          const arrayType = factory.createArrayTypeNode(node.typeArguments[0]);
+          if (node.typeName.text === 'Array') {
+            return arrayType;
+          }
+          if (node.typeName.text === 'ReadonlyArray') {
+            return factory.createTypeOperatorNode(ts.SyntaxKind.ReadonlyKeyword, arrayType);
+          }
+        }
+
+        if (ts.isUnionTypeNode(node)) {
+          const members = [...node.types].sort((a, b) => compareNames(print(a), print(b)));
+          return factory.updateUnionTypeNode(node, factory.createNodeArray(members));
+        }
+
+        return node;
+      };
+      return root => ts.visitNode(root, visit);
+    };
+
+    const result = ts.transform(alias.getTypeNodeOrThrow().compilerNode, [normalize]);
+    try {
+      return print(result.transformed[0]);
+    } finally {
+      result.dispose();
+    }
+  });
+}
@@ -0,0 +1,508 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BaseTypeExtractor } from './extractor.js';
+import type { ExtractionContext, ExtractionRules, ExtractOptions } from './types.js';
+
+class TestExtractor extends BaseTypeExtractor {
+  protected async applyTransformations(): Promise<void> {}
+  protected async validateTypes(): Promise<void> {}
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function extract(source: string, rules: Partial<ExtractionRules> = {}, options?: ExtractOptions): Promise<ExtractionContext> {
+  const file = join(dir, 'api.ts');
+  writeFileSync(file, source);
+  return new TestExtractor({ apiId: 'test', ...rules }).extract([file], [], options);
+}
+
+const errorsOf = (context: ExtractionContext, rule?: string): string[] => context.errors
+  .filter(error => error.severity !== 'warning' && (rule === undefined || error.rule === rule))
+  .map(error => error.message);
+
+describe('rule transforms', () => {
+  it('removes, transforms and adds properties and re-renders the definition', async () => {
+    const context = await extract('export interface Guest { id: string; legacy: number; name: string }', {
+      transforms: {
+        Guest: {
+          removeProperties: ['legacy'],
+          transformProperties: { name: { rename: 'fullName', optional: true } },
+          addProperties: [{ name: 'tags', type: 'string[]', optional: false, readonly: true }]
+        }
+      }
+    });
+
+    const guest = context.types.get('Guest')!;
+    expect(guest.properties?.map(prop => prop.name)).toEqual(['id', 'fullName', 'tags']);
+    expect(guest.definition).toContain('fullName?: string');
+    expect(guest.definition).toContain('readonly tags: string[]');
+    expect(guest.definition).not.toContain('legacy');
+    expect(context.metrics.transformsApplied).toBe(1);
+  });
+
+  it('keeps type parameter constraints, defaults and documentation when re-rendering', async () => {
+    const context = await extract([
+      'export interface Guest { id: string }',
+      '/** A box */',
+      "export interface Box<T extends string = 'a', G extends Guest = Guest> { value: T; legacy: number; guest: G }"
+    ].join('\n'), {
+      naming: { prefix: 'Api' },
+      transforms: { Box: { removeProperties: ['legacy'] } }
+    });
+
+    const box = context.types.get('ApiBox')!;
+    expect(box.typeParameters).toEqual(["T extends string = 'a'", 'G extends ApiGuest = ApiGuest']);
+    expect(box.definition).toContain("/**\n * A box\n */\nexport interface ApiBox<T extends string = 'a', G extends ApiGuest = ApiGuest> {");
+    expect(box.definition).not.toContain('legacy');
+  });
+
+  it('renames types in place', async () => {
+    const context = await extract('export interface Guest { id: string } export type Stay = { id: string };', {
+      transforms: { Guest: { rename: 'Visitor' }, Stay: { rename: 'Booking' } }
+    });
+
+    expect([...context.types.keys()]).toEqual(['Visitor', 'Booking']);
+    expect(context.types.get('Visitor')?.definition).toContain('interface Visitor');
+    expect(context.types.get('Booking')?.definition).toContain('type Booking =');
+  });
+
+  it('reports transforms of types that were not extracted', async () => {
+    const context = await extract('export interface Guest { id: string }', { transforms: { Missing: { rename: 'Other' } } });
+
+    expect(errorsOf(context)).toContain("Transform target 'Missing' was not extracted");
+  });
+});
+
+describe('discriminators', () => {
+  it('splits an interface into variants and a union alias', async () => {
+    const context = await extract('export interface Entry { status: string; date: string }', {
+      discriminators: { Entry: { property: 'status', variants: { available: 'Available', blocked: 'Blocked' } } }
+    });
+
+    const entry = context.types.get('Entry')!;
+    expect(entry.kind).toBe('type');
+    expect(entry.definition).toBe('export type Entry = Available | Blocked;');
+    expect(entry.discriminator).toEqual({ property: 'status', variants: { available: 'Available', blocked: 'Blocked' } });
+    expect(context.types.get('Available')?.properties).toEqual([
+      expect.objectContaining({ name: 'status', type: "'available'" }),
+      expect.objectContaining({ name: 'date', type: 'string' })
+    ]);
+  });
+
+  it('keeps numeric discriminants numeric', async () => {
+    const context = await extract('export interface Event { version: number; body: string }', {
+      transforms: { Event: { discriminate: 'version', variants: { 1: 'EventV1', 2: 'EventV2' } } }
+    });
+
+    expect(context.types.get('EventV2')?.properties?.[0].type).toBe('2');
+  });
+
+  it('refuses variants that clash with extracted types', async () => {
+    const context = await extract('export interface Entry { status: string } export interface Available { x: number }', {
+      discriminators: { Entry: { property: 'status', variants: { available: 'Available' } } }
+    });
+
+    expect(context.types.get('Entry')?.kind).toBe('interface');
+    expect(errorsOf(context)[0]).toContain('variants conflict with existing types: Available');
+  });
+});
+
+describe('naming rules', () => {
+  it('prefixes every type and rewrites references', async () => {
+    const context = await extract('export interface Guest { id: string } export type Guests = Guest[];', {
+      naming: { prefix: 'Api' }
+    });
+
+    expect([...context.types.keys()].sort()).toEqual(['ApiGuest', 'ApiGuests']);
+    expect(context.types.get('ApiGuests')?.definition).toContain('= ApiGuest[]');
+  });
+
+  it('rewrites references to types renamed by a transform', async () => {
+    const context = await extract('export interface Guest { id: string } export interface Stay { guest: Guest; others: Guest[] }', {
+      transforms: { Guest: { rename: 'Visitor' } }
+    });
+
+    expect(context.types.has('Guest')).toBe(false);
+    expect(context.types.get('Visitor')?.originalName).toBe('Guest');
+    expect(context.types.get('Stay')?.properties?.map(prop => prop.type)).toEqual(['Visitor', 'Visitor[]']);
+  });
+
+  it('leaves types renamed by a transform alone and prefers the transform function', async () => {
+    const context = await extract('export interface Guest { id: string } export interface Stay { guest: Guest }', {
+      transforms: { Guest: { rename: 'Visitor' } },
+      naming: { prefix: 'Ignored', transform: name => `${name}Dto` }
+    });
+
+    expect([...context.types.keys()].sort()).toEqual(['StayDto', 'Visitor']);
+  });
+});
+
+describe('validators', () => {
+  it('reports errors and warnings of validators with the location of the type', async () => {
+    const context = await extract('export interface Guest { id: string }\nexport interface Stay { nights: number }', {
+      validators: {
+        Guest: () => ({ valid: true, warnings: ['no email'] }),
+        Stay: type => ({ valid: type.properties?.length === 2, errors: [] })
+      }
+    });
+
+    expect(context.errors).toEqual([
+      expect.objectContaining({ type: 'Guest', message: 'Guest: no email', line: 1, severity: 'warning', rule: 'validator' }),
+      expect.objectContaining({ type: 'Stay', message: 'Stay: Validation failed', line: 2, severity: 'error', rule: 'validator' })
+    ]);
+    expect(context.metrics.validationsPassed).toBe(1);
+    expect(context.metrics.validationsFailed).toBe(1);
+  });
+
+  it('finds validators by the source name of renamed types and reports validators that throw', async () => {
+    const context = await extract('export interface Guest { id: string }', {
+      transforms: { Guest: { rename: 'Visitor' } },
+      validators: {
+        Guest: () => {
+          throw new Error('boom');
+        }
+      }
+    });
+
+    expect(errorsOf(context, 'validator')).toEqual(['Visitor: Validator threw: boom']);
+  });
+});
+
+describe('incremental extraction', () => {
+  it('refreshes changed files and drops files that are no longer listed', async () => {
+    const guest = join(dir, 'guest.ts');
+    const stay = join(dir, 'stay.ts');
+    writeFileSync(guest, 'export interface Guest { id: string }');
+    writeFileSync(stay, 'export interface Stay { nights: number }');
+    const extractor = new TestExtractor({ apiId: 'test' });
+    await extractor.extract([guest, stay]);
+
+    writeFileSync(guest, 'export interface Guest { id: number }');
+    const unchanged = await extractor.extract([guest, stay]);
+    expect(unchanged.types.get('Guest')?.properties?.[0].type).toBe('string');
+
+    const context = await extractor.extract([guest], [guest]);
+    expect([...context.types.keys()]).toEqual(['Guest']);
+    expect(context.types.get('Guest')?.properties?.[0].type).toBe('number');
+  });
+});
+
+describe('package types', () => {
+  it('extracts requested package types and records their package', async () => {
+    const context = await new TestExtractor({ apiId: 'test' }).extract([], [], {
+      packages: { yaml: ['ToStringOptions'] },
+      resolveFrom: process.cwd()
+    });
+
+    const options = context.types.get('ToStringOptions')!;
+    expect(options.package).toBe('yaml');
+    expect(options.sourceFile).toContain(join('node_modules', 'yaml'));
+    // @types/node declares `interface Array<T> extends RelativeIndexable<T> {}` globally
+    expect(context.types.has('Array')).toBe(false);
+    expect(context.types.has('RelativeIndexable')).toBe(false);
+  });
+
+  it('reports exports the package does not have', async () => {
+    const context = await new TestExtractor({ apiId: 'test' }).extract([], [], {
+      packages: { yaml: ['NoSuchType'] },
+      resolveFrom: process.cwd()
+    });
+
+    expect(errorsOf(context)[0]).toBe("Package 'yaml' does not export a type named 'NoSuchType'");
+  });
+
+  it('reports packages that cannot be resolved', async () => {
+    const context = await new TestExtractor({ apiId: 'test' }).extract([], [], {
+      packages: { 'no-such-package': ['Options'] },
+      resolveFrom: dir
+    });
+
+    expect(errorsOf(context)).toHaveLength(1);
+    expect(errorsOf(context)[0]).toContain('no-such-package');
+  });
+});
+
+describe('roots', () => {
+  it('keeps only the dependency closure of the roots', async () => {
+    const context = await extract([
+      'export interface Address { city: string }',
+      'export interface Guest { address: Address }',
+      'export interface Internal { secret: string }'
+    ].join('\n'), { roots: ['Guest'] });
+
+    expect([...context.types.keys()].sort()).toEqual(['Address', 'Guest']);
+  });
+
+  it('follows imports into files outside the source list', async () => {
+    writeFileSync(join(dir, 'shared.ts'), 'export interface Address { city: string }');
+    const context = await extract([
+      "import type { Address } from './shared.js';",
+      'export interface Guest { address: Address; tags: Array<string> }'
+    ].join('\n'), { roots: ['Guest'] });
+
+    expect([...context.types.keys()].sort()).toEqual(['Address', 'Guest']);
+    expect(context.types.get('Address')?.sourceFile).toBe(join(dir, 'shared.ts'));
+    expect(errorsOf(context)).toEqual([]);
+  });
+
+  it('reports unresolved references', async () => {
+    const context = await extract('export interface Guest { missing: Nope }', { roots: ['Guest'] });
+
+    expect(errorsOf(context, 'unresolved-reference')).toEqual(["Unresolved type reference 'Nope' in 'Guest'"]);
+  });
+
+  it('follows classes and enums used as values and reports other values and namespaces', async () => {
+    const context = await extract([
+      'declare const TYPE: unique symbol;',
+      'const defaults = { nights: 1 };',
+      'export namespace Events { export interface Map { close: [] } }',
+      "export enum Kind { File = 'file' }",
+      'export class Entry { name = "" }',
+      "export type Index = number & { [TYPE]: 'Index' };",
+      'export interface Options {',
+      '  index: Index;',
+      '  defaults: typeof defaults;',
+      '  events: Events.Map;',
+      '  kind: Kind.File;',
+      '  factory: typeof Entry;',
+      '  [Kind.File]?: (entry: Entry) => typeof entry;',
+      '}'
+    ].join('\n'), { roots: ['Options'] });
+
+    expect([...context.types.keys()].sort()).toEqual(['Entry', 'Index', 'Kind', 'Options']);
+    expect(errorsOf(context, 'unresolved-reference')).toEqual([
+      "Value reference 'typeof defaults' in 'Options' cannot be extracted; only classes and enums are",
+      "Qualified reference 'Events.Map' in 'Options' cannot be extracted; reference the type by its own name",
+      "Value reference '[TYPE]' in 'Index' cannot be extracted; only classes and enums are"
+    ]);
+  });
+
+  it('reports roots that were not extracted', async () => {
+    const context = await extract('export interface Guest { id: string }', { roots: ['Guest', 'Host'] });
+
+    expect(errorsOf(context)).toContain("Root type 'Host' was not extracted");
+  });
+});
+
+describe('lib', () => {
+  it('checks sources against ES2022 without DOM globals unless lib adds them', async () => {
+    writeFileSync(join(dir, 'api.ts'), 'export interface Widget { root: HTMLElement }');
+    const extractor = new TestExtractor({ apiId: 'test', roots: ['Widget'] });
+
+    const es2022 = await extractor.extract([join(dir, 'api.ts')]);
+    expect(errorsOf(es2022, 'unresolved-reference')).toEqual(["Unresolved type reference 'HTMLElement' in 'Widget'"]);
+
+    const dom = await extractor.extract([join(dir, 'api.ts')], [], { lib: ['es2022', 'DOM'] });
+    expect(errorsOf(dom)).toEqual([]);
+    expect([...dom.types.keys()]).toEqual(['Widget']);
+  });
+});
+
+describe('OpenAPI documents', () => {
+  it('extracts component schemas with their location in the document', async () => {
+    const spec = join(dir, 'api.yaml');
+    writeFileSync(spec, [
+      'openapi: 3.1.0',
+      'info: { title: Test, version: 1.0.0 }',
+      'components:',
+      '  schemas:',
+      '    Guest:',
+      '      type: object',
+      '      properties:',
+      '        id: { type: string }',
+      ''
+    ].join('\n'));
+
+    const context = await new TestExtractor({ apiId: 'test' }).extract([], [], { openapi: [spec] });
+
+    const guest = context.types.get('Guest')!;
+    expect(guest.sourceFile).toBe(spec);
+    expect(guest.location.line).toBe(5);
+    expect(guest.properties?.map(prop => [prop.name, prop.type, prop.optional])).toEqual([['id', 'string', true]]);
+  });
+
+  it('reports documents that cannot be read', async () => {
+    const spec = join(dir, 'api.json');
+    writeFileSync(spec, '{ "swagger": "2.0" }');
+
+    const context = await new TestExtractor({ apiId: 'test' }).extract([], [], { openapi: [spec] });
+
+    expect(context.errors).toEqual([expect.objectContaining({ file: spec, severity: 'error' })]);
+  });
+});
+
+describe('samples', () => {
+  it('extracts types inferred from samples with the file they came from', async () => {
+    const samples = join(dir, 'samples');
+    mkdirSync(samples);
+    writeFileSync(join(samples, 'guest.json'), '{ "id": "g1", "nights": 2 }');
+
+    const context = await new TestExtractor({ apiId: 'test' }).extract([], [], { samples: [samples] });
+
+    expect(context.types.get('Guest')?.sourceFile).toBe(join(samples, 'guest.json'));
+    expect(context.types.get('Guest')?.properties?.map(prop => prop.type)).toEqual(['string', 'number']);
+  });
+});
+
+describe('expand mode', () => {
+  const source = [
+    "import type { InternalGuest } from './internal.js';",
+    "const DEFAULTS = { currency: 'EUR', nights: 1 };",
+    'const OFFSET = 10;',
+    "export type PublicGuest = Pick<InternalGuest, 'id' | 'since' | 'address'>;",
+    'export type Defaults = typeof DEFAULTS;',
+    'export type Wrapped<T> = Pick<T, never>;',
+    'export enum Code { A = OFFSET + 1, B }'
+  ].join('\n');
+
+  beforeEach(() => {
+    writeFileSync(join(dir, 'internal.ts'), 'export interface InternalGuest { id: string; secret: string; since: Date; address: { city: { name: string } } }');
+  });
+
+  it('resolves aliases of types that are not extracted through the type checker', async () => {
+    const context = await extract(source, {}, { expand: true });
+
+    expect(context.types.get('PublicGuest')?.definition.trim()).toBe([
+      'export type PublicGuest = {',
+      '  id: string;',
+      '  since: Date;',
+      '  address: {',
+      '    city: {',
+      '      name: string;',
+      '    };',
+      '  };',
+      '};'
+    ].join('\n'));
+    expect(context.types.get('Defaults')?.definition.trim()).toBe('export type Defaults = {\n  currency: string;\n  nights: number;\n};');
+    expect(context.types.get('Wrapped')?.definition.trim()).toBe('export type Wrapped<T> = Pick<T, never>;');
+    expect(context.types.get('Code')?.definition.trim()).toBe('export enum Code { A = 11, B }');
+  });
+
+  it('keeps nested types beyond the depth limit as written and warns', async () => {
+    const context = await extract(source, {}, { expand: { maxDepth: 1 } });
+
+    expect(context.types.get('PublicGuest')?.definition.trim()).toContain('address: { city: { name: string; }; };');
+    expect(context.errors).toEqual([expect.objectContaining({ type: 'PublicGuest', severity: 'warning', rule: 'expand-depth' })]);
+  });
+
+  it('copies declarations as written by default', async () => {
+    const context = await extract(source);
+
+    expect(context.types.get('PublicGuest')?.definition.trim()).toBe("export type PublicGuest = Pick<InternalGuest, 'id' | 'since' | 'address'>;");
+  });
+});
+
+describe('interface members', () => {
+  it('extracts methods, index, call and construct signatures and keeps them through transforms', async () => {
+    const context = await extract([
+      'export interface Client {',
+      '  readonly [key: string]: unknown;',
+      '  (input: string): number;',
+      '  new (options?: { retries: number }): Client;',
+      '  fetch<T extends object = {}>(id: string, ...rest: number[]): Promise<T>;',
+      '  fetch(id: number): void;',
+      '  close?(): void;',
+      '  name: string;',
+      '}'
+    ].join('\n'), { transforms: { Client: { removeProperties: ['name'] } } });
+
+    const client = context.types.get('Client')!;
+    expect(client.indexSignatures).toEqual([{ keyName: 'key', keyType: 'string', type: 'unknown', readonly: true }]);
+    expect(client.callSignatures).toEqual([
+      { parameters: [{ name: 'input', type: 'string', optional: false, rest: false }], returnType: 'number' }
+    ]);
+    expect(client.constructSignatures?.[0].parameters[0]).toMatchObject({ name: 'options', optional: true });
+    expect(client.methods?.map(method => [method.name, method.optional, method.typeParameters, method.returnType])).toEqual([
+      ['fetch', false, ['T extends object = {}'], 'Promise<T>'],
+      ['fetch', false, undefined, 'void'],
+      ['close', true, undefined, 'void']
+    ]);
+    expect(client.methods?.[0].parameters[1]).toEqual({ name: 'rest', type: 'number[]', optional: false, rest: true });
+
+    // The definition is re-rendered after the transform, with every member
+    expect(client.definition).not.toContain('name: string');
+    expect(client.definition).toContain('readonly [key: string]: unknown;');
+    expect(client.definition).toContain('(input: string): number;');
+    expect(client.definition).toContain('new (options?: { retries: number }): Client;');
+    expect(client.definition).toContain('fetch<T extends object = {}>(id: string, ...rest: number[]): Promise<T>;');
+    expect(client.definition).toContain('close?(): void;');
+  });
+});
+
+describe('any detection', () => {
+  const source = 'export interface Listing { id: string; meta: any; tags: any[] }';
+
+  it('fails on any, reporting every occurrence with its location and member path', async () => {
+    const context = await extract(source);
+
+    const violations = context.errors.filter(error => error.rule === 'any-type-violation');
+    expect(violations.map(error => [error.line, error.column])).toEqual([[1, 46], [1, 57]]);
+    expect(violations.map(error => error.message)).toEqual([
+      expect.stringContaining('Listing.meta'),
+      expect.stringContaining('Listing.tags')
+    ]);
+    expect(context.metrics.anyTypeViolations).toBe(1);
+  });
+
+  it('ignores any in comments, strings and names', async () => {
+    const context = await extract("/** Accepts any value */\nexport interface Company { anyName: 'any'; many: string }");
+
+    expect(errorsOf(context)).toEqual([]);
+  });
+
+  it('handles implicit any only when asked to', async () => {
+    const implicitSource = 'export interface Client { fetch(id): string }';
+
+    expect(errorsOf(await extract(implicitSource), 'any-type-violation')).toEqual([]);
+    expect(errorsOf(await extract(implicitSource, {}, { implicitAny: true }), 'any-type-violation')).toHaveLength(1);
+  });
+});
+
+describe('any policy', () => {
+  const source = 'export interface Listing { id: string; meta: any; tags: any[] }';
+
+  it('fails the extraction by default', async () => {
+    const context = await extract(source);
+
+    expect(errorsOf(context, 'any-type-violation')).toHaveLength(2);
+    expect(errorsOf(context, 'extraction-failed')).toEqual(["Extraction failed: 2 'any' type violations found. See errors for details."]);
+  });
+
+  it('brands and allows occurrences by path, the most specific path winning', async () => {
+    const context = await extract(source, {
+      anyPolicy: {
+        default: { mode: 'brand' },
+        paths: { 'Listing.meta': { mode: 'allow', justification: 'Free-form metadata' } }
+      }
+    });
+
+    expect(errorsOf(context)).toEqual([]);
+    expect(context.anyExceptions.map(exception => [exception.path, exception.action])).toEqual([
+      ['Listing.meta', 'allowed'],
+      ['Listing.tags', 'branded']
+    ]);
+    const listing = context.types.get('Listing')!;
+    expect(listing.properties?.find(prop => prop.name === 'meta')?.type).toBe('any');
+    expect(listing.properties?.find(prop => prop.name === 'tags')?.type).not.toContain('any[]');
+  });
+
+  it('fails allow rules without a justification', async () => {
+    const context = await extract(source, {
+      anyPolicy: { default: { mode: 'brand' }, paths: { 'Listing.meta': { mode: 'allow', justification: ' ' } } }
+    });
+
+    expect(errorsOf(context, 'any-type-violation')).toEqual([
+      "Type 'Listing' contains 'any' type at Listing.meta, allowed by an any policy rule without a justification."
+    ]);
+  });
+});
@@ -10,17 +10,42 @@
  * @since 2.0.0
  */
 
-import { Project, SourceFile, Node, InterfaceDeclaration, TypeAliasDeclaration, EnumDeclaration, ClassDeclaration, PropertySignature, JSDocableNode, Type, ScriptTarget, ModuleKind } from 'ts-morph';
+import { Project, SourceFile, Node, InterfaceDeclaration, TypeAliasDeclaration, EnumDeclaration, ClassDeclaration, PropertySignature, JSDocableNode, Type, ScriptTarget, ModuleKind, ModuleResolutionKind, ModuleDeclarationKind, SyntaxKind, ts } from 'ts-morph';
 import { resolve } from 'node:path';
 import type {
+  DiscriminatorConfig,
   ExtractedType,
   ExtractionContext,
   ExtractionRules,
+  ExtractOptions,
+  ExpandOptions,
+  SampleInferenceOptions,
   PropertyInfo,
+  PropertyTransform,
+  TypeTransform,
   ExtractionError,
   ExtractionMetrics,
-  BrandedUnknown
+  ValidationResult,
+  BrandedUnknown,
+  AnyPolicyRule
 } from './types.js';
+import { getTypeParameterName, rewriteTypeReferences, withParsedText } from './type-text.js';
+import { findAnyTypes, spliceAnyTypes, type AnyOccurrence } from './any-detection.js';
+import { readInterfaceMembers, formatMemberLines, mapMemberTypes } from './members.js';
+import { resolvePackageTypes, getPackageName } from './package-source.js';
+import { loadOpenApiSource, type OpenApiSource } from './openapi-source.js';
+import { loadSampleSource, type SampleSource } from './sample-source.js';
+import { expandDeclaration, DEFAULT_EXPAND_DEPTH } from './type-expansion.js';
+
+/**
+ * Library declarations the sources are checked against unless `lib` is set
+ */
+const DEFAULT_LIB = ['es2022'];
+
+/**
+ * Declarations that can become an ExtractedType
+ */
+type ExtractableDeclaration = InterfaceDeclaration | TypeAliasDeclaration | EnumDeclaration | ClassDeclaration;
 
 /**
  * @class BaseTypeExtractor
@@ -45,7 +70,36 @@ export abstract class BaseTypeExtractor {
   protected project: Project;
 
   constructor(rules: ExtractionRules) {
-    this.context = {
+    this.context = this.createContext(rules);
+
+    // Initialize ts-morph project
+    this.project = this.createProject(DEFAULT_LIB);
+  }
+
+  /**
+   * Create the ts-morph project the sources are checked in
+   */
+  protected createProject(lib: string[]): Project {
+    return new Project({
+      compilerOptions: {
+        target: ScriptTarget.ES2022,
+        module: ModuleKind.ESNext,
+        moduleResolution: ModuleResolutionKind.Bundler,
+        lib: toLibFileNames(lib),
+        allowJs: false,
+        skipLibCheck: true,
+        strict: true,
+        esModuleInterop: true,
+        resolveJsonModule: true
+      }
+    });
+  }
+
+  /**
+   * Create an empty extraction context
+   */
+  protected createContext(rules: ExtractionRules): ExtractionContext {
+    return {
       sourceFiles: [],
       types: new Map(),
       rules,
@@ -58,32 +112,33 @@ export abstract class BaseTypeExtractor {
         validationsFailed: 0,
         anyTypeViolations: 0
       },
-      errors: []
+      errors: [],
+      anyExceptions: []
     };
-
-    // Initialize ts-morph project
-    this.project = new Project({
-      compilerOptions: {
-        target: ScriptTarget.ES2022,
-        module: ModuleKind.ESNext,
-        lib: ["es2022"],
-        allowJs: false,
-        skipLibCheck: true,
-        strict: true,
-        esModuleInterop: true,
-        resolveJsonModule: true
-      }
-    });
   }
 
   /**
    * @method extract
    * @description Main entry point for type extraction process
    * @param {string[]} sourceFiles - Array of absolute paths to TypeScript files
+   * @param {string[]} changedFiles - Files from a previous run whose contents changed on disk
+   * @param {ExtractOptions} options - npm packages, OpenAPI documents and response samples to extract types from
    * @returns {Promise<ExtractionContext>} Extraction results with types, errors, and metrics
    * @public
    * @async
    * 
+   * @remarks
+   * The extractor can be called repeatedly (e.g. in watch mode). Each call
+   * returns a fresh context; the ts-morph project is kept, so only new files
+   * and `changedFiles` are read from disk and files no longer listed are dropped.
+   * 
+   * Types listed in `options.packages` are read from the package's declaration
+   * entry point, following re-exports, together with every type they reference.
+   * The schemas of `options.openapi` documents and the types inferred from
+   * `options.samples` are converted to declarations and extracted like source files.
+   * With `options.expand`, aliases, enums and classes are printed through the
+   * type checker so the output does not depend on helpers that are not extracted.
+   * 
    * @example
    * const extractor = new GuestyExtractor();
    * const context = await extractor.extract([
@@ -91,36 +146,115 @@ export abstract class BaseTypeExtractor {
    *   '/path/to/api/models.ts'
    * ]);
    */
-  async extract(sourceFiles: string[]): Promise<ExtractionContext> {
+  async extract(
+    sourceFiles: string[],
+    changedFiles: string[] = [],
+    options: ExtractOptions = {}
+  ): Promise<ExtractionContext> {
+    this.context = this.createContext(this.context.rules);
     this.context.sourceFiles = sourceFiles;
     
     try {
-      // Add source files to project
+      // Check the sources against the requested library declarations
+      this.setLib(options.lib ?? DEFAULT_LIB);
+      
+      // Bring the project in line with the requested source files and packages
+      const packageEntries = this.resolvePackageEntries(options);
+      this.syncProject([...sourceFiles, ...packageEntries.values()], changedFiles);
+      
+      // Parse each source file (files pulled in through imports are not parsed)
       for (const file of sourceFiles) {
-        this.project.addSourceFileAtPath(file);
+        await this.parseFile(this.project.getSourceFileOrThrow(resolve(file)));
       }
       
-      // Parse each source file
-      for (const sourceFile of this.project.getSourceFiles()) {
-        await this.parseFile(sourceFile);
-      }
+      // Extract component schemas from OpenAPI documents
+      await this.extractOpenApiTypes(options.openapi ?? []);
+      
+      // Infer types from recorded responses
+      await this.extractSampleTypes(options.samples ?? [], options.sampleInference);
+      
+      // Extract requested types from npm packages
+      this.extractPackageTypes(packageEntries, options.packages ?? {});
+      
+      // Keep only types reachable from the configured roots
+      this.applyRoots(Object.values(options.packages ?? {}).flat());
+      
+      // Resolve declarations that reference types missing from the output
+      this.expandTypes(options.expand);
+      
+      // Apply declarative transforms from the extraction rules
+      this.applyRuleTransforms();
+      
+      // Split configured types into discriminated unions
+      this.applyDiscriminators();
       
       // Apply API-specific transformations
       await this.applyTransformations();
       
+      // Apply naming conventions and rewrite references to renamed types
+      this.applyNamingRules();
+      
       // Validate extracted types
       await this.validateTypes();
       
-      // Check for any type violations
-      this.detectAnyTypes();
+      // Run validators configured in the extraction rules
+      this.runValidators();
+      
+      // Fail, brand or allow 'any' according to the any policy
+      this.applyAnyPolicy(options.implicitAny);
       
     } catch (error) {
-      this.addError('', `Extraction failed: ${error instanceof Error ? error.message : String(error)}`);
+      this.addDiagnostic({
+        file: '',
+        message: `Extraction failed: ${error instanceof Error ? error.message : String(error)}`,
+        rule: 'extraction-failed'
+      });
     }
     
     return this.context;
   }
 
+  /**
+   * Check the sources against the library declarations of `lib` (`['es2022', 'dom']`)
+   * 
+   * @remarks
+   * The compiler options of a ts-morph project cannot change once its program
+   * exists, so the project is recreated, and every file read again, when `lib` changes.
+   */
+  protected setLib(lib: string[]): void {
+    if (toLibFileNames(lib).join() !== this.project.getCompilerOptions().lib?.join()) {
+      this.project = this.createProject(lib);
+    }
+  }
+
+  /**
+   * Add, refresh and remove project source files to match `sourceFiles`
+   */
+  protected syncProject(sourceFiles: string[], changedFiles: string[]): void {
+    const changed = new Set(changedFiles.map(file => resolve(file)));
+    const kept = new Set<SourceFile>();
+
+    for (const file of sourceFiles) {
+      const filePath = resolve(file);
+      const existing = this.project.getSourceFile(filePath);
+      
+      if (!existing) {
+        kept.add(this.project.addSourceFileAtPath(filePath));
+      } else {
+        if (changed.has(filePath)) {
+          existing.refreshFromFileSystemSync();
+        }
+        kept.add(existing);
+      }
+    }
+
+    for (const sourceFile of this.project.getSourceFiles()) {
+      if (!kept.has(sourceFile)) {
+        this.project.removeSourceFile(sourceFile);
+      }
+    }
+  }
+
   /**
    * Parse a single source file
    */
@@ -151,52 +285,555 @@ export abstract class BaseTypeExtractor {
   }
 
   /**
-   * @method detectAnyTypes
-   * @description Detects 'any' types in extracted types and fails extraction if found
+   * @method extractOpenApiTypes
+   * @description Extracts the component schemas of OpenAPI documents
+   * @param {string[]} specPaths - Paths to OpenAPI 3.x JSON/YAML documents
+   * @returns {Promise<void>}
    * @protected
+   * @async
+   * 
+   * @remarks
+   * Each document is converted to declarations in an in-memory source file next
+   * to it (`api.yaml.ts`), which is parsed like any other source. Extracted
+   * types point back at the schema in the document, and `oneOf` unions with a
+   * `discriminator` carry discriminator metadata like synthesized unions.
    */
-  protected detectAnyTypes(): void {
-    for (const [name, extractedType] of this.context.types) {
-      const anyOccurrences = this.findAnyInDefinition(extractedType.definition);
+  protected async extractOpenApiTypes(specPaths: string[]): Promise<void> {
+    for (const specPath of specPaths.map(path => resolve(path))) {
+      let openApi: OpenApiSource;
+      try {
+        openApi = loadOpenApiSource(specPath);
+      } catch (error) {
+        this.addError(specPath, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      for (const type of await this.parseGeneratedSource(`${specPath}.ts`, openApi.source)) {
+        type.sourceFile = specPath;
+        type.location = openApi.locations[type.name] ?? type.location;
+        if (openApi.discriminators[type.name]) {
+          type.discriminator = openApi.discriminators[type.name];
+        }
+      }
+
+      for (const warning of openApi.warnings) {
+        this.addWarning(specPath, warning);
+      }
+    }
+  }
+
+  /**
+   * @method extractSampleTypes
+   * @description Infers types from recorded JSON responses
+   * @param {string[]} inputPaths - Directories of JSON samples or HAR files
+   * @param {SampleInferenceOptions} inference - Inference tuning
+   * @returns {Promise<void>}
+   * @protected
+   * @async
+   * 
+   * @remarks
+   * Inferred types point at the sample file (or HAR file) they were inferred from.
+   */
+  protected async extractSampleTypes(inputPaths: string[], inference: SampleInferenceOptions = {}): Promise<void> {
+    for (const inputPath of inputPaths.map(path => resolve(path))) {
+      let samples: SampleSource;
+      try {
+        samples = loadSampleSource(inputPath, inference);
+      } catch (error) {
+        this.addError(inputPath, `Failed to read samples: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      for (const type of await this.parseGeneratedSource(`${inputPath}.inferred.ts`, samples.source)) {
+        type.sourceFile = samples.origins[type.name] ?? inputPath;
+        type.location = { line: 1, column: 1 };
+      }
+
+      for (const warning of samples.warnings) {
+        this.addWarning(inputPath, warning);
+      }
+    }
+  }
+
+  /**
+   * Parse generated declarations from an in-memory source file
+   * 
+   * @returns The types extracted from it, so callers can point them at their real origin
+   */
+  protected async parseGeneratedSource(filePath: string, text: string): Promise<ExtractedType[]> {
+    const sourceFile = this.project.createSourceFile(filePath, text, { overwrite: true });
+    await this.parseFile(sourceFile);
+
+    return [...this.context.types.values()].filter(type => type.sourceFile === sourceFile.getFilePath());
+  }
+
+  /**
+   * Resolve the declaration entry point of each requested package
+   */
+  protected resolvePackageEntries(options: ExtractOptions): Map<string, string> {
+    const entries = new Map<string, string>();
+    
+    for (const packageName of Object.keys(options.packages ?? {})) {
+      const entry = resolvePackageTypes(packageName, options.resolveFrom ?? process.cwd());
       
-      if (anyOccurrences.length > 0) {
-        this.context.metrics.anyTypeViolations++;
+      if (entry) {
+        entries.set(packageName, entry);
+      } else {
+        this.addError('', `Cannot resolve type declarations for package '${packageName}'`);
+      }
+    }
+    
+    return entries;
+  }
+
+  /**
+   * @method extractPackageTypes
+   * @description Extracts the requested exports of npm packages and their dependencies
+   * @param {Map<string, string>} entries - Package name to declaration entry point
+   * @param {Record<string, string[]>} packages - Package name to exported type names
+   * @protected
+   * 
+   * @remarks
+   * Exports are looked up through the entry point's re-exports, and every type
+   * they reference is extracted too (transitively), except TypeScript's own lib
+   * types. Requested types are tagged with the requested package, dependencies
+   * with the package that declares them. Types re-exported under another name
+   * are renamed to the exported name.
+   */
+  protected extractPackageTypes(entries: Map<string, string>, packages: Record<string, string[]>): void {
+    const queue: Array<{ node: ExtractableDeclaration; packageName?: string }> = [];
+    const renames = new Map<string, string>();
+    
+    for (const [packageName, entry] of entries) {
+      const exported = this.project.getSourceFileOrThrow(entry).getExportedDeclarations();
+      
+      for (const exportName of packages[packageName]) {
+        const declaration = exported.get(exportName)?.find(isExtractableDeclaration);
         
-        for (const occurrence of anyOccurrences) {
+        if (!declaration) {
+          this.addError(entry, `Package '${packageName}' does not export a type named '${exportName}'`, exportName);
+          continue;
+        }
+        
+        queue.push({ node: declaration, packageName });
+        if (declaration.getName() !== exportName) {
+          renames.set(declaration.getName()!, exportName);
+        }
+      }
+    }
+    
+    this.extractClosure(queue);
+    this.renameTypes(renames);
+  }
+
+  /**
+   * @method applyRoots
+   * @description Narrows the extracted types to the dependency closure of `rules.roots`
+   * @param {string[]} additionalRoots - Further roots (types requested from packages)
+   * @protected
+   * 
+   * @remarks
+   * References are resolved with the type checker, so declarations from files
+   * outside the source list and from packages are pulled in as needed, and
+   * unreachable internals are dropped. Does nothing when no roots are configured.
+   */
+  protected applyRoots(additionalRoots: string[] = []): void {
+    const roots = this.context.rules.roots;
+    if (!roots || roots.length === 0) {
+      return;
+    }
+    
+    const queue: Array<{ node: ExtractableDeclaration }> = [];
+    
+    for (const name of [...roots, ...additionalRoots]) {
+      const node = this.context.types.get(name)?.astNode;
+      
+      if (Node.isNode(node) && isExtractableDeclaration(node)) {
+        queue.push({ node });
+      } else if (roots.includes(name)) {
+        this.addError('', `Root type '${name}' was not extracted`, name);
+      }
+    }
+    
+    const reached = this.extractClosure(queue);
+    
+    for (const [name, type] of this.context.types) {
+      if (!reached.has(type)) {
+        this.context.types.delete(name);
+        this.context.metrics.typesExtracted--;
+      }
+    }
+  }
+
+  /**
+   * @method expandTypes
+   * @description Replaces the source text of aliases, enums and classes with their resolved types
+   * @param {boolean | ExpandOptions} expand - Expansion settings (off when falsy)
+   * @protected
+   * 
+   * @remarks
+   * Extracted types are kept as references; so are the names in
+   * `expand.preserve`. Anything deeper than `expand.maxDepth` is printed as the
+   * checker writes it and reported with the `expand-depth` rule.
+   */
+  protected expandTypes(expand: boolean | ExpandOptions = false): void {
+    if (!expand) {
+      return;
+    }
+    
+    const { maxDepth = DEFAULT_EXPAND_DEPTH, preserve = [] } = expand === true ? {} : expand;
+    const isPreserved = (declaration: Node): boolean => {
+      if (!isExtractableDeclaration(declaration)) {
+        return false;
+      }
+      const name = declaration.getName() ?? '';
+      return preserve.includes(name) || this.context.types.get(name)?.astNode === declaration;
+    };
+    
+    for (const type of this.context.types.values()) {
+      const node = type.astNode;
+      if (!Node.isNode(node) || !isExtractableDeclaration(node) || Node.isInterfaceDeclaration(node)) {
+        continue;
+      }
+      
+      const expansion = expandDeclaration(node, { maxDepth, isPreserved });
+      if (!expansion) {
+        continue;
+      }
+      
+      type.definition = expansion.definition;
+      if (type.kind === 'class') {
+        type.extends = expansion.extends;
+      }
+      
+      for (const text of new Set(expansion.truncated)) {
+        this.addDiagnostic({
+          file: type.sourceFile,
+          type: type.name,
+          message: `Type '${type.name}' reached the expansion depth limit (${maxDepth}); '${text}' is kept as written`,
+          line: type.location.line,
+          severity: 'warning',
+          rule: 'expand-depth'
+        });
+      }
+    }
+  }
+
+  /**
+   * @method extractClosure
+   * @description Extracts declarations and, transitively, every type they reference
+   * @param {Array} queue - Declarations to start from, with the package they were requested from
+   * @returns {Set<ExtractedType>} Every type reached, including ones extracted earlier
+   * @protected
+   */
+  protected extractClosure(
+    queue: Array<{ node: ExtractableDeclaration; packageName?: string }>
+  ): Set<ExtractedType> {
+    const byNode = new Map<unknown, ExtractedType>();
+    for (const type of this.context.types.values()) {
+      byNode.set(type.astNode, type);
+    }
+    
+    const visited = new Set<Node>();
+    const reached = new Set<ExtractedType>();
+    
+    while (queue.length > 0) {
+      const { node, packageName } = queue.shift()!;
+      const name = node.getName();
+      
+      if (!name || visited.has(node)) {
+        continue;
+      }
+      visited.add(node);
+      
+      let type = byNode.get(node);
+      if (!type) {
+        if (this.context.types.has(name)) {
           this.addError(
-            extractedType.sourceFile,
-            `Type '${name}' contains 'any' type: ${occurrence.context}. Use a specific type or branded unknown instead.`,
-            'any-type-violation',
-            occurrence.line,
-            occurrence.column
+            node.getSourceFile().getFilePath(),
+            `Type '${name}' from ${getPackageName(node.getSourceFile().getFilePath()) ?? node.getSourceFile().getBaseName()} conflicts with an already extracted type of the same name`,
+            name,
+            node.getStartLineNumber()
           );
+          continue;
         }
         
-        // Fail the extraction
-        throw new Error(`Extraction failed: ${anyOccurrences.length} 'any' type violations found. See errors for details.`);
+        this.extractDeclaration(node);
+        
+        type = this.context.types.get(name);
+        if (!type) {
+          // Excluded by the rules
+          continue;
+        }
+        type.package = packageName ?? getPackageName(type.sourceFile);
+        byNode.set(node, type);
       }
+      
+      reached.add(type);
+      queue.push(...this.collectTypeDependencies(node).map(dependency => ({ node: dependency })));
     }
+    
+    return reached;
   }
 
   /**
-   * Find 'any' types in a definition string
+   * Extract any supported declaration
    */
-  protected findAnyInDefinition(definition: string): Array<{ context: string; line?: number; column?: number }> {
-    const occurrences: Array<{ context: string; line?: number; column?: number }> = [];
+  protected extractDeclaration(node: ExtractableDeclaration): void {
+    if (Node.isInterfaceDeclaration(node)) {
+      this.extractInterface(node);
+    } else if (Node.isTypeAliasDeclaration(node)) {
+      this.extractTypeAlias(node);
+    } else if (Node.isEnumDeclaration(node)) {
+      this.extractEnum(node);
+    } else {
+      this.extractClass(node);
+    }
+  }
+
+  /**
+   * @method collectTypeDependencies
+   * @description Finds the declarations of the types a declaration references
+   * @param {ExtractableDeclaration} node - Declaration to scan
+   * @returns {ExtractableDeclaration[]} Referenced declarations, excluding TypeScript lib types
+   * @protected
+   * 
+   * @remarks
+   * Global declarations are skipped as well: redeclaring a global augmentation
+   * such as `interface Array<T> extends RelativeIndexable<T> {}` from
+   * @types/node would shadow the global type in the generated module.
+   * References the checker cannot resolve are reported as errors, since they
+   * would be emitted as dangling names. So are references that resolve to
+   * something only a class or enum could stand for in the output: values
+   * (`typeof defaults`, a `[TYPE]` unique symbol key) and namespace-qualified
+   * names (`ts.CompilerOptions`), except enum members (`Kind.File`).
+   */
+  protected collectTypeDependencies(node: ExtractableDeclaration): ExtractableDeclaration[] {
+    const program = this.project.getProgram().compilerObject;
+    const dependencies: ExtractableDeclaration[] = [];
     
-    // Regex to find 'any' as a type (not part of a word)
-    const anyRegex = /\b(any)\b(?![\w])/g;
-    let match;
+    for (const reference of node.getDescendants()) {
+      let nameNode: Node;
+      if (Node.isTypeReference(reference)) {
+        nameNode = reference.getTypeName();
+      } else if (Node.isExpressionWithTypeArguments(reference)) {
+        nameNode = reference.getExpression();
+      } else if (Node.isTypeQuery(reference)) {
+        nameNode = reference.getExprName();
+      } else if (Node.isComputedPropertyName(reference)) {
+        nameNode = reference.getExpression();
+      } else {
+        continue;
+      }
+      
+      // `Enum.Member` resolves through its left-most identifier
+      let identifier = nameNode;
+      while (Node.isQualifiedName(identifier) || Node.isPropertyAccessExpression(identifier)) {
+        identifier = Node.isQualifiedName(identifier) ? identifier.getLeft() : identifier.getExpression();
+      }
+      if (!Node.isIdentifier(identifier)) {
+        // Literal keys (`['content-type']`) and call expressions (mixins)
+        continue;
+      }
+      
+      let symbol = identifier.getSymbol();
+      if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol();
+      }
+      
+      // Unknown names and imports from modules that cannot be resolved
+      const resolved = symbol?.getDeclarations() ?? [];
+      if (resolved.length === 0) {
+        this.addDiagnostic({
+          file: node.getSourceFile().getFilePath(),
+          type: node.getName(),
+          message: `Unresolved type reference '${nameNode.getText()}' in '${node.getName()}'`,
+          line: reference.getStartLineNumber(),
+          rule: 'unresolved-reference'
+        });
+        continue;
+      }
+      
+      // Parameters and type parameters of the declaration itself stay as they are
+      const declarations = resolved
+        .filter(declaration => !program.isSourceFileDefaultLibrary(declaration.getSourceFile().compilerNode))
+        .filter(declaration => !isGlobalDeclaration(declaration))
+        .filter(declaration => !declaration.getAncestors().includes(node));
+      
+      const isValue = Node.isTypeQuery(reference) || Node.isComputedPropertyName(reference);
+      const isQualified = nameNode !== identifier;
+      const extractable = declarations.filter(isExtractableDeclaration).filter(declaration => isValue
+        ? Node.isClassDeclaration(declaration) || Node.isEnumDeclaration(declaration)
+        : !isQualified || Node.isEnumDeclaration(declaration));
+      
+      if (extractable.length > 0) {
+        dependencies.push(extractable[0]);
+      } else if ((isValue || isQualified) && declarations.length > 0) {
+        this.addDiagnostic({
+          file: node.getSourceFile().getFilePath(),
+          type: node.getName(),
+          message: isValue
+            ? `Value reference '${reference.getText()}' in '${node.getName()}' cannot be extracted; only classes and enums are`
+            : `Qualified reference '${nameNode.getText()}' in '${node.getName()}' cannot be extracted; reference the type by its own name`,
+          line: reference.getStartLineNumber(),
+          rule: 'unresolved-reference'
+        });
+      }
+    }
     
-    while ((match = anyRegex.exec(definition)) !== null) {
-      const startIndex = Math.max(0, match.index - 20);
-      const endIndex = Math.min(definition.length, match.index + 20);
-      const context = definition.substring(startIndex, endIndex);
+    return dependencies;
+  }
+
+  /**
+   * @method applyAnyPolicy
+   * @description Fails, brands or allows each 'any' in the extracted types according to `rules.anyPolicy`
+   * @param {boolean} implicit - Also handle implicit any inferred by the type checker
+   * @protected
+   * 
+   * @remarks
+   * Type nodes are walked, so 'any' in comments and string literals is ignored.
+   * Every failing occurrence of every type is reported before the extraction
+   * fails. Branded and allowed occurrences are recorded in `context.anyExceptions`.
+   */
+  protected applyAnyPolicy(implicit = false): void {
+    let violations = 0;
+    
+    for (const [name, extractedType] of this.context.types) {
+      const branded: Array<{ occurrence: AnyOccurrence; type: string }> = [];
+      let failed = false;
+      
+      for (const occurrence of this.findAnyOccurrences(extractedType, implicit)) {
+        const rule = this.resolveAnyPolicy(extractedType, occurrence.path);
+        const exception = { type: name, path: occurrence.path, file: extractedType.sourceFile, line: occurrence.line };
+        
+        if (rule.mode === 'brand') {
+          branded.push({ occurrence, type: this.createBrandedUnknown('any', occurrence.path) });
+          this.context.anyExceptions.push({ ...exception, action: 'branded' });
+          continue;
+        }
+        
+        if (rule.mode === 'allow' && rule.justification?.trim()) {
+          this.context.anyExceptions.push({ ...exception, action: 'allowed', justification: rule.justification.trim() });
+          continue;
+        }
+        
+        failed = true;
+        violations++;
+        this.addDiagnostic({
+          file: extractedType.sourceFile,
+          type: name,
+          message: rule.mode === 'allow'
+            ? `Type '${name}' contains 'any' type at ${occurrence.path}, allowed by an any policy rule without a justification.`
+            : `Type '${name}' contains ${occurrence.implicit ? 'implicit ' : ''}'any' type at ${occurrence.path}. Use a specific type or branded unknown instead.`,
+          line: occurrence.line,
+          column: occurrence.column,
+          severity: 'error',
+          rule: 'any-type-violation'
+        });
+      }
+      
+      if (failed) {
+        this.context.metrics.anyTypeViolations++;
+      }
       
-      occurrences.push({ context });
+      if (branded.length > 0) {
+        extractedType.definition = spliceAnyTypes(extractedType.definition, branded);
+        if (extractedType.kind === 'interface') {
+          this.refreshInterfaceTypes(extractedType);
+        }
+      }
+    }
+    
+    if (violations > 0) {
+      // Fail the extraction
+      throw new Error(`${violations} 'any' type violations found. See errors for details.`);
+    }
+  }
+
+  /**
+   * @method resolveAnyPolicy
+   * @description Finds the any policy rule for a member path
+   * @param {ExtractedType} type - Type the occurrence belongs to
+   * @param {string} path - Member path of the occurrence (`Listing.meta.tags`)
+   * @returns {AnyPolicyRule} Rule of the most specific matching path, or the default
+   * @protected
+   */
+  protected resolveAnyPolicy(type: ExtractedType, path: string): AnyPolicyRule {
+    const policy = this.context.rules.anyPolicy ?? {};
+    const member = path.slice(type.name.length);
+    const names = type.originalName ? [type.name, type.originalName] : [type.name];
+    let best: { specificity: number; rule: AnyPolicyRule } | undefined;
+    
+    for (const [key, rule] of Object.entries(policy.paths ?? {})) {
+      for (const name of names) {
+        const candidate = name + member;
+        const matches = candidate === key || (candidate.startsWith(key) && '.(['.includes(candidate.charAt(key.length)));
+        const specificity = key.length - name.length;
+        
+        if (matches && (!best || specificity > best.specificity)) {
+          best = { specificity, rule };
+        }
+      }
     }
     
-    return occurrences;
+    return best?.rule ?? policy.default ?? { mode: 'fail' };
+  }
+
+  /**
+   * Re-read property, member and extends types of an interface from its rewritten definition
+   */
+  protected refreshInterfaceTypes(type: ExtractedType): void {
+    withParsedText(type.definition, 'declaration', sourceFile => {
+      const node = sourceFile.getInterfaces()[0];
+      if (!node) {
+        return;
+      }
+      
+      for (const prop of node.getProperties()) {
+        const extracted = type.properties?.find(p => p.name === prop.getName());
+        if (extracted) {
+          extracted.type = this.getPropertyTypeString(prop);
+        }
+      }
+      
+      Object.assign(type, this.extractMembers(node));
+      type.extends = node.getExtends().map(ext => ext.getText());
+    });
+  }
+
+  /**
+   * @method findAnyOccurrences
+   * @description Finds 'any' in the definition of an extracted type
+   * @param {ExtractedType} type - Extracted type
+   * @param {boolean} implicit - Also report implicit any inferred by the type checker
+   * @returns {AnyOccurrence[]} Occurrences with source positions
+   * @protected
+   * 
+   * @remarks
+   * While the definition is still the text of its source declaration, that
+   * declaration is walked, giving exact positions and checker types. Rewritten
+   * or synthesized definitions are parsed on their own: lines are offset from
+   * the type's location and only implicit any visible from the syntax
+   * (untyped members and signature parameters) is detected.
+   */
+  protected findAnyOccurrences(type: ExtractedType, implicit: boolean): AnyOccurrence[] {
+    const node = type.astNode;
+    if (node instanceof Node && node.getFullText() === type.definition) {
+      return findAnyTypes(node, type.name, implicit);
+    }
+
+    return withParsedText(type.definition, 'declaration', sourceFile => {
+      const declaration = sourceFile.getStatements().find(isExtractableDeclaration);
+      if (!declaration) {
+        return [];
+      }
+      
+      const offset = type.location.line - declaration.getStartLineNumber();
+      return findAnyTypes(declaration, type.name, implicit, false).map(occurrence => ({
+        ...occurrence,
+        line: occurrence.line + offset
+      }));
+    });
   }
 
   /**
@@ -218,14 +855,12 @@ export abstract class BaseTypeExtractor {
       kind: 'interface',
       definition: node.getFullText(),
       sourceFile: node.getSourceFile().getFilePath(),
-      location: {
-        line: node.getStartLineNumber(),
-        column: node.getStartLinePos()
-      },
+      location: this.getLocation(node),
       isExported: node.isExported(),
       documentation: this.getJSDoc(node),
       properties: this.extractProperties(node),
-      typeParameters: node.getTypeParameters().map(tp => tp.getName()),
+      ...this.extractMembers(node),
+      typeParameters: node.getTypeParameters().map(tp => tp.getText()),
       extends: node.getExtends().map(ext => ext.getText()),
       astNode: node
     };
@@ -255,28 +890,28 @@ export abstract class BaseTypeExtractor {
   }
 
   /**
-   * Get property type as string with 'any' to branded unknown conversion
+   * @method extractMembers
+   * @description Extracts the methods, index, call and construct signatures of an interface
+   * @param {InterfaceDeclaration} node - Interface declaration node
+   * @returns {Partial<ExtractedType>} Member fields, omitted when the interface has none
+   * @protected
    */
-  protected getPropertyTypeString(prop: PropertySignature): string {
-    const typeNode = prop.getTypeNode();
+  protected extractMembers(node: InterfaceDeclaration): Partial<ExtractedType> {
+    const members = readInterfaceMembers(node);
     
-    if (!typeNode) {
-      return this.createBrandedUnknown('property', prop.getName());
-    }
-    
-    let typeString = typeNode.getText();
-    
-    // Convert 'any' to branded unknown
-    if (typeString === 'any') {
-      const propertyName = prop.getName();
-      const interfaceName = prop.getParent()?.getKindName() || 'unknown';
-      return this.createBrandedUnknown('property', `${interfaceName}.${propertyName}`);
-    }
-    
-    // Handle nested any types
-    typeString = this.replaceSenseAnyTypes(typeString, prop.getName());
-    
-    return typeString;
+    return {
+      methods: members.methods.length > 0 ? members.methods : undefined,
+      indexSignatures: members.indexSignatures.length > 0 ? members.indexSignatures : undefined,
+      callSignatures: members.callSignatures.length > 0 ? members.callSignatures : undefined,
+      constructSignatures: members.constructSignatures.length > 0 ? members.constructSignatures : undefined
+    };
+  }
+
+  /**
+   * Get property type as string ('any' when no type is written, as TypeScript reads it)
+   */
+  protected getPropertyTypeString(prop: PropertySignature): string {
+    return prop.getTypeNode()?.getText() ?? 'any';
   }
 
   /**
@@ -292,13 +927,11 @@ export abstract class BaseTypeExtractor {
   }
 
   /**
-   * Replace any types in a type string with branded unknowns
+   * 1-based line and column where a declaration starts (after its JSDoc)
    */
-  protected replaceSenseAnyTypes(typeString: string, context: string): string {
-    // Replace standalone 'any' with branded unknown
-    return typeString.replace(/\bany\b/g, () => {
-      return this.createBrandedUnknown('replaced-any', context);
-    });
+  protected getLocation(node: Node): ExtractedType['location'] {
+    const { line, column } = node.getSourceFile().getLineAndColumnAtPos(node.getStart());
+    return { line, column };
   }
 
   /**
@@ -327,13 +960,10 @@ export abstract class BaseTypeExtractor {
       kind: 'type',
       definition: node.getFullText(),
       sourceFile: node.getSourceFile().getFilePath(),
-      location: {
-        line: node.getStartLineNumber(),
-        column: node.getStartLinePos()
-      },
+      location: this.getLocation(node),
       isExported: node.isExported(),
       documentation: this.getJSDoc(node),
-      typeParameters: node.getTypeParameters().map(tp => tp.getName()),
+      typeParameters: node.getTypeParameters().map(tp => tp.getText()),
       astNode: node
     };
 
@@ -356,10 +986,7 @@ export abstract class BaseTypeExtractor {
       kind: 'enum',
       definition: node.getFullText(),
       sourceFile: node.getSourceFile().getFilePath(),
-      location: {
-        line: node.getStartLineNumber(),
-        column: node.getStartLinePos()
-      },
+      location: this.getLocation(node),
       isExported: node.isExported(),
       documentation: this.getJSDoc(node),
       astNode: node
@@ -382,15 +1009,13 @@ export abstract class BaseTypeExtractor {
     const extractedType: ExtractedType = {
       name,
       kind: 'class',
-      definition: node.getFullText(),
+      // Classes of `declare module` blocks need `declare` once they are top-level statements
+      definition: node.isAmbient() && !node.hasDeclareKeyword() ? withDeclareKeyword(node) : node.getFullText(),
       sourceFile: node.getSourceFile().getFilePath(),
-      location: {
-        line: node.getStartLineNumber(),
-        column: node.getStartLinePos()
-      },
+      location: this.getLocation(node),
       isExported: node.isExported(),
       documentation: this.getJSDoc(node),
-      typeParameters: node.getTypeParameters().map(tp => tp.getName()),
+      typeParameters: node.getTypeParameters().map(tp => tp.getText()),
       extends: node.getExtends() ? [node.getExtends()!.getText()] : undefined,
       astNode: node
     };
@@ -407,6 +1032,419 @@ export abstract class BaseTypeExtractor {
     return false;
   }
 
+  /**
+   * @method applyRuleTransforms
+   * @description Applies the declarative `transforms` from the extraction rules
+   * @protected
+   * 
+   * @remarks
+   * Runs before applyTransformations(), so adapters only need to implement
+   * what the declarative rules cannot express. Each transformed type counts
+   * once towards `metrics.transformsApplied`.
+   */
+  protected applyRuleTransforms(): void {
+    const transforms = this.context.rules.transforms;
+    if (!transforms) {
+      return;
+    }
+
+    const renames = new Map<string, string>();
+
+    for (const [name, transform] of Object.entries(transforms)) {
+      const extractedType = this.context.types.get(name);
+      
+      if (!extractedType) {
+        this.addError('', `Transform target '${name}' was not extracted`, name);
+        continue;
+      }
+      
+      const renamed = Boolean(transform.rename && transform.rename !== name);
+      if (renamed) {
+        renames.set(name, transform.rename!);
+      }
+      
+      if (this.applyTypeTransform(extractedType, transform) || renamed) {
+        this.context.metrics.transformsApplied++;
+      }
+    }
+
+    this.renameTypes(renames);
+  }
+
+  /**
+   * @method applyTypeTransform
+   * @description Applies a single TypeTransform to an extracted type
+   * @param {ExtractedType} type - Type to transform (mutated in place)
+   * @param {TypeTransform} transform - Transform to apply
+   * @returns {boolean} Whether the type was changed
+   * @protected
+   * 
+   * @remarks
+   * Property edits run in the order remove, transform, add, so a transform
+   * can drop a property and re-add it with a different shape. The
+   * `definition` of an edited interface is re-rendered from its properties.
+   * `rename` is handled by renameTypes() so references are rewritten too.
+   */
+  protected applyTypeTransform(type: ExtractedType, transform: TypeTransform): boolean {
+    let changed = false;
+    const editsProperties = Boolean(
+      transform.removeProperties?.length ||
+      transform.addProperties?.length ||
+      (transform.transformProperties && Object.keys(transform.transformProperties).length > 0)
+    );
+
+    if (editsProperties) {
+      if (!type.properties) {
+        this.addError(
+          type.sourceFile,
+          `Cannot apply property transforms to ${type.kind} '${type.name}': only interfaces have properties`,
+          type.name
+        );
+      } else {
+        let properties = type.properties;
+
+        if (transform.removeProperties) {
+          const removed = new Set(transform.removeProperties);
+          properties = properties.filter(prop => !removed.has(prop.name));
+        }
+
+        if (transform.transformProperties) {
+          for (const [propName, propTransform] of Object.entries(transform.transformProperties)) {
+            const index = properties.findIndex(prop => prop.name === propName);
+            if (index === -1) {
+              this.addError(type.sourceFile, `Property '${propName}' not found on '${type.name}'`, type.name);
+              continue;
+            }
+            properties[index] = this.applyPropertyTransform(properties[index], propTransform);
+          }
+        }
+
+        if (transform.addProperties) {
+          for (const added of transform.addProperties) {
+            // Adding an existing property replaces it
+            properties = properties.filter(prop => prop.name !== added.name);
+            properties.push({ ...added });
+          }
+        }
+
+        type.properties = properties;
+        changed = true;
+      }
+    }
+
+    if (changed && type.kind === 'interface') {
+      type.definition = this.renderInterfaceDefinition(type);
+    }
+
+    return changed;
+  }
+
+  /**
+   * @method applyDiscriminators
+   * @description Synthesizes discriminated unions from `rules.discriminators`
+   * and from transforms that set `discriminate`
+   * @protected
+   */
+  protected applyDiscriminators(): void {
+    const configs: Array<[string, DiscriminatorConfig]> = Object.entries(this.context.rules.discriminators ?? {});
+
+    for (const [name, transform] of Object.entries(this.context.rules.transforms ?? {})) {
+      if (transform.discriminate) {
+        configs.push([
+          transform.rename ?? name,
+          { property: transform.discriminate, variants: transform.variants ?? {} }
+        ]);
+      }
+    }
+
+    for (const [name, config] of configs) {
+      const extractedType = this.context.types.get(name);
+      
+      if (!extractedType) {
+        this.addError('', `Discriminated union target '${name}' was not extracted`, name);
+        continue;
+      }
+      
+      if (this.synthesizeDiscriminatedUnion(extractedType, config)) {
+        this.context.metrics.transformsApplied++;
+      }
+    }
+  }
+
+  /**
+   * @method synthesizeDiscriminatedUnion
+   * @description Splits an interface into one variant interface per discriminator value
+   * @param {ExtractedType} type - Interface to split (becomes the union alias)
+   * @param {DiscriminatorConfig} config - Discriminator configuration
+   * @returns {boolean} Whether the union was created
+   * @protected
+   * 
+   * @example
+   * // CalendarEntry { status: string; date: string } with
+   * // { property: 'status', variants: { available: 'CalendarAvailable', blocked: 'CalendarBlocked' } }
+   * // becomes:
+   * export interface CalendarAvailable { status: 'available'; date: string; }
+   * export interface CalendarBlocked { status: 'blocked'; date: string; }
+   * export type CalendarEntry = CalendarAvailable | CalendarBlocked;
+   */
+  protected synthesizeDiscriminatedUnion(type: ExtractedType, config: DiscriminatorConfig): boolean {
+    if (!type.properties) {
+      this.addError(
+        type.sourceFile,
+        `Cannot create discriminated union from ${type.kind} '${type.name}': only interfaces can be split`,
+        type.name
+      );
+      return false;
+    }
+
+    const variantEntries = Object.entries(config.variants);
+    if (variantEntries.length === 0) {
+      this.addError(type.sourceFile, `Discriminated union '${type.name}' has no variants`, type.name);
+      return false;
+    }
+
+    const conflicts = variantEntries.filter(([, variantName]) => this.context.types.has(variantName));
+    if (conflicts.length > 0) {
+      this.addError(
+        type.sourceFile,
+        `Discriminated union '${type.name}' variants conflict with existing types: ${conflicts.map(([, n]) => n).join(', ')}`,
+        type.name
+      );
+      return false;
+    }
+
+    const discriminant = type.properties.find(prop => prop.name === config.property);
+    const shared = type.properties.filter(prop => prop.name !== config.property);
+    
+    // Base properties override same-named properties of the source type
+    for (const baseProp of config.baseProperties ?? []) {
+      const index = shared.findIndex(prop => prop.name === baseProp.name);
+      if (index === -1) {
+        shared.push({ ...baseProp });
+      } else {
+        shared[index] = { ...baseProp };
+      }
+    }
+
+    const typeArgs = type.typeParameters && type.typeParameters.length > 0
+      ? `<${type.typeParameters.map(getTypeParameterName).join(', ')}>`
+      : '';
+
+    for (const [value, variantName] of variantEntries) {
+      const literal = this.toDiscriminantLiteral(value, discriminant?.type);
+      const variant: ExtractedType = {
+        name: variantName,
+        kind: 'interface',
+        definition: '',
+        sourceFile: type.sourceFile,
+        location: { ...type.location },
+        isExported: type.isExported,
+        documentation: `Variant of ${type.name} where \`${config.property}\` is ${literal}`,
+        properties: [
+          {
+            name: config.property,
+            type: literal,
+            optional: false,
+            readonly: discriminant?.readonly ?? false,
+            documentation: discriminant?.documentation
+          },
+          ...shared.map(prop => ({ ...prop }))
+        ],
+        methods: type.methods ? structuredClone(type.methods) : undefined,
+        indexSignatures: type.indexSignatures ? structuredClone(type.indexSignatures) : undefined,
+        callSignatures: type.callSignatures ? structuredClone(type.callSignatures) : undefined,
+        constructSignatures: type.constructSignatures ? structuredClone(type.constructSignatures) : undefined,
+        typeParameters: type.typeParameters ? [...type.typeParameters] : undefined,
+        extends: type.extends ? [...type.extends] : undefined
+      };
+      variant.definition = this.renderInterfaceDefinition(variant);
+      
+      this.context.types.set(variantName, variant);
+    }
+
+    // The original type becomes the union of its variants
+    const members = variantEntries.map(([, variantName]) => `${variantName}${typeArgs}`);
+    type.kind = 'type';
+    type.definition = `${type.isExported ? 'export ' : ''}type ${type.name}${typeArgs} = ${members.join(' | ')};`;
+    type.properties = undefined;
+    type.methods = undefined;
+    type.indexSignatures = undefined;
+    type.callSignatures = undefined;
+    type.constructSignatures = undefined;
+    type.extends = undefined;
+    type.discriminator = { property: config.property, variants: { ...config.variants } };
+
+    return true;
+  }
+
+  /**
+   * Convert a discriminator value to a literal type, honoring non-string discriminants
+   */
+  protected toDiscriminantLiteral(value: string, originalType?: string): string {
+    const isStringTyped = !originalType || /string|['"`]/.test(originalType);
+    
+    if (!isStringTyped && /^(-?\d+(\.\d+)?|true|false)$/.test(value)) {
+      return value;
+    }
+    
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+
+  /**
+   * Apply a PropertyTransform, returning a new PropertyInfo
+   */
+  protected applyPropertyTransform(prop: PropertyInfo, transform: PropertyTransform): PropertyInfo {
+    return {
+      ...prop,
+      name: transform.rename ?? prop.name,
+      type: transform.type ?? prop.type,
+      optional: transform.optional ?? prop.optional,
+      readonly: transform.readonly ?? prop.readonly
+    };
+  }
+
+  /**
+   * @method applyNamingRules
+   * @description Applies `rules.naming` to every type not explicitly renamed by a transform
+   * @protected
+   * 
+   * @remarks
+   * `naming.transform` takes precedence over `prefix`/`suffix`. Types renamed
+   * through `TypeTransform.rename` keep the name they were given.
+   */
+  protected applyNamingRules(): void {
+    const naming = this.context.rules.naming;
+    if (!naming || (!naming.transform && !naming.prefix && !naming.suffix)) {
+      return;
+    }
+
+    const renames = new Map<string, string>();
+    
+    for (const [name, type] of this.context.types) {
+      if (type.originalName !== undefined) {
+        continue;
+      }
+      
+      const newName = naming.transform
+        ? naming.transform(name)
+        : `${naming.prefix ?? ''}${name}${naming.suffix ?? ''}`;
+      
+      if (newName !== name) {
+        renames.set(name, newName);
+      }
+    }
+
+    this.renameTypes(renames);
+  }
+
+  /**
+   * @method renameTypes
+   * @description Renames types and rewrites every reference to them
+   * @param {Map<string, string>} renames - Current name to new name
+   * @protected
+   * 
+   * @remarks
+   * References in `definition`, `extends`, property and member types are rewritten
+   * through the AST (see rewriteTypeReferences), so property names, string
+   * literals and shadowing type parameters are left untouched.
+   */
+  protected renameTypes(renames: Map<string, string>): void {
+    for (const [oldName, newName] of renames) {
+      if (this.context.types.has(newName) && !renames.has(newName)) {
+        const type = this.context.types.get(oldName);
+        this.addError(
+          type?.sourceFile ?? '',
+          `Cannot rename '${oldName}' to '${newName}': a type with that name already exists`,
+          oldName
+        );
+        renames.delete(oldName);
+      }
+    }
+
+    if (renames.size === 0) {
+      return;
+    }
+
+    const entries = [...this.context.types.entries()];
+    this.context.types.clear();
+
+    for (const [name, type] of entries) {
+      const typeParameters = (type.typeParameters ?? []).map(getTypeParameterName);
+      
+      type.definition = rewriteTypeReferences(type.definition, renames, 'declaration');
+      type.typeParameters = type.typeParameters?.map(declaration => {
+        const rewritten = rewriteTypeReferences(`<${declaration}>() => void`, renames, 'type', typeParameters);
+        return rewritten.slice(1, rewritten.lastIndexOf('>() => void'));
+      });
+      type.extends = type.extends?.map(ext => rewriteTypeReferences(ext, renames, 'type', typeParameters));
+      
+      for (const prop of type.properties ?? []) {
+        prop.type = rewriteTypeReferences(prop.type, renames, 'type', typeParameters);
+      }
+      
+      mapMemberTypes(type, (text, signatureTypeParameters) =>
+        rewriteTypeReferences(text, renames, 'type', [...typeParameters, ...signatureTypeParameters])
+      );
+      
+      if (type.discriminator) {
+        for (const [value, variant] of Object.entries(type.discriminator.variants)) {
+          type.discriminator.variants[value] = renames.get(variant) ?? variant;
+        }
+      }
+
+      const newName = renames.get(name);
+      if (newName !== undefined) {
+        type.originalName ??= name;
+        type.name = newName;
+      }
+
+      this.context.types.set(type.name, type);
+    }
+  }
+
+  /**
+   * @method renderInterfaceDefinition
+   * @description Renders interface source text from the structured type data
+   * @param {ExtractedType} type - Interface type
+   * @returns {string} Interface declaration
+   * @protected
+   */
+  protected renderInterfaceDefinition(type: ExtractedType): string {
+    let output = type.documentation
+      ? `/**\n${type.documentation.split('\n').map(line => ` * ${line}`).join('\n')}\n */\n`
+      : '';
+    output += type.isExported ? 'export ' : '';
+    output += `interface ${type.name}`;
+
+    if (type.typeParameters && type.typeParameters.length > 0) {
+      output += `<${type.typeParameters.join(', ')}>`;
+    }
+
+    if (type.extends && type.extends.length > 0) {
+      output += ` extends ${type.extends.join(', ')}`;
+    }
+
+    output += ' {\n';
+
+    for (const prop of type.properties ?? []) {
+      if (prop.documentation) {
+        output += `  /** ${prop.documentation} */\n`;
+      }
+      output += `  ${prop.readonly ? 'readonly ' : ''}${prop.name}${prop.optional ? '?' : ''}: ${prop.type};\n`;
+    }
+
+    for (const member of formatMemberLines(type)) {
+      if (member.documentation) {
+        output += `  /** ${member.documentation} */\n`;
+      }
+      output += `  ${member.text};\n`;
+    }
+
+    output += '}';
+
+    return output;
+  }
+
   /**
    * @method applyTransformations
    * @abstract
@@ -415,6 +1453,7 @@ export abstract class BaseTypeExtractor {
    * @protected
    * 
    * @remarks
+   * Declarative `rules.transforms` have already been applied when this runs.
    * Implement this method to:
    * - Rename types according to naming conventions
    * - Create discriminated unions
@@ -439,10 +1478,130 @@ export abstract class BaseTypeExtractor {
    */
   protected abstract validateTypes(): Promise<void>;
 
+  /**
+   * @method runValidators
+   * @description Runs `rules.validators` against each extracted type
+   * @protected
+   * 
+   * @remarks
+   * Validators are looked up by the final type name first, then by the name
+   * the type had in the source. Errors and warnings are recorded with rule id
+   * 'validator'; a type passes when it is valid and reported no errors.
+   */
+  protected runValidators(): void {
+    const validators = this.context.rules.validators;
+    if (!validators) {
+      return;
+    }
+
+    for (const type of this.context.types.values()) {
+      const validator = validators[type.name] ??
+        (type.originalName !== undefined ? validators[type.originalName] : undefined);
+      
+      if (!validator) {
+        continue;
+      }
+
+      const diagnostic = {
+        file: type.sourceFile,
+        type: type.name,
+        line: type.location.line,
+        column: type.location.column,
+        rule: 'validator'
+      };
+
+      let result: ValidationResult;
+      try {
+        result = validator(type);
+      } catch (error) {
+        result = {
+          valid: false,
+          errors: [`Validator threw: ${error instanceof Error ? error.message : String(error)}`]
+        };
+      }
+
+      const errors = result.errors ?? [];
+      if (!result.valid && errors.length === 0) {
+        errors.push('Validation failed');
+      }
+
+      for (const message of errors) {
+        this.addDiagnostic({ ...diagnostic, message: `${type.name}: ${message}`, severity: 'error' });
+      }
+      for (const message of result.warnings ?? []) {
+        this.addDiagnostic({ ...diagnostic, message: `${type.name}: ${message}`, severity: 'warning' });
+      }
+
+      if (result.valid && errors.length === 0) {
+        this.context.metrics.validationsPassed++;
+      } else {
+        this.context.metrics.validationsFailed++;
+      }
+    }
+  }
+
+  /**
+   * Add a diagnostic to context
+   */
+  protected addDiagnostic(diagnostic: ExtractionError): void {
+    this.context.errors.push({ severity: 'error', ...diagnostic });
+  }
+
   /**
    * Add error to context
    */
   protected addError(file: string, message: string, type?: string, line?: number, column?: number): void {
-    this.context.errors.push({ file, message, type, line, column });
+    this.addDiagnostic({ file, message, type, line, column, severity: 'error' });
   }
+
+  /**
+   * Add warning to context
+   */
+  protected addWarning(file: string, message: string, type?: string, line?: number, column?: number): void {
+    this.addDiagnostic({ file, message, type, line, column, severity: 'warning' });
+  }
+}
+
+/**
+ * Full text of an ambient class with a `declare` modifier before `abstract` or `class`
+ */
+function withDeclareKeyword(node: ClassDeclaration): string {
+  const keyword = node.getFirstModifierByKind(SyntaxKind.AbstractKeyword) ?? node.getFirstChildByKindOrThrow(SyntaxKind.ClassKeyword);
+  const offset = keyword.getStart() - node.getFullStart();
+  const text = node.getFullText();
+  
+  return `${text.slice(0, offset)}declare ${text.slice(offset)}`;
+}
+
+/**
+ * File names of `lib` entries as the compiler API expects them (`es2022` -> `lib.es2022.d.ts`)
+ */
+function toLibFileNames(lib: string[]): string[] {
+  return lib.map(name => `lib.${name.toLowerCase()}.d.ts`);
+}
+
+/**
+ * Whether a declaration is global: inside `declare global`, or at the top level
+ * of an ambient declaration file that is not a module
+ */
+function isGlobalDeclaration(node: Node): boolean {
+  const modules = node.getAncestors().filter(Node.isModuleDeclaration);
+  if (modules.some(module => module.getDeclarationKind() === ModuleDeclarationKind.Global)) {
+    return true;
+  }
+  
+  const sourceFile = node.getSourceFile();
+  return modules.length === 0 &&
+    (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) &&
+    !ts.isExternalModule(sourceFile.compilerNode);
+}
+
+/**
+ * Whether a node is a declaration BaseTypeExtractor can extract
+ */
+function isExtractableDeclaration(node: Node): node is ExtractableDeclaration {
+  return Node.isInterfaceDeclaration(node) ||
+    Node.isTypeAliasDeclaration(node) ||
+    Node.isEnumDeclaration(node) ||
+    Node.isClassDeclaration(node);
 }
\ No newline at end of file
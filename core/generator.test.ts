@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Project, ts } from 'ts-morph';
+import { TypeGenerator } from './generator.js';
+import { BaseTypeExtractor } from './extractor.js';
+import { RFCCompliantGenerator } from './rfc-generator.js';
+import { parseDeclarations } from './drift.js';
+import type { ExtractionContext, OutputConfig } from './types.js';
+
+class TestExtractor extends BaseTypeExtractor {
+  protected async applyTransformations(): Promise<void> {}
+  protected async validateTypes(): Promise<void> {}
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const contextOf = (source: string): ExtractionContext => ({
+  sourceFiles: [],
+  types: parseDeclarations(source, join(dir, 'src', 'api.ts')),
+  rules: { apiId: 'test' },
+  metrics: {
+    startTime: Date.now(),
+    filesParsed: 1,
+    typesExtracted: 1,
+    transformsApplied: 0,
+    validationsPassed: 0,
+    validationsFailed: 0,
+    anyTypeViolations: 0
+  },
+  errors: [],
+  anyExceptions: []
+} as ExtractionContext);
+
+function createGenerator(config: Partial<OutputConfig> = {}): TypeGenerator {
+  return new TypeGenerator({
+    outputDir: join(dir, 'out'),
+    filePattern: '{api}.types.ts',
+    generateIndex: true,
+    splitTypes: false,
+    sourceMaps: false,
+    ...config
+  });
+}
+
+/**
+ * Type-checks the generated files
+ */
+function compile(): string[] {
+  const project = new Project({
+    compilerOptions: {
+      strict: true,
+      noEmit: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      types: []
+    }
+  });
+  project.addSourceFilesAtPaths(join(dir, 'out', '*.ts'));
+  return project.getPreEmitDiagnostics().map(diagnostic => String(diagnostic.getMessageText()));
+}
+
+const readOutput = (file: string): string => readFileSync(join(dir, 'out', file), 'utf-8');
+
+describe('TypeGenerator split mode', () => {
+  it('imports the types each file references', async () => {
+    await createGenerator({ splitTypes: true }).generate(contextOf([
+      'export interface Address { city: string }',
+      'interface Contact { email: string }',
+      'export interface Guest { address: Address; contact: Contact; friends: Guest[] }'
+    ].join('\n')));
+
+    const guest = readOutput('Guest.ts');
+    expect(guest).toContain("import type { Address } from './Address.js';\nimport type { Contact } from './Contact.js';\n");
+    expect(guest).not.toContain("from './Guest.js'");
+    // Referenced from another file, so it has to be exported
+    expect(readOutput('Contact.ts')).toContain('export interface Contact');
+    expect(readOutput('index.ts')).not.toContain('./Contact.js');
+    expect(compile()).toEqual([]);
+  });
+});
+
+describe('TypeGenerator source maps', () => {
+  it('writes a map next to the output and relative @source locations', async () => {
+    const context = contextOf('export interface Guest { id: string }');
+    context.types.get('Guest')!.documentation = 'A guest';
+    await createGenerator({ sourceMaps: true, sourceBase: dir }).generate(context);
+
+    const types = readOutput('test.types.ts');
+    expect(types).toContain(' * @source src/api.ts:1:1\n');
+    expect(types.endsWith('//# sourceMappingURL=test.types.ts.map\n')).toBe(true);
+
+    const map = JSON.parse(readOutput('test.types.ts.map'));
+    expect(map).toMatchObject({ version: 3, file: 'test.types.ts', sources: ['../src/api.ts'] });
+    expect(compile()).toEqual([]);
+  });
+});
+
+describe('TypeGenerator deterministic mode', () => {
+  it('writes the same bytes for the same types in any order', async () => {
+    const generator = createGenerator({ deterministic: true });
+
+    await generator.generate(contextOf('export interface b { z: string; a: string }\nexport interface B { id: string }'));
+    const first = readOutput('test.types.ts');
+    await generator.generate(contextOf('export interface B { id: string }\nexport interface b { a: string; z: string }'));
+
+    expect(readOutput('test.types.ts')).toBe(first);
+    expect(first).not.toMatch(/Generated: |Extraction time: /);
+    expect(first.indexOf('interface B ')).toBeLessThan(first.indexOf('interface b '));
+    expect(first).toContain('export interface b {\n  a: string;\n  z: string;\n}');
+    expect(first).not.toMatch(/[ \t]$/m);
+  });
+});
+
+describe('generated package types', () => {
+  /**
+   * Writes a package with classes, one of them in a `declare module` block without `declare`
+   */
+  function writePackage(): void {
+    const packageDir = join(dir, 'node_modules', 'fake-sdk');
+    mkdirSync(packageDir, { recursive: true });
+    writeFileSync(join(packageDir, 'package.json'), JSON.stringify({ name: 'fake-sdk', types: 'index.d.ts' }));
+    writeFileSync(join(packageDir, 'fs.d.ts'), "declare module 'fake-fs' {\n  export class Entry {\n    name: string;\n    isFile(): boolean;\n  }\n}\n");
+    writeFileSync(join(packageDir, 'index.d.ts'), [
+      '/// <reference path="./fs.d.ts" />',
+      "import type { Entry } from 'fake-fs';",
+      "export declare enum Kind { File = 'file', Folder = 'folder' }",
+      'export declare abstract class BaseNode { readonly kind: Kind; protected constructor(kind: Kind); }',
+      'export declare class Folder extends BaseNode { entries: Entry[]; static create(): Folder; }',
+      'export interface Options { root: Folder; factory: typeof Folder; kind: Kind.File }',
+      ''
+    ].join('\n'));
+  }
+
+  it('compiles, classes included, in the types file and the contracts', async () => {
+    writePackage();
+    mkdirSync(join(dir, 'src'));
+    writeFileSync(join(dir, 'src', 'api.ts'), [
+      "import type { Options } from 'fake-sdk';",
+      'export class Counter { count = 0; constructor(private readonly step: number) {} next() { return this.count += this.step; } }',
+      'export interface Stats { counter: Counter; options: Options }'
+    ].join('\n'));
+
+    const context = await new TestExtractor({ apiId: 'test', roots: ['Stats'] }).extract([join(dir, 'src', 'api.ts')], [], {
+      packages: { 'fake-sdk': ['Options'] },
+      resolveFrom: dir
+    });
+    expect(context.errors).toEqual([]);
+
+    await createGenerator().generate(context);
+    await new RFCCompliantGenerator({
+      outputPath: join(dir, 'out', 'contracts.d.ts'),
+      extractionMapPath: join(dir, 'type-extraction-map.json')
+    }).write(context);
+
+    expect(readOutput('test.types.ts')).toContain('export declare class Entry {');
+    const contracts = readOutput('contracts.d.ts');
+    expect(contracts).toContain('  export class Entry {');
+    expect(contracts).toContain('  export abstract class BaseNode {');
+    expect(contracts).toContain('  export class Counter {\n      private readonly step;\n      count: number;\n      constructor(step: number);\n      next(): number;\n  }');
+    expect(compile()).toEqual([]);
+  });
+});
@@ -10,14 +10,19 @@
  * @since 1.0.0
  */
 
-import { writeFileSync, mkdirSync } from 'node:fs';
-import { resolve, dirname } from 'node:path';
+import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'node:fs';
+import { resolve, dirname, basename } from 'node:path';
 import type {
   ExtractedType,
   ExtractionContext,
   OutputConfig,
   PropertyInfo
 } from './types.js';
+import { collectTypeReferences } from './type-text.js';
+import { formatMemberLines } from './members.js';
+import { formatAnyExceptions } from './any-detection.js';
+import { createSourceMap, formatSourcePath, type DeclarationMapping } from './source-map.js';
+import { compareNames, normalizeOutput, sortMembers } from './deterministic.js';
 
 /**
  * @class TypeGenerator
@@ -37,6 +42,9 @@ import type {
  */
 export class TypeGenerator {
   private config: OutputConfig;
+  private writtenFiles: string[] = [];
+  private renderedFiles = new Map<string, string>();
+  private splitModules: string[] = [];
 
   constructor(config: OutputConfig) {
     this.config = config;
@@ -46,16 +54,44 @@ export class TypeGenerator {
    * @method generate
    * @description Main entry point for type generation
    * @param {ExtractionContext} context - Extraction results to generate from
-   * @returns {Promise<void>}
+   * @returns {Promise<string[]>} Paths of files whose content changed and were written
    * @public
    * @async
    * 
+   * @remarks
+   * Files whose content is already up to date are left untouched, so
+   * watchers and build tools only see real changes.
+   * 
    * @throws {Error} If output directory cannot be created
    */
-  async generate(context: ExtractionContext): Promise<void> {
+  async generate(context: ExtractionContext): Promise<string[]> {
+    this.writtenFiles = [];
+    
     // Ensure output directory exists
     mkdirSync(this.config.outputDir, { recursive: true });
 
+    for (const [filePath, content] of await this.render(context)) {
+      this.writeFile(filePath, content);
+    }
+
+    return this.writtenFiles;
+  }
+
+  /**
+   * @method render
+   * @description Generates the output files in memory without writing them
+   * @param {ExtractionContext} context - Extraction results to generate from
+   * @returns {Promise<Map<string, string>>} Content of every output file by absolute path
+   * @public
+   * @async
+   * 
+   * @remarks
+   * Used by `generate` and by `type-extract check` to compare the output
+   * with the files on disk.
+   */
+  async render(context: ExtractionContext): Promise<Map<string, string>> {
+    this.renderedFiles = new Map();
+
     if (this.config.splitTypes) {
       // Generate separate file for each type
       await this.generateSplitFiles(context);
@@ -68,6 +104,27 @@ export class TypeGenerator {
       // Generate index file
       await this.generateIndexFile(context);
     }
+
+    return this.renderedFiles;
+  }
+
+  /**
+   * Add a file to the rendered output
+   */
+  protected addFile(filePath: string, content: string): void {
+    this.renderedFiles.set(filePath, this.config.deterministic ? normalizeOutput(content) : content);
+  }
+
+  /**
+   * Write a generated file unless it already has the same content
+   */
+  protected writeFile(filePath: string, content: string): void {
+    if (existsSync(filePath) && readFileSync(filePath, 'utf-8') === content) {
+      return;
+    }
+    
+    writeFileSync(filePath, content, 'utf-8');
+    this.writtenFiles.push(filePath);
   }
 
   /**
@@ -87,6 +144,12 @@ export class TypeGenerator {
     const filePath = resolve(this.config.outputDir, fileName);
     
     let content = '';
+    const mappings: DeclarationMapping[] = [];
+    const addType = (type: ExtractedType): void => {
+      const text = this.generateType(type);
+      mappings.push(this.createDeclarationMapping(type, content, text));
+      content += text + '\n\n';
+    };
 
     // Add header
     if (this.config.header) {
@@ -107,7 +170,7 @@ export class TypeGenerator {
       content += '// ============================================================================\n\n';
       
       for (const type of typesByKind.interface) {
-        content += this.generateType(type) + '\n\n';
+        addType(type);
       }
     }
 
@@ -118,7 +181,7 @@ export class TypeGenerator {
       content += '// ============================================================================\n\n';
       
       for (const type of typesByKind.type) {
-        content += this.generateType(type) + '\n\n';
+        addType(type);
       }
     }
 
@@ -129,7 +192,7 @@ export class TypeGenerator {
       content += '// ============================================================================\n\n';
       
       for (const type of typesByKind.enum) {
-        content += this.generateType(type) + '\n\n';
+        addType(type);
       }
     }
 
@@ -140,19 +203,42 @@ export class TypeGenerator {
       content += '// ============================================================================\n\n';
       
       for (const type of typesByKind.class) {
-        content += this.generateType(type) + '\n\n';
+        addType(type);
       }
     }
 
     // Write file
-    writeFileSync(filePath, content, 'utf-8');
+    this.addFile(filePath, this.addSourceMap(filePath, content, mappings));
   }
 
   /**
-   * Generate separate files for each type
+   * @method generateSplitFiles
+   * @description Generates one file per type with imports for the types it references
+   * @param {ExtractionContext} context - Extraction context
+   * @returns {Promise<void>}
+   * @protected
+   * @async
+   * 
+   * @remarks
+   * Imports are type-only, so they are erased at runtime and cycles between
+   * files are safe. Types referenced from another file are exported even when
+   * the source type was not, otherwise the import would not compile.
    */
   protected async generateSplitFiles(context: ExtractionContext): Promise<void> {
+    const dependencies = new Map<string, string[]>();
     for (const [name, type] of context.types) {
+      dependencies.set(name, this.getTypeDependencies(type, context.types));
+    }
+    const referenced = new Set([...dependencies.values()].flat());
+    
+    this.splitModules = [];
+    
+    const entries = [...context.types];
+    if (this.config.deterministic) {
+      entries.sort(([a], [b]) => compareNames(a, b));
+    }
+    
+    for (const [name, type] of entries) {
       const fileName = `${name}.ts`;
       const filePath = resolve(this.config.outputDir, fileName);
       
@@ -166,18 +252,83 @@ export class TypeGenerator {
       // Add type-specific metadata
       content += `/**
  * Generated type: ${name}
- * Source: ${type.sourceFile}
+ * Source: ${formatSourcePath(type.sourceFile, this.config.sourceBase)}
  * Kind: ${type.kind}
  */\n\n`;
 
+      // Import referenced types from their own files
+      const imports = dependencies.get(name)!;
+      for (const dependency of imports) {
+        content += `import type { ${dependency} } from './${dependency}.js';\n`;
+      }
+      if (imports.length > 0) {
+        content += '\n';
+      }
+
       // Generate the type
-      content += this.generateType(type);
+      const text = this.generateType(referenced.has(name) ? { ...type, isExported: true } : type);
+      const mapping = this.createDeclarationMapping(type, content, text);
+      content += text;
 
       // Write file
-      writeFileSync(filePath, content, 'utf-8');
+      this.addFile(filePath, this.addSourceMap(filePath, content, [mapping]));
+      
+      if (type.isExported) {
+        this.splitModules.push(name);
+      }
     }
   }
 
+  /**
+   * Source map entry for a declaration appended to `content`
+   */
+  protected createDeclarationMapping(type: ExtractedType, content: string, text: string): DeclarationMapping {
+    return {
+      generatedLine: content.split('\n').length - 1,
+      lineCount: text.split('\n').length,
+      sourceFile: type.sourceFile,
+      line: type.location.line,
+      column: type.location.column,
+      name: type.originalName
+    };
+  }
+
+  /**
+   * @method addSourceMap
+   * @description Adds the source map of a generated file to the output when `sourceMaps` is enabled
+   * @param {string} filePath - Path of the generated file
+   * @param {string} content - Generated content
+   * @param {DeclarationMapping[]} mappings - Declarations in the content
+   * @returns {string} Content, with a `sourceMappingURL` comment when a map was added
+   * @protected
+   */
+  protected addSourceMap(filePath: string, content: string, mappings: DeclarationMapping[]): string {
+    if (!this.config.sourceMaps) {
+      return content;
+    }
+    
+    const mapPath = `${filePath}.map`;
+    this.addFile(mapPath, JSON.stringify(createSourceMap(filePath, mappings)) + '\n');
+    
+    return `${content.replace(/\n*$/, '\n')}//# sourceMappingURL=${basename(mapPath)}\n`;
+  }
+
+  /**
+   * `@source` location of a type: path relative to `sourceBase`, line and column
+   */
+  protected formatLocation(type: ExtractedType): string {
+    return `${formatSourcePath(type.sourceFile, this.config.sourceBase)}:${type.location.line}:${type.location.column}`;
+  }
+
+  /**
+   * Names of the other extracted types a type references, sorted
+   */
+  protected getTypeDependencies(type: ExtractedType, types: Map<string, ExtractedType>): string[] {
+    return collectTypeReferences(this.generateType(type), 'declaration')
+      .filter(reference => reference !== type.name && types.has(reference))
+      .sort();
+  }
+
   /**
    * Generate index file
    */
@@ -198,11 +349,9 @@ export class TypeGenerator {
  */\n\n`;
 
     if (this.config.splitTypes) {
-      // Export from individual files
-      for (const [name, type] of context.types) {
-        if (type.isExported) {
-          content += `export * from './${name}.js';\n`;
-        }
+      // Export from the individual files generated for exported types
+      for (const name of this.splitModules) {
+        content += `export * from './${name}.js';\n`;
       }
     } else {
       // Re-export from unified file
@@ -211,7 +360,7 @@ export class TypeGenerator {
       content += `export * from './${moduleName}.js';\n`;
     }
 
-    writeFileSync(indexPath, content, 'utf-8');
+    this.addFile(indexPath, content);
   }
 
   /**
@@ -224,14 +373,14 @@ export class TypeGenerator {
     if (type.documentation) {
       output += `/**\n`;
       output += type.documentation.split('\n').map(line => ` * ${line}`).join('\n');
-      output += `\n * @source ${type.sourceFile}:${type.location.line}\n`;
+      output += `\n * @source ${this.formatLocation(type)}\n`;
       output += ` */\n`;
     }
 
     // Generate based on kind
     switch (type.kind) {
       case 'interface':
-        output += this.generateInterface(type);
+        output += this.generateInterface(this.config.deterministic ? sortMembers(type) : type);
         break;
       case 'type':
         output += this.generateTypeAlias(type);
@@ -293,6 +442,14 @@ export class TypeGenerator {
       }
     }
 
+    // Methods, index, call and construct signatures
+    for (const member of formatMemberLines(type)) {
+      if (member.documentation) {
+        output += `  /** ${member.documentation} */\n`;
+      }
+      output += `  ${member.text};\n`;
+    }
+
     output += '}';
 
     return output;
@@ -335,10 +492,7 @@ export class TypeGenerator {
   protected generateTypeAlias(type: ExtractedType): string {
     // For type aliases, use the original definition
     // but ensure proper export
-    if (type.isExported && !type.definition.startsWith('export')) {
-      return 'export ' + type.definition;
-    }
-    return type.definition;
+    return this.withExportModifier(type);
   }
 
   /**
@@ -347,10 +501,7 @@ export class TypeGenerator {
   protected generateEnum(type: ExtractedType): string {
     // For enums, use the original definition
     // but ensure proper export
-    if (type.isExported && !type.definition.startsWith('export')) {
-      return 'export ' + type.definition;
-    }
-    return type.definition;
+    return this.withExportModifier(type);
   }
 
   /**
@@ -359,10 +510,26 @@ export class TypeGenerator {
   protected generateClass(type: ExtractedType): string {
     // For classes, use the original definition
     // but ensure proper export
-    if (type.isExported && !type.definition.startsWith('export')) {
-      return 'export ' + type.definition;
-    }
-    return type.definition;
+    return this.withExportModifier(type);
+  }
+
+  /**
+   * Strip leading comments (documentation is emitted separately) and
+   * apply the export modifier according to `isExported`
+   */
+  protected withExportModifier(type: ExtractedType): string {
+    let text = type.definition.trim();
+    let previous;
+    
+    do {
+      previous = text;
+      text = text
+        .replace(/^\/\*[\s\S]*?\*\/\s*/, '')
+        .replace(/^\/\/[^\n]*\n\s*/, '')
+        .replace(/^export\s+/, '');
+    } while (text !== previous);
+    
+    return type.isExported ? 'export ' + text : text;
   }
 
   /**
@@ -373,11 +540,15 @@ export class TypeGenerator {
    * @protected
    * 
    * @remarks
-   * Includes extraction metrics, timestamp, and compliance notes
+   * Includes extraction metrics, timestamp, and compliance notes. In
+   * deterministic mode the extraction time and timestamp are left out.
    */
   protected generateMetadata(context: ExtractionContext): string {
     const metrics = context.metrics;
-    const duration = Date.now() - metrics.startTime;
+    const volatile = this.config.deterministic
+      ? ''
+      : `\n * - Extraction time: ${Date.now() - metrics.startTime}ms\n * - Generated: ${new Date().toISOString()}`;
+    const allowed = context.anyExceptions.filter(exception => exception.action === 'allowed').length;
     
     return `/**
  * Generated TypeScript Types for ${context.rules.apiId} API
@@ -387,19 +558,28 @@ export class TypeGenerator {
  * - Types extracted: ${metrics.typesExtracted}
  * - Transforms applied: ${metrics.transformsApplied}
  * - Validations passed: ${metrics.validationsPassed}
- * - Validations failed: ${metrics.validationsFailed}
- * - Extraction time: ${duration}ms
- * - Generated: ${new Date().toISOString()}
+ * - Validations failed: ${metrics.validationsFailed}${volatile}
  * 
  * COMPLIANCE:
- * ✅ Zero 'any' usage (converted to 'unknown')
+ * ${allowed > 0 ? `⚠️ 'any' allowed in ${allowed} place(s) by the any policy` : "✅ Zero 'any' usage (converted to 'unknown')"}
  * ✅ All types maintain strict TypeScript compatibility
- * ✅ Source locations preserved for traceability
+ * ✅ Source locations preserved for traceability${this.generateAnyPolicySection(context)}
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */`;
   }
 
+  /**
+   * Header lines listing the branded and allowed 'any' occurrences
+   */
+  protected generateAnyPolicySection(context: ExtractionContext): string {
+    if (context.anyExceptions.length === 0) {
+      return '';
+    }
+    
+    return `\n * \n * ANY POLICY:\n${formatAnyExceptions(context.anyExceptions, file => formatSourcePath(file, this.config.sourceBase)).map(line => ` * - ${line}`).join('\n')}`;
+  }
+
   /**
    * Group types by kind
    */
@@ -416,8 +596,9 @@ export class TypeGenerator {
     }
 
     // Sort each group by name
+    const compare = this.config.deterministic ? compareNames : (a: string, b: string) => a.localeCompare(b);
     for (const kind in groups) {
-      groups[kind as ExtractedType['kind']].sort((a, b) => a.name.localeCompare(b.name));
+      groups[kind as ExtractedType['kind']].sort((a, b) => compare(a.name, b.name));
     }
 
     return groups;
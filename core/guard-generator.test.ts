@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { ts } from 'ts-morph';
+import { TypeGuardGenerator } from './guard-generator.js';
+import { parseDeclarations } from './drift.js';
+import type { ExtractionContext } from './types.js';
+
+/** Guards and assertions of a generated module, called with optional guards for type parameters */
+type GeneratedGuards = Record<string, (value: unknown, ...guards: Array<(value: unknown) => boolean>) => unknown> & {
+  TypeGuardError: new (...args: never[]) => Error;
+};
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Generates guards for the declarations and loads the compiled module
+ */
+async function loadGuards(source: string): Promise<{ output: string; guards: GeneratedGuards }> {
+  const context = {
+    types: parseDeclarations(source, join(dir, 'api.ts')),
+    rules: { apiId: 'test' }
+  } as ExtractionContext;
+  const outputPath = join(dir, 'api.guards.ts');
+
+  await new TypeGuardGenerator({ outputPath, typesImport: './api.types.js' }).generate(context);
+  const output = readFileSync(outputPath, 'utf-8');
+
+  const compiled = ts.transpileModule(output, {
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 }
+  }).outputText;
+  const modulePath = join(dir, 'api.guards.mjs');
+  writeFileSync(modulePath, compiled);
+
+  return { output, guards: await import(pathToFileURL(modulePath).href) };
+}
+
+describe('TypeGuardGenerator', () => {
+  it('checks objects, optional properties, arrays and literal unions', async () => {
+    const { guards } = await loadGuards([
+      "export type Status = 'active' | 'inactive';",
+      'export interface Guest { id: string; age?: number; tags: string[]; status: Status }'
+    ].join('\n'));
+
+    expect(guards.isGuest({ id: 'g1', tags: ['vip'], status: 'active' })).toBe(true);
+    expect(guards.isGuest({ id: 'g1', age: 40, tags: [], status: 'inactive' })).toBe(true);
+    expect(guards.isGuest({ id: 'g1', tags: [1], status: 'active' })).toBe(false);
+    expect(guards.isGuest({ id: 'g1', tags: [], status: 'deleted' })).toBe(false);
+    expect(guards.isGuest(null)).toBe(false);
+  });
+
+  it('throws a TypeGuardError with the failing path from assertions', async () => {
+    const { guards } = await loadGuards('export interface Guest { id: string; tags: string[] }');
+
+    expect(() => guards.assertGuest({ id: 'g1', tags: ['a', 2] })).toThrow(guards.TypeGuardError);
+    expect(() => guards.assertGuest({ id: 'g1', tags: ['a', 2] })).toThrow(
+      expect.objectContaining({ path: 'value.tags[1]', expected: 'string', actual: 2 })
+    );
+  });
+
+  it('checks const enums by their member values', async () => {
+    const { output, guards } = await loadGuards("export const enum Color { Red = 'red', Blue = 'blue' }");
+
+    expect(output).not.toMatch(/import \{[^}]*\bColor\b[^}]*\} from/);
+    expect(guards.isColor('red')).toBe(true);
+    expect(guards.isColor('green')).toBe(false);
+  });
+
+  it('takes a guard per type parameter for generic types', async () => {
+    const { guards } = await loadGuards('export interface Page<T> { items: T[]; total: number }');
+    const isString = (value: unknown): value is string => typeof value === 'string';
+
+    expect(guards.isPage({ items: ['a'], total: 1 }, isString)).toBe(true);
+    expect(guards.isPage({ items: [1], total: 1 }, isString)).toBe(false);
+  });
+});
@@ -0,0 +1,1087 @@
+/**
+ * @fileoverview Type Extraction Framework - Type Guard Generator
+ *
+ * @description
+ * Generates runtime type guards (`isX`) and assertion functions (`assertX`)
+ * for extracted types, so consumers of the generated types no longer write
+ * them by hand. Checks are derived from the extracted properties and enum
+ * members; a failed assertion reports the path of the offending property
+ * (`value.guest.tags[2]`). The generated file has no runtime dependencies.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { Node, SyntaxKind, TypeNode } from 'ts-morph';
+import type { ExtractedType, ExtractionContext } from './types.js';
+import { collectTypeReferences, getTypeParameterName, withParsedText } from './type-text.js';
+
+/**
+ * @interface TypeGuardGeneratorConfig
+ * @description Configuration for TypeGuardGenerator
+ * @since 2.0.0
+ */
+export interface TypeGuardGeneratorConfig {
+  /** Path of the generated guards file */
+  outputPath: string;
+
+  /**
+   * Module the generated types are imported from, relative to the guards
+   * file (e.g. './myapi.types.js')
+   */
+  typesImport: string;
+
+  /** Header comment for the generated file */
+  header?: string;
+}
+
+/**
+ * Per-type conversion state
+ */
+interface GuardScope {
+  /** Type being converted */
+  type: ExtractedType;
+
+  /** Type parameter name to check parameter name (generic factories) */
+  parameters: Map<string, string>;
+}
+
+/** A runtime helper emitted into the guards file */
+interface RuntimeHelper {
+  code: string;
+  uses: string[];
+}
+
+/** Keyword types and their checks */
+const KEYWORD_CHECKS: Partial<Record<SyntaxKind, string>> = {
+  [SyntaxKind.StringKeyword]: `typeOf('string')`,
+  [SyntaxKind.NumberKeyword]: `typeOf('number')`,
+  [SyntaxKind.BooleanKeyword]: `typeOf('boolean')`,
+  [SyntaxKind.BigIntKeyword]: `typeOf('bigint')`,
+  [SyntaxKind.SymbolKeyword]: `typeOf('symbol')`,
+  [SyntaxKind.NullKeyword]: 'literal(null)',
+  [SyntaxKind.UndefinedKeyword]: 'literal(undefined)',
+  [SyntaxKind.VoidKeyword]: 'literal(undefined)',
+  [SyntaxKind.UnknownKeyword]: 'unknown',
+  [SyntaxKind.AnyKeyword]: 'unknown',
+  [SyntaxKind.NeverKeyword]: 'never',
+  [SyntaxKind.ObjectKeyword]: 'nonPrimitive'
+};
+
+/** Built-in classes checked with instanceof */
+const INSTANCE_TYPES = new Set([
+  'Date', 'RegExp', 'Error', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Promise',
+  'ArrayBuffer', 'Uint8Array'
+]);
+
+/**
+ * Runtime emitted into every guards file, in declaration order. Only the
+ * helpers a file uses are emitted so consumers with `noUnusedLocals` compile.
+ */
+const RUNTIME_HELPERS: Record<string, RuntimeHelper> = {
+  describe: {
+    uses: [],
+    code: `function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}`
+  },
+  show: {
+    uses: [],
+    code: `function show(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}`
+  },
+  member: {
+    uses: [],
+    code: `function member(path: string, key: string): string {
+  return /^[A-Za-z_$][\\w$]*$/.test(key) ? \`\${path}.\${key}\` : \`\${path}[\${JSON.stringify(key)}]\`;
+}`
+  },
+  isRecord: {
+    uses: [],
+    code: `function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}`
+  },
+  raise: {
+    uses: [],
+    code: `function raise(typeName: string, failure: GuardFailure | undefined): void {
+  if (failure) {
+    throw new TypeGuardError(typeName, failure);
+  }
+}`
+  },
+  unknown: {
+    uses: [],
+    code: `const unknown: GuardCheck = () => undefined;`
+  },
+  never: {
+    uses: [],
+    code: `const never: GuardCheck = (value, path) => ({ path, expected: 'never', actual: value });`
+  },
+  nonPrimitive: {
+    uses: [],
+    code: `const nonPrimitive: GuardCheck = (value, path) =>
+  (typeof value === 'object' && value !== null) || typeof value === 'function'
+    ? undefined
+    : { path, expected: 'object', actual: value };`
+  },
+  typeOf: {
+    uses: [],
+    code: `function typeOf(expected: 'string' | 'number' | 'boolean' | 'bigint' | 'symbol' | 'function'): GuardCheck {
+  return (value, path) => typeof value === expected ? undefined : { path, expected, actual: value };
+}`
+  },
+  literal: {
+    uses: ['show'],
+    code: `function literal(expected: unknown): GuardCheck {
+  return (value, path) => value === expected ? undefined : { path, expected: show(expected), actual: value };
+}`
+  },
+  oneOf: {
+    uses: [],
+    code: `function oneOf(expected: string, values: readonly unknown[]): GuardCheck {
+  return (value, path) => values.includes(value) ? undefined : { path, expected, actual: value };
+}`
+  },
+  instance: {
+    uses: [],
+    code: `function instance(constructor: abstract new (...args: never[]) => unknown): GuardCheck {
+  return (value, path) => value instanceof constructor ? undefined : { path, expected: constructor.name, actual: value };
+}`
+  },
+  optional: {
+    uses: [],
+    code: `function optional(check: GuardCheck): GuardCheck {
+  return (value, path) => value === undefined ? undefined : check(value, path);
+}`
+  },
+  union: {
+    uses: [],
+    code: `function union(expected: string, checks: GuardCheck[]): GuardCheck {
+  return (value, path) => {
+    let deepest: GuardFailure | undefined;
+    for (const check of checks) {
+      const failure = check(value, path);
+      if (!failure) return undefined;
+      if (failure.path.length > (deepest?.path.length ?? path.length)) deepest = failure;
+    }
+    // Report the member that matched furthest, or the union itself
+    return deepest ?? { path, expected, actual: value };
+  };
+}`
+  },
+  allOf: {
+    uses: [],
+    code: `function allOf(checks: GuardCheck[]): GuardCheck {
+  return (value, path) => {
+    for (const check of checks) {
+      const failure = check(value, path);
+      if (failure) return failure;
+    }
+    return undefined;
+  };
+}`
+  },
+  array: {
+    uses: [],
+    code: `function array(item: GuardCheck): GuardCheck {
+  return (value, path) => {
+    if (!Array.isArray(value)) return { path, expected: 'array', actual: value };
+    for (let index = 0; index < value.length; index++) {
+      const failure = item(value[index], \`\${path}[\${index}]\`);
+      if (failure) return failure;
+    }
+    return undefined;
+  };
+}`
+  },
+  tuple: {
+    uses: [],
+    code: `function tuple(items: GuardCheck[], required: number, rest?: GuardCheck): GuardCheck {
+  return (value, path) => {
+    if (!Array.isArray(value)) return { path, expected: 'tuple', actual: value };
+    if (value.length < required || (!rest && value.length > items.length)) {
+      return { path: \`\${path}.length\`, expected: rest ? \`at least \${required}\` : \`\${required}..\${items.length}\`, actual: value.length };
+    }
+    for (let index = 0; index < value.length; index++) {
+      const failure = (items[index] ?? rest!)(value[index], \`\${path}[\${index}]\`);
+      if (failure) return failure;
+    }
+    return undefined;
+  };
+}`
+  },
+  object: {
+    uses: ['isRecord', 'member'],
+    code: `function object(properties: Record<string, GuardCheck>, index?: GuardCheck): GuardCheck {
+  return (value, path) => {
+    if (!isRecord(value)) return { path, expected: 'object', actual: value };
+    for (const [key, check] of Object.entries(properties)) {
+      const failure = check(value[key], member(path, key));
+      if (failure) return failure;
+    }
+    if (index) {
+      for (const key of Object.keys(value)) {
+        if (!(key in properties)) {
+          const failure = index(value[key], member(path, key));
+          if (failure) return failure;
+        }
+      }
+    }
+    return undefined;
+  };
+}`
+  },
+  record: {
+    uses: ['object'],
+    code: `function record(item: GuardCheck): GuardCheck {
+  return object({}, item);
+}`
+  },
+  discriminated: {
+    uses: ['isRecord', 'member'],
+    code: `function discriminated(property: string, expected: string, variants: Record<string, GuardCheck>): GuardCheck {
+  return (value, path) => {
+    if (!isRecord(value)) return { path, expected: 'object', actual: value };
+    const tag = value[property];
+    const variant = Object.prototype.hasOwnProperty.call(variants, String(tag)) ? variants[String(tag)] : undefined;
+    return variant ? variant(value, path) : { path: member(path, property), expected, actual: tag };
+  };
+}`
+  },
+  ref: {
+    uses: [],
+    code: `function ref(get: () => GuardCheck): GuardCheck {
+  return (value, path) => get()(value, path);
+}`
+  },
+  guard: {
+    uses: [],
+    code: `function guard(is: (value: unknown) => boolean, expected: string): GuardCheck {
+  return (value, path) => is(value) ? undefined : { path, expected, actual: value };
+}`
+  }
+};
+
+/**
+ * @class TypeGuardGenerator
+ * @description Generates `isX` type guards and `assertX` assertion functions for extracted types
+ *
+ * @example
+ * const generator = new TypeGuardGenerator({
+ *   outputPath: './src/types/generated/myapi.guards.ts',
+ *   typesImport: './myapi.types.js'
+ * });
+ *
+ * await generator.generate(extractionContext);
+ *
+ * @since 2.0.0
+ */
+export class TypeGuardGenerator {
+  private config: TypeGuardGeneratorConfig;
+  private types: Map<string, ExtractedType> = new Map();
+  private enumMembers: Map<string, Map<string, string | number | undefined>> = new Map();
+  private helpers = new Set<string>();
+  private valueImports = new Set<string>();
+  private typeImports = new Set<string>();
+
+  constructor(config: TypeGuardGeneratorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * @method generate
+   * @description Writes the guards file
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {Promise<string[]>} The guards file path if its content changed, otherwise empty
+   * @public
+   * @async
+   */
+  async generate(context: ExtractionContext): Promise<string[]> {
+    const content = this.generateGuards(context);
+
+    if (existsSync(this.config.outputPath) && readFileSync(this.config.outputPath, 'utf-8') === content) {
+      return [];
+    }
+
+    mkdirSync(dirname(this.config.outputPath), { recursive: true });
+    writeFileSync(this.config.outputPath, content, 'utf-8');
+    return [this.config.outputPath];
+  }
+
+  /**
+   * @method generateGuards
+   * @description Generates the guards file content
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {string} TypeScript source
+   * @public
+   *
+   * @remarks
+   * Each interface, type alias and enum gets a private `checkX` validator that
+   * returns the first failure (path, expected type, actual value). References
+   * between types go through `ref()` so declaration order and recursion do not
+   * matter. Generic types become check factories; their guards take one guard
+   * per type parameter. Guards are only emitted for exported types, since the
+   * guarded type has to be imported.
+   */
+  generateGuards(context: ExtractionContext): string {
+    this.types = context.types;
+    this.helpers = new Set();
+    this.valueImports = new Set();
+    this.typeImports = new Set();
+    this.enumMembers = new Map();
+
+    for (const type of this.types.values()) {
+      if (type.kind === 'enum') {
+        this.enumMembers.set(type.name, this.getEnumMembers(type));
+      }
+    }
+
+    const checks: string[] = [];
+    const guards: string[] = [];
+
+    for (const type of this.types.values()) {
+      if (type.kind === 'class') {
+        // Referenced through instanceof instead
+        continue;
+      }
+      checks.push(this.generateCheck(type));
+
+      const guard = this.generateGuard(type);
+      if (guard) {
+        guards.push(guard);
+      }
+    }
+
+    return this.renderFile(context, checks, guards);
+  }
+
+  /**
+   * Assemble the file: header, imports, runtime, checks and guards
+   */
+  protected renderFile(context: ExtractionContext, checks: string[], guards: string[]): string {
+    let content = '';
+
+    if (this.config.header) {
+      content += this.config.header + '\n\n';
+    }
+
+    content += `/**
+ * Generated type guards for ${context.rules.apiId} API
+ *
+ * DO NOT EDIT MANUALLY - This file is auto-generated from the extracted types
+ */
+`;
+
+    const valueImports = [...this.valueImports].sort();
+    const typeImports = [...this.typeImports].filter(name => !this.valueImports.has(name)).sort();
+    if (valueImports.length > 0 || typeImports.length > 0) {
+      content += '\n';
+    }
+    if (valueImports.length > 0) {
+      content += `import { ${valueImports.join(', ')} } from '${this.config.typesImport}';\n`;
+    }
+    if (typeImports.length > 0) {
+      content += `import type { ${typeImports.join(', ')} } from '${this.config.typesImport}';\n`;
+    }
+
+    content += `
+// ============================================================================
+// RUNTIME
+// ============================================================================
+
+interface GuardFailure {
+  path: string;
+  expected: string;
+  actual: unknown;
+}
+
+type GuardCheck = (value: unknown, path: string) => GuardFailure | undefined;
+
+/**
+ * Thrown by assertion functions; \`path\` locates the failing property
+ */
+export class TypeGuardError extends Error {
+  readonly typeName: string;
+  readonly path: string;
+  readonly expected: string;
+  readonly actual: unknown;
+
+  constructor(typeName: string, failure: GuardFailure) {
+    super(\`Invalid \${typeName} at \${failure.path}: expected \${failure.expected}, got \${describe(failure.actual)}\`);
+    this.name = 'TypeGuardError';
+    this.typeName = typeName;
+    this.path = failure.path;
+    this.expected = failure.expected;
+    this.actual = failure.actual;
+  }
+}
+
+${this.renderHelpers()}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+${checks.join('\n\n')}
+`;
+
+    if (guards.length > 0) {
+      content += `
+// ============================================================================
+// GUARDS
+// ============================================================================
+
+${guards.join('\n\n')}
+`;
+    }
+
+    return content;
+  }
+
+  /**
+   * Used runtime helpers and their dependencies, in declaration order
+   */
+  protected renderHelpers(): string {
+    const used = new Set<string>();
+    const visit = (name: string): void => {
+      if (!used.has(name)) {
+        used.add(name);
+        RUNTIME_HELPERS[name].uses.forEach(visit);
+      }
+    };
+    ['describe', ...this.helpers].forEach(visit);
+
+    return Object.entries(RUNTIME_HELPERS)
+      .filter(([name]) => used.has(name))
+      .map(([, helper]) => helper.code)
+      .join('\n\n');
+  }
+
+  /**
+   * @method generateCheck
+   * @description Generates the private check declaration for one type
+   * @param {ExtractedType} type - Type to convert
+   * @returns {string} `checkX` constant, or factory for generic types
+   * @protected
+   */
+  protected generateCheck(type: ExtractedType): string {
+    const typeParameters = (type.typeParameters ?? []).map(getTypeParameterName);
+    const scope: GuardScope = {
+      type,
+      parameters: new Map(typeParameters.map(name => [name, this.parameterName(name)]))
+    };
+
+    const body = this.convertDeclaration(type, scope);
+    const name = this.checkName(type.name);
+
+    if (typeParameters.length > 0) {
+      const params = typeParameters.map(param => `${scope.parameters.get(param)}: GuardCheck`).join(', ');
+      return `const ${name} = (${params}): GuardCheck =>\n  ${body.split('\n').join('\n  ')};`;
+    }
+
+    return `const ${name}: GuardCheck = ${body};`;
+  }
+
+  /**
+   * @method generateGuard
+   * @description Generates the exported guard and assertion function for one type
+   * @param {ExtractedType} type - Guarded type
+   * @returns {string | undefined} Function declarations, or undefined when the type cannot be imported
+   * @protected
+   */
+  protected generateGuard(type: ExtractedType): string | undefined {
+    const typeParameters = this.getTypeParameterDeclarations(type);
+    if (!type.isExported || typeParameters === undefined) {
+      return undefined;
+    }
+
+    this.typeImports.add(type.name);
+    this.helpers.add('raise');
+
+    const name = this.checkName(type.name);
+    const label = JSON.stringify(type.name);
+
+    if (typeParameters.length === 0) {
+      return `/** Whether a value is a {@link ${type.name}} */
+export function is${type.name}(value: unknown): value is ${type.name} {
+  return ${name}(value, 'value') === undefined;
+}
+
+/** Asserts that a value is a {@link ${type.name}}, reporting the failing property path */
+export function assert${type.name}(value: unknown, path = 'value'): asserts value is ${type.name} {
+  raise(${label}, ${name}(value, path));
+}`;
+    }
+
+    this.helpers.add('guard');
+    const names = type.typeParameters!.map(getTypeParameterName);
+    const generics = `<${typeParameters.join(', ')}>`;
+    const guardParams = names.map(param => `is${param}: (value: unknown) => value is ${param}`).join(', ');
+    const instance = `${type.name}<${names.join(', ')}>`;
+    const factory = `${name}(${names.map(param => `guard(is${param}, ${JSON.stringify(param)})`).join(', ')})`;
+
+    return `/** Whether a value is a {@link ${type.name}}, checking type arguments with the given guards */
+export function is${type.name}${generics}(value: unknown, ${guardParams}): value is ${instance} {
+  return ${factory}(value, 'value') === undefined;
+}
+
+/** Asserts that a value is a {@link ${type.name}}, reporting the failing property path */
+export function assert${type.name}${generics}(value: unknown, ${guardParams}, path = 'value'): asserts value is ${instance} {
+  raise(${label}, ${factory}(value, path));
+}`;
+  }
+
+  /**
+   * Type parameter declarations (with constraints and defaults), or undefined
+   * when they reference types the guards file cannot import
+   */
+  protected getTypeParameterDeclarations(type: ExtractedType): string[] | undefined {
+    if (!type.typeParameters?.length) {
+      return [];
+    }
+
+    const parsed = withParsedText(type.definition, 'declaration', sourceFile => {
+      const declaration = sourceFile.getInterface(type.name) ?? sourceFile.getTypeAlias(type.name);
+      const parameters = declaration?.getTypeParameters() ?? [];
+      return {
+        declarations: parameters.map(param => param.getText()),
+        bounds: parameters.flatMap(param => [param.getConstraint(), param.getDefault()])
+          .filter((node): node is TypeNode => node !== undefined)
+          .map(node => node.getText())
+      };
+    });
+    if (parsed.declarations.length === 0) {
+      return undefined;
+    }
+
+    const names = type.typeParameters.map(getTypeParameterName);
+    const references = parsed.bounds.flatMap(text => collectTypeReferences(text, 'type', names));
+    for (const reference of references) {
+      const referenced = this.types.get(reference);
+      if (referenced && !referenced.isExported) {
+        return undefined;
+      }
+      if (referenced) {
+        this.typeImports.add(reference);
+      }
+    }
+
+    return parsed.declarations;
+  }
+
+  /**
+   * Convert a declaration to a check expression
+   */
+  protected convertDeclaration(type: ExtractedType, scope: GuardScope): string {
+    switch (type.kind) {
+      case 'interface':
+        return this.convertInterface(type, scope);
+
+      case 'enum':
+        return this.convertEnum(type);
+
+      default: {
+        const discriminated = this.convertDiscriminatedUnion(type.discriminator);
+        if (discriminated) {
+          return discriminated;
+        }
+
+        return withParsedText(type.definition, 'declaration', sourceFile => {
+          const typeNode = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+          return typeNode ? this.convertTypeNode(typeNode, scope) : this.fallback(type.name);
+        });
+      }
+    }
+  }
+
+  /**
+   * Interfaces become object checks; extended interfaces are checked as well
+   */
+  protected convertInterface(type: ExtractedType, scope: GuardScope): string {
+    if (type.callSignatures?.length || type.constructSignatures?.length) {
+      // Callable values are functions; their properties are not checked
+      return `${this.use('typeOf')}('function')`;
+    }
+
+    const shape = (type.properties ?? []).map(prop => {
+      const check = this.convertTypeText(prop.type, scope);
+      return `${this.propertyKey(prop.name)}: ${prop.optional ? this.optional(check) : check}`;
+    });
+
+    // Overloads share a single entry
+    const methods = [...new Set((type.methods ?? []).map(method => method.name))].map(name => {
+      const check = `${this.use('typeOf')}('function')`;
+      const optional = type.methods!.every(method => method.name !== name || method.optional);
+      return `${this.propertyKey(name)}: ${optional ? this.optional(check) : check}`;
+    });
+    const signature = type.indexSignatures?.[0];
+    const index = signature ? this.convertTypeText(signature.type, scope) : undefined;
+
+    const object = this.objectCheck([...shape, ...methods], index);
+
+    const bases = (type.extends ?? [])
+      .filter(ext => collectTypeReferences(ext).some(name => this.types.get(name)?.kind === 'interface'))
+      .map(ext => this.convertTypeText(ext, scope));
+
+    if (bases.length === 0) {
+      return object;
+    }
+
+    this.helpers.add('allOf');
+    return `allOf([${[...bases, object].join(', ')}])`;
+  }
+
+  /**
+   * Enums accept their member values
+   */
+  protected convertEnum(type: ExtractedType): string {
+    const values = [...this.enumMembers.get(type.name)!.values()];
+    this.helpers.add('oneOf');
+
+    if (values.some(value => value === undefined)) {
+      // Computed members: fall back to the runtime enum object
+      this.valueImports.add(type.name);
+      return `oneOf(${JSON.stringify(type.name)}, Object.values(${type.name}))`;
+    }
+
+    return `oneOf(${JSON.stringify(type.name)}, [${values.map(value => JSON.stringify(value)).join(', ')}])`;
+  }
+
+  /**
+   * Discriminated unions check only the variant selected by the discriminant
+   */
+  protected convertDiscriminatedUnion(discriminator: ExtractedType['discriminator']): string | undefined {
+    if (!discriminator) {
+      return undefined;
+    }
+
+    const entries = Object.entries(discriminator.variants);
+    const variantsAreChecked = entries.length > 0 && entries.every(([, variant]) => {
+      const variantType = this.types.get(variant);
+      return variantType !== undefined && variantType.kind !== 'class' && !variantType.typeParameters?.length;
+    });
+    if (!variantsAreChecked) {
+      return undefined;
+    }
+
+    this.helpers.add('discriminated');
+    const expected = entries.map(([value]) => `'${value}'`).join(' | ');
+    const variants = entries.map(([value, variant]) =>
+      `${this.propertyKey(value)}: ${this.referenceCheck(variant, [])}`
+    );
+
+    return `discriminated(${JSON.stringify(discriminator.property)}, ${JSON.stringify(expected)}, {\n  ${variants.join(',\n  ')}\n})`;
+  }
+
+  /**
+   * Convert a type string to a check expression
+   */
+  protected convertTypeText(text: string, scope: GuardScope): string {
+    return withParsedText(text, 'type', sourceFile => {
+      const typeNode = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+      return typeNode ? this.convertTypeNode(typeNode, scope) : this.fallback(text);
+    });
+  }
+
+  /**
+   * @method convertTypeNode
+   * @description Converts a type node to a check expression
+   * @param {TypeNode} node - Type node
+   * @param {GuardScope} scope - Conversion state
+   * @returns {string} Check expression
+   * @protected
+   */
+  protected convertTypeNode(node: TypeNode, scope: GuardScope): string {
+    const keyword = KEYWORD_CHECKS[node.getKind()];
+    if (keyword) {
+      this.helpers.add(keyword.replace(/\(.*$/, ''));
+      return keyword;
+    }
+
+    if (Node.isParenthesizedTypeNode(node)) {
+      return this.convertTypeNode(node.getTypeNode(), scope);
+    }
+
+    if (Node.isLiteralTypeNode(node)) {
+      return `${this.use('literal')}(${this.getLiteralValue(node) ?? node.getText()})`;
+    }
+
+    if (Node.isUnionTypeNode(node)) {
+      return this.convertUnion(node, scope);
+    }
+
+    if (Node.isIntersectionTypeNode(node)) {
+      // Brands only exist at compile time
+      const members = node.getTypeNodes().filter(member => !this.isBrand(member));
+      if (members.length === 1) {
+        return this.convertTypeNode(members[0], scope);
+      }
+      this.helpers.add('allOf');
+      return `allOf([${members.map(member => this.convertTypeNode(member, scope)).join(', ')}])`;
+    }
+
+    if (Node.isArrayTypeNode(node)) {
+      return `${this.use('array')}(${this.convertTypeNode(node.getElementTypeNode(), scope)})`;
+    }
+
+    if (Node.isTypeOperatorTypeNode(node) && node.getOperator() === SyntaxKind.ReadonlyKeyword) {
+      return this.convertTypeNode(node.getTypeNode(), scope);
+    }
+
+    if (Node.isTupleTypeNode(node)) {
+      return this.convertTuple(node.getElements(), scope);
+    }
+
+    if (Node.isTypeLiteral(node)) {
+      return this.convertTypeLiteral(node, scope);
+    }
+
+    if (Node.isFunctionTypeNode(node) || Node.isConstructorTypeNode(node)) {
+      return `${this.use('typeOf')}('function')`;
+    }
+
+    if (Node.isTemplateLiteralTypeNode(node)) {
+      // The pattern itself is not checked
+      return `${this.use('typeOf')}('string')`;
+    }
+
+    if (Node.isTypeReference(node)) {
+      return this.convertTypeReference(node, scope);
+    }
+
+    return this.fallback(node.getText());
+  }
+
+  /**
+   * Unions: literal unions become a membership check; unions of object types
+   * sharing a literal property are dispatched on it
+   */
+  protected convertUnion(node: Node, scope: GuardScope): string {
+    if (!Node.isUnionTypeNode(node)) {
+      return this.fallback(node.getText());
+    }
+
+    const members = node.getTypeNodes();
+    const literals = members.map(member => this.getLiteralValue(member));
+    if (literals.every(literal => literal !== undefined)) {
+      this.helpers.add('oneOf');
+      return `oneOf(${JSON.stringify(this.normalize(node.getText()))}, [${literals.join(', ')}])`;
+    }
+
+    const discriminator = this.detectDiscriminator(members);
+    if (discriminator) {
+      return this.convertDiscriminatedUnion(discriminator)!;
+    }
+
+    this.helpers.add('union');
+    const checks = members.map(member => this.convertTypeNode(member, scope));
+    return `union(${JSON.stringify(this.normalize(node.getText()))}, [${checks.join(', ')}])`;
+  }
+
+  /**
+   * Discriminant of a union of extracted interfaces: a property every member
+   * declares with distinct literal values
+   */
+  protected detectDiscriminator(members: TypeNode[]): ExtractedType['discriminator'] | undefined {
+    const variants = members.map(member => {
+      const type = Node.isTypeReference(member) ? this.types.get(member.getTypeName().getText()) : undefined;
+      return type?.kind === 'interface' && !type.typeParameters?.length ? type : undefined;
+    });
+    if (variants.length < 2 || variants.some(variant => variant === undefined)) {
+      return undefined;
+    }
+
+    for (const candidate of variants[0]!.properties ?? []) {
+      const mapping: Record<string, string> = {};
+      const isDiscriminant = variants.every(variant => {
+        const prop = variant!.properties?.find(p => p.name === candidate.name);
+        const values = prop && !prop.optional ? this.getLiteralValues(prop.type) : undefined;
+        return values?.every(value => {
+          if (value in mapping) {
+            return false;
+          }
+          mapping[value] = variant!.name;
+          return true;
+        }) ?? false;
+      });
+
+      if (isDiscriminant) {
+        return { property: candidate.name, variants: mapping };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Tuples, including optional and rest elements
+   */
+  protected convertTuple(elements: TypeNode[], scope: GuardScope): string {
+    const items: string[] = [];
+    let required = 0;
+    let rest: string | undefined;
+
+    for (const element of elements) {
+      const member = Node.isNamedTupleMember(element) ? element.getTypeNode() : element;
+      const isNamedRest = Node.isNamedTupleMember(element) && element.getDotDotDotToken() !== undefined;
+
+      if (Node.isRestTypeNode(member) || isNamedRest) {
+        const restType = Node.isRestTypeNode(member) ? member.getTypeNode() : member;
+        rest = Node.isArrayTypeNode(restType)
+          ? this.convertTypeNode(restType.getElementTypeNode(), scope)
+          : this.use('unknown');
+      } else if (member.getKind() === SyntaxKind.OptionalType) {
+        items.push(this.optional(this.convertTypeNode(member.getFirstChildOrThrow() as TypeNode, scope)));
+      } else if (Node.isNamedTupleMember(element) && element.hasQuestionToken()) {
+        items.push(this.optional(this.convertTypeNode(member, scope)));
+      } else {
+        items.push(this.convertTypeNode(member, scope));
+        required = items.length;
+      }
+    }
+
+    return `${this.use('tuple')}([${items.join(', ')}], ${required}${rest ? `, ${rest}` : ''})`;
+  }
+
+  /**
+   * Object type literals, methods and index signatures
+   */
+  protected convertTypeLiteral(node: Node, scope: GuardScope): string {
+    if (!Node.isTypeLiteral(node)) {
+      return this.fallback(node.getText());
+    }
+
+    if (node.getMembers().length > 0 && node.getMembers().every(m => Node.isCallSignatureDeclaration(m) || Node.isConstructSignatureDeclaration(m))) {
+      return `${this.use('typeOf')}('function')`;
+    }
+
+    const shape = node.getProperties().map(prop => {
+      const typeNode = prop.getTypeNode();
+      const check = typeNode ? this.convertTypeNode(typeNode, scope) : this.use('unknown');
+      return `${this.propertyKey(prop.getName())}: ${prop.hasQuestionToken() ? this.optional(check) : check}`;
+    });
+
+    for (const method of node.getMethods()) {
+      const check = `${this.use('typeOf')}('function')`;
+      shape.push(`${this.propertyKey(method.getName())}: ${method.hasQuestionToken() ? this.optional(check) : check}`);
+    }
+
+    const signature = node.getIndexSignatures()[0];
+    const valueNode = signature?.getReturnTypeNode();
+    const index = signature ? (valueNode ? this.convertTypeNode(valueNode, scope) : this.use('unknown')) : undefined;
+
+    if (shape.length === 0 && index) {
+      return `${this.use('record')}(${index})`;
+    }
+    return this.objectCheck(shape, index);
+  }
+
+  /**
+   * Named types: extracted types, type parameters and well-known globals
+   */
+  protected convertTypeReference(node: Node, scope: GuardScope): string {
+    if (!Node.isTypeReference(node)) {
+      return this.fallback(node.getText());
+    }
+
+    const typeName = node.getTypeName();
+    const name = typeName.getText();
+    const args = node.getTypeArguments();
+    const convertArg = (index: number): string => args[index] ? this.convertTypeNode(args[index], scope) : this.use('unknown');
+
+    // Enum members: Status.Active
+    if (Node.isQualifiedName(typeName)) {
+      const members = this.enumMembers.get(typeName.getLeft().getText());
+      const value = members?.get(typeName.getRight().getText());
+      return value !== undefined ? `${this.use('literal')}(${JSON.stringify(value)})` : this.fallback(node.getText());
+    }
+
+    const parameter = scope.parameters.get(name);
+    if (parameter) {
+      return parameter;
+    }
+
+    const type = this.types.get(name);
+    if (type?.kind === 'class') {
+      if (!type.isExported) {
+        return this.fallback(node.getText());
+      }
+      this.valueImports.add(name);
+      return `${this.use('instance')}(${name})`;
+    }
+    if (type) {
+      return this.referenceCheck(name, args.map((_, index) => convertArg(index)));
+    }
+
+    switch (name) {
+      case 'Array':
+      case 'ReadonlyArray':
+        return `${this.use('array')}(${convertArg(0)})`;
+      case 'Record': {
+        const keys = args[0] ? this.getLiteralValues(args[0].getText()) : undefined;
+        if (keys) {
+          const value = convertArg(1);
+          return this.objectCheck(keys.map(key => `${this.propertyKey(key)}: ${value}`));
+        }
+        return `${this.use('record')}(${convertArg(1)})`;
+      }
+      case 'BrandedUnknown':
+        return this.use('unknown');
+      default:
+        return INSTANCE_TYPES.has(name) ? `${this.use('instance')}(${name})` : this.fallback(node.getText());
+    }
+  }
+
+  /**
+   * Reference another extracted type's check, deferred so order and recursion do not matter
+   */
+  protected referenceCheck(name: string, typeArguments: string[]): string {
+    const target = this.types.get(name)!;
+    this.helpers.add('ref');
+
+    if (target.typeParameters?.length) {
+      const args = target.typeParameters.map((_, index) => typeArguments[index] ?? this.use('unknown'));
+      return `ref(() => ${this.checkName(name)}(${args.join(', ')}))`;
+    }
+
+    return `ref(() => ${this.checkName(name)})`;
+  }
+
+  /**
+   * Object check from `key: check` entries and an optional index signature check
+   */
+  protected objectCheck(shape: string[], index?: string): string {
+    this.helpers.add('object');
+    const entries = shape.map(entry => entry.split('\n').join('\n  '));
+    const properties = entries.length > 0 ? `{\n  ${entries.join(',\n  ')}\n}` : '{}';
+    return `object(${properties}${index ? `, ${index}` : ''})`;
+  }
+
+  /**
+   * Allow a missing value
+   */
+  protected optional(check: string): string {
+    return check.startsWith('optional(') ? check : `${this.use('optional')}(${check})`;
+  }
+
+  /**
+   * Constructs without a runtime check accept any value
+   */
+  protected fallback(text: string): string {
+    return `${this.use('unknown')} /* unchecked: ${this.normalize(text).replace(/\*\//g, '* /')} */`;
+  }
+
+  /**
+   * Mark a runtime helper as used and return its name
+   */
+  protected use(helper: string): string {
+    this.helpers.add(helper);
+    return helper;
+  }
+
+  /**
+   * Member values of an enum, undefined for computed members
+   */
+  protected getEnumMembers(type: ExtractedType): Map<string, string | number | undefined> {
+    return withParsedText(type.definition, 'declaration', sourceFile => {
+      const declaration = sourceFile.getEnum(type.name);
+      return new Map((declaration?.getMembers() ?? []).map(member => [member.getName(), member.getValue()]));
+    });
+  }
+
+  /**
+   * Literal value of a literal type node as source text, or undefined for other nodes
+   */
+  protected getLiteralValue(node: TypeNode): string | undefined {
+    if (node.getKind() === SyntaxKind.UndefinedKeyword) {
+      return 'undefined';
+    }
+    if (node.getKind() === SyntaxKind.NullKeyword) {
+      return 'null';
+    }
+    if (Node.isTypeReference(node)) {
+      const typeName = node.getTypeName();
+      const value = Node.isQualifiedName(typeName)
+        ? this.enumMembers.get(typeName.getLeft().getText())?.get(typeName.getRight().getText())
+        : undefined;
+      return value !== undefined ? JSON.stringify(value) : undefined;
+    }
+    if (!Node.isLiteralTypeNode(node)) {
+      return undefined;
+    }
+
+    const literal = node.getLiteral();
+    if (Node.isStringLiteral(literal) || Node.isNoSubstitutionTemplateLiteral(literal)) {
+      return JSON.stringify(literal.getLiteralValue());
+    }
+    return literal.getText();
+  }
+
+  /**
+   * Literal values of a type as strings (`'a' | 1` -> ['a', '1']), or undefined
+   * when any member is not a literal
+   */
+  protected getLiteralValues(text: string): string[] | undefined {
+    return withParsedText(text, 'type', sourceFile => {
+      const typeNode = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+      if (!typeNode) {
+        return undefined;
+      }
+
+      const members = Node.isUnionTypeNode(typeNode) ? typeNode.getTypeNodes() : [typeNode];
+      const values: string[] = [];
+      for (const member of members) {
+        const value = this.getLiteralValue(member);
+        if (value === undefined) {
+          return undefined;
+        }
+        values.push(value.startsWith('"') ? JSON.parse(value) as string : value);
+      }
+      return values;
+    });
+  }
+
+  /**
+   * Whether an intersection member is a compile-time brand (`{ readonly __brand: 'x' }`,
+   * including the `__context` the generator adds to branded unknowns)
+   */
+  protected isBrand(node: TypeNode): boolean {
+    return Node.isTypeLiteral(node) &&
+      node.getProperty('__brand') !== undefined &&
+      node.getMembers().every(member => Node.isPropertySignature(member) && member.getName().startsWith('__'));
+  }
+
+  /**
+   * Collapse whitespace in type text for messages and comments
+   */
+  protected normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Check constant name for a type
+   */
+  protected checkName(typeName: string): string {
+    return `check${typeName}`;
+  }
+
+  /**
+   * Check parameter name for a type parameter (T -> tCheck)
+   */
+  protected parameterName(typeParameter: string): string {
+    return `${typeParameter.charAt(0).toLowerCase()}${typeParameter.slice(1)}Check`;
+  }
+
+  /**
+   * Object key, quoted when it is not a valid identifier
+   */
+  protected propertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) || /^(['"]).*\1$/.test(name) ? name : JSON.stringify(name);
+  }
+}
@@ -7,5 +7,26 @@
 export * from './types.js';
 export { BaseTypeExtractor } from './extractor.js';
 export { TypeGenerator } from './generator.js';
-export { RFCCompliantGenerator, type RFCGeneratorConfig } from './rfc-generator.js';
+export { RFCCompliantGenerator, type RFCGeneratorConfig, type ContractReview, type ExtractionMap } from './rfc-generator.js';
+export * from './drift.js';
+export * from './security.js';
+export * from './approvals.js';
+export * from './source-map.js';
+export * from './check.js';
+export * from './report.js';
+export * from './metrics-history.js';
+export { ZodSchemaGenerator, type ZodGeneratorConfig } from './zod-generator.js';
+export { TypeGuardGenerator, type TypeGuardGeneratorConfig } from './guard-generator.js';
+export {
+  JsonSchemaGenerator,
+  formatUnsupportedConstructs,
+  JSON_SCHEMA_DIALECT,
+  type JsonSchemaGeneratorConfig,
+  type JsonSchema,
+  type JsonSchemaTypeName,
+  type JsonSchemaDocument,
+  type JsonSchemaReport,
+  type UnsupportedConstruct,
+  type UnsupportedConstructKind
+} from './json-schema-generator.js';
 export * from './config.js';
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JSON_SCHEMA_DIALECT, JsonSchemaGenerator, formatUnsupportedConstructs } from './json-schema-generator.js';
+import { parseDeclarations } from './drift.js';
+import type { ExtractionContext } from './types.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const contextOf = (source: string): ExtractionContext => ({
+  types: parseDeclarations(source, join(dir, 'api.ts')),
+  rules: { apiId: 'test' }
+} as ExtractionContext);
+
+const generator = (): JsonSchemaGenerator => new JsonSchemaGenerator({ outputPath: join(dir, 'api.schema.json') });
+
+describe('JsonSchemaGenerator', () => {
+  it('converts interfaces with required and optional properties and references', () => {
+    const { document } = generator().generateDocument(contextOf([
+      'export interface Address { city: string }',
+      'export interface Guest { id: string; age?: number; tags: string[]; address: Address | null }'
+    ].join('\n')));
+
+    expect(document.$schema).toBe(JSON_SCHEMA_DIALECT);
+    expect(document.title).toBe('test API types');
+    expect(document.$defs.Guest).toMatchObject({
+      type: 'object',
+      properties: {
+        id: { type: 'string' },
+        age: { type: 'number' },
+        tags: { type: 'array', items: { type: 'string' } },
+        address: { anyOf: [{ $ref: '#/$defs/Address' }, { type: 'null' }] }
+      },
+      required: ['id', 'tags', 'address']
+    });
+  });
+
+  it('converts enums and literal unions to enum values', () => {
+    const { document } = generator().generateDocument(contextOf([
+      "export enum Status { Active = 'active', Inactive = 'inactive' }",
+      "export type Level = 'low' | 'high';"
+    ].join('\n')));
+
+    expect(document.$defs.Status).toMatchObject({ enum: ['active', 'inactive'] });
+    expect(document.$defs.Level).toMatchObject({ enum: ['low', 'high'] });
+  });
+
+  it('uses the value of quoted property names as keys', () => {
+    const { document } = generator().generateDocument(contextOf([
+      "export interface Headers { 'content-type': string; \"x-id\"?: string; 1: boolean }",
+      "export type Meta = { 'cache-control': string };"
+    ].join('\n')));
+
+    expect(document.$defs.Headers).toEqual({
+      type: 'object',
+      properties: { 'content-type': { type: 'string' }, 'x-id': { type: 'string' }, 1: { type: 'boolean' } },
+      required: ['content-type', '1']
+    });
+    expect(document.$defs.Meta).toMatchObject({ required: ['cache-control'] });
+  });
+
+  it('converts branded primitives to the primitive with a brand comment', () => {
+    const { document } = generator().generateDocument(contextOf([
+      "export type GuestId = string & { readonly __brand: 'GuestId' };",
+      "export type Cents = number & { readonly __brand: 'Cents' };"
+    ].join('\n')));
+
+    expect(document.$defs.GuestId).toEqual({ type: 'string', $comment: "Branded string 'GuestId'" });
+    expect(document.$defs.Cents).toEqual({ type: 'number', $comment: "Branded number 'Cents'" });
+  });
+
+  it('instantiates generic references with their type arguments', () => {
+    const { document } = generator().generateDocument(contextOf([
+      'export interface Page<T> { items: T[] }',
+      'export interface Guest { id: string }',
+      'export interface GuestPage { page: Page<Guest> }'
+    ].join('\n')));
+
+    expect(document.$defs.GuestPage.properties?.page).toEqual({ $ref: '#/$defs/Page%3CGuest%3E' });
+    expect(document.$defs['Page<Guest>'].properties?.items).toEqual({ type: 'array', items: { $ref: '#/$defs/Guest' } });
+  });
+
+  it('reports constructs without a JSON Schema equivalent with their pointer', () => {
+    const { document, unsupported } = generator().generateDocument(contextOf(
+      'export interface Hook { run: () => void; id: bigint }'
+    ));
+
+    expect(unsupported.map(construct => [construct.construct, construct.pointer])).toEqual([
+      ['function', '/$defs/Hook/properties/run'],
+      ['non-json-type', '/$defs/Hook/properties/id']
+    ]);
+    expect(document.$defs.Hook.properties?.run).toMatchObject({ $comment: expect.any(String) });
+    expect(formatUnsupportedConstructs(unsupported)).toContain('/$defs/Hook/properties/run');
+  });
+
+  it('writes the document only when it changed', async () => {
+    const context = contextOf('export interface Guest { id: string }');
+
+    expect((await generator().generate(context)).files).toEqual([join(dir, 'api.schema.json')]);
+    expect((await generator().generate(context)).files).toEqual([]);
+    expect(JSON.parse(readFileSync(join(dir, 'api.schema.json'), 'utf-8')).$defs.Guest.required).toEqual(['id']);
+  });
+});
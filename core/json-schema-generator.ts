@@ -0,0 +1,968 @@
+/**
+ * @fileoverview Type Extraction Framework - JSON Schema Generator
+ *
+ * @description
+ * Generates a JSON Schema (draft 2020-12) document from extracted type
+ * definitions for tooling that does not consume TypeScript. Every type becomes
+ * an entry of `$defs` and references between types become `$ref`s. Constructs
+ * JSON Schema cannot express (mapped and conditional types, functions, ...)
+ * are emitted as the unconstrained schema and listed in the generator report.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { Node, SyntaxKind, TypeNode } from 'ts-morph';
+import type { ExtractedType, ExtractionContext } from './types.js';
+import { getTypeParameterName, withParsedText } from './type-text.js';
+import { formatMemberLines } from './members.js';
+
+/**
+ * Dialect of the generated document
+ */
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * @interface JsonSchemaGeneratorConfig
+ * @description Configuration for JsonSchemaGenerator
+ * @since 2.0.0
+ */
+export interface JsonSchemaGeneratorConfig {
+  /** Path of the generated .json file */
+  outputPath: string;
+
+  /** `$id` of the generated document */
+  id?: string;
+}
+
+export type JsonSchemaTypeName = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * Subset of JSON Schema 2020-12 keywords the generator emits
+ */
+export interface JsonSchema {
+  $ref?: string;
+  $comment?: string;
+  description?: string;
+  type?: JsonSchemaTypeName | JsonSchemaTypeName[];
+  format?: string;
+  const?: unknown;
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: JsonSchema | boolean;
+  items?: JsonSchema | boolean;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  not?: JsonSchema;
+}
+
+/**
+ * @interface JsonSchemaDocument
+ * @description Root of the generated document
+ * @since 2.0.0
+ */
+export interface JsonSchemaDocument {
+  $schema: string;
+  $id?: string;
+  title: string;
+  $defs: Record<string, JsonSchema>;
+}
+
+/**
+ * Kinds of TypeScript constructs without a JSON Schema equivalent
+ */
+export type UnsupportedConstructKind =
+  | 'mapped-type'
+  | 'conditional-type'
+  | 'indexed-access'
+  | 'type-query'
+  | 'type-operator'
+  | 'template-literal'
+  | 'function'
+  | 'non-json-type'
+  | 'external-reference'
+  | 'computed-enum-member'
+  | 'generic-depth'
+  | 'other';
+
+/**
+ * @interface UnsupportedConstruct
+ * @description A construct that was emitted as the unconstrained schema `{}`
+ * @since 2.0.0
+ */
+export interface UnsupportedConstruct {
+  construct: UnsupportedConstructKind;
+
+  /** Type the construct belongs to */
+  type: string;
+
+  /** JSON pointer of the schema emitted in its place (e.g. `/$defs/Guest/properties/meta`) */
+  pointer: string;
+
+  /** TypeScript text of the construct */
+  text: string;
+
+  file: string;
+  line: number;
+}
+
+/**
+ * @interface JsonSchemaReport
+ * @description Result of a generator run
+ * @since 2.0.0
+ */
+export interface JsonSchemaReport {
+  /** The schema file path if its content changed, otherwise empty */
+  files: string[];
+
+  /** Constructs that could not be represented */
+  unsupported: UnsupportedConstruct[];
+}
+
+/**
+ * Binding of a type parameter inside a generic instantiation
+ */
+interface ParameterBinding {
+  /** Type argument text, used to name the instantiation */
+  key: string;
+  schema: JsonSchema;
+}
+
+/**
+ * Per-definition conversion state
+ */
+interface ConversionScope {
+  /** Type being converted */
+  type: ExtractedType;
+
+  /** Type parameters: bound in instantiations, undefined in the open definition */
+  parameters: Map<string, ParameterBinding | undefined>;
+
+  /** Nesting of generic instantiations, to stop infinitely expanding types */
+  depth: number;
+}
+
+/** Deepest generic instantiation before falling back to the open definition */
+const MAX_INSTANTIATION_DEPTH = 8;
+
+/** Keyword types and their schemas */
+const KEYWORD_SCHEMAS: Partial<Record<SyntaxKind, JsonSchema>> = {
+  [SyntaxKind.StringKeyword]: { type: 'string' },
+  [SyntaxKind.NumberKeyword]: { type: 'number' },
+  [SyntaxKind.BooleanKeyword]: { type: 'boolean' },
+  [SyntaxKind.NullKeyword]: { type: 'null' },
+  [SyntaxKind.ObjectKeyword]: { type: ['object', 'array'] },
+  [SyntaxKind.UnknownKeyword]: {},
+  [SyntaxKind.AnyKeyword]: {},
+  [SyntaxKind.NeverKeyword]: { not: {} }
+};
+
+/** Keyword types that have no JSON representation */
+const NON_JSON_KEYWORDS = new Set([
+  SyntaxKind.UndefinedKeyword,
+  SyntaxKind.VoidKeyword,
+  SyntaxKind.BigIntKeyword,
+  SyntaxKind.SymbolKeyword
+]);
+
+/** Keyword types a brand intersection can narrow */
+const BRANDABLE_KINDS = new Set([
+  SyntaxKind.StringKeyword,
+  SyntaxKind.NumberKeyword,
+  SyntaxKind.BooleanKeyword,
+  SyntaxKind.UnknownKeyword
+]);
+
+/**
+ * @class JsonSchemaGenerator
+ * @description Generates a JSON Schema document from extracted type definitions
+ *
+ * @example
+ * const generator = new JsonSchemaGenerator({
+ *   outputPath: './schemas/myapi.schema.json',
+ *   id: 'https://example.com/schemas/myapi.schema.json'
+ * });
+ *
+ * const report = await generator.generate(extractionContext);
+ * console.log(formatUnsupportedConstructs(report.unsupported));
+ *
+ * @since 2.0.0
+ */
+export class JsonSchemaGenerator {
+  private config: JsonSchemaGeneratorConfig;
+  private types: Map<string, ExtractedType> = new Map();
+  private definitions = new Map<string, JsonSchema>();
+  private unsupported: UnsupportedConstruct[] = [];
+
+  constructor(config: JsonSchemaGeneratorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * @method generate
+   * @description Writes the schema document
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {Promise<JsonSchemaReport>} Written file and unsupported constructs
+   * @public
+   * @async
+   */
+  async generate(context: ExtractionContext): Promise<JsonSchemaReport> {
+    const { document, unsupported } = this.generateDocument(context);
+    const content = JSON.stringify(document, null, 2) + '\n';
+
+    if (existsSync(this.config.outputPath) && readFileSync(this.config.outputPath, 'utf-8') === content) {
+      return { files: [], unsupported };
+    }
+
+    mkdirSync(dirname(this.config.outputPath), { recursive: true });
+    writeFileSync(this.config.outputPath, content, 'utf-8');
+    return { files: [this.config.outputPath], unsupported };
+  }
+
+  /**
+   * @method generateDocument
+   * @description Converts the extracted types to a JSON Schema document
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {{ document: JsonSchemaDocument; unsupported: UnsupportedConstruct[] }}
+   * @public
+   *
+   * @remarks
+   * Generic types get an open definition with unconstrained type parameters.
+   * References with type arguments (`Page<Guest>`) get a definition of their
+   * own, named after the reference, with the arguments substituted.
+   */
+  generateDocument(context: ExtractionContext): { document: JsonSchemaDocument; unsupported: UnsupportedConstruct[] } {
+    this.types = context.types;
+    this.definitions = new Map();
+    this.unsupported = [];
+
+    for (const type of this.types.values()) {
+      const parameters = new Map((type.typeParameters ?? []).map(param => [getTypeParameterName(param), undefined]));
+      this.definitions.set(type.name, {});
+      this.definitions.set(type.name, this.convertDefinition(type, { type, parameters, depth: 0 }, type.name));
+    }
+
+    const document: JsonSchemaDocument = {
+      $schema: JSON_SCHEMA_DIALECT,
+      ...(this.config.id ? { $id: this.config.id } : {}),
+      title: `${context.rules.apiId} API types`,
+      $defs: Object.fromEntries(this.definitions)
+    };
+
+    return { document, unsupported: this.unsupported };
+  }
+
+  /**
+   * @method convertDefinition
+   * @description Converts one type to the schema stored in `$defs`
+   * @param {ExtractedType} type - Type to convert
+   * @param {ConversionScope} scope - Type parameter bindings
+   * @param {string} key - Key of the definition in `$defs`
+   * @returns {JsonSchema}
+   * @protected
+   */
+  protected convertDefinition(type: ExtractedType, scope: ConversionScope, key: string): JsonSchema {
+    const pointer = `/$defs/${escapePointer(key)}`;
+    const schema = this.convertDeclaration(type, scope, pointer);
+
+    return type.documentation ? { description: type.documentation, ...schema } : schema;
+  }
+
+  /**
+   * Convert a declaration by kind
+   */
+  protected convertDeclaration(type: ExtractedType, scope: ConversionScope, pointer: string): JsonSchema {
+    switch (type.kind) {
+      case 'interface':
+        return this.convertInterface(type, scope, pointer);
+
+      case 'enum':
+        return this.convertEnum(type, pointer);
+
+      case 'class':
+        return this.convertClass(type, scope, pointer);
+
+      default: {
+        if (type.discriminator) {
+          return {
+            oneOf: Object.values(type.discriminator.variants).map(variant =>
+              this.types.has(variant) ? this.reference(variant) : this.unsupportedSchema('external-reference', variant, scope, pointer)
+            )
+          };
+        }
+
+        return withParsedText(type.definition, 'declaration', sourceFile => {
+          const typeNode = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+          return typeNode
+            ? this.convertTypeNode(typeNode, scope, pointer)
+            : this.unsupportedSchema('other', type.definition.trim(), scope, pointer);
+        });
+      }
+    }
+  }
+
+  /**
+   * Interfaces become objects; extended interfaces are combined with allOf
+   */
+  protected convertInterface(type: ExtractedType, scope: ConversionScope, pointer: string): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const prop of type.properties ?? []) {
+      const key = parsePropertyKey(prop.name);
+      const propertyPointer = `${pointer}/properties/${escapePointer(key)}`;
+      const { schema, acceptsUndefined } = withParsedText(prop.type, 'type', sourceFile => {
+        const typeNode = sourceFile.getFirstDescendantByKindOrThrow(SyntaxKind.TypeAliasDeclaration).getTypeNodeOrThrow();
+        return { schema: this.convertTypeNode(typeNode, scope, propertyPointer), acceptsUndefined: includesUndefined(typeNode) };
+      });
+
+      properties[key] = prop.documentation ? { description: prop.documentation, ...schema } : schema;
+      if (!prop.optional && !acceptsUndefined) {
+        required.push(key);
+      }
+    }
+
+    const object: JsonSchema = { type: 'object', properties };
+    if (required.length > 0) {
+      object.required = required;
+    }
+
+    const signature = type.indexSignatures?.[0];
+    if (signature) {
+      object.additionalProperties = this.convertTypeText(signature.type, scope, `${pointer}/additionalProperties`);
+    }
+
+    for (const member of formatMemberLines({ ...type, indexSignatures: undefined })) {
+      this.report('function', member.text, type, pointer);
+    }
+
+    const bases = (type.extends ?? []).map((ext, index) => this.convertTypeText(ext, scope, `${pointer}/allOf/${index}`));
+    return bases.length > 0 ? { allOf: [...bases, object] } : object;
+  }
+
+  /**
+   * Enums become `enum` with the member values
+   */
+  protected convertEnum(type: ExtractedType, pointer: string): JsonSchema {
+    return withParsedText(type.definition, 'declaration', sourceFile => {
+      const declaration = sourceFile.getFirstDescendantByKindOrThrow(SyntaxKind.EnumDeclaration);
+      const values: Array<string | number> = [];
+
+      for (const member of declaration.getMembers()) {
+        const value = member.getValue();
+        if (value === undefined) {
+          this.report('computed-enum-member', member.getText(), type, pointer);
+          return {};
+        }
+        values.push(value);
+      }
+
+      return { enum: values };
+    });
+  }
+
+  /**
+   * Classes are described by their public instance properties, as serialized to JSON
+   */
+  protected convertClass(type: ExtractedType, scope: ConversionScope, pointer: string): JsonSchema {
+    return withParsedText(type.definition, 'declaration', sourceFile => {
+      const declaration = sourceFile.getFirstDescendantByKindOrThrow(SyntaxKind.ClassDeclaration);
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+
+      for (const prop of declaration.getProperties()) {
+        const isPublic = !prop.isStatic() && !prop.hasModifier(SyntaxKind.PrivateKeyword) &&
+          !prop.hasModifier(SyntaxKind.ProtectedKeyword) && !prop.getName().startsWith('#');
+        if (!isPublic) {
+          continue;
+        }
+
+        const typeNode = prop.getTypeNode();
+        const name = prop.getName();
+        properties[name] = typeNode
+          ? this.convertTypeNode(typeNode, scope, `${pointer}/properties/${escapePointer(name)}`)
+          : {};
+        if (!prop.hasQuestionToken() && !(typeNode && includesUndefined(typeNode))) {
+          required.push(name);
+        }
+      }
+
+      const object: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) {
+        object.required = required;
+      }
+
+      const bases = (type.extends ?? []).map((ext, index) => this.convertTypeText(ext, scope, `${pointer}/allOf/${index}`));
+      return bases.length > 0 ? { allOf: [...bases, object] } : object;
+    });
+  }
+
+  /**
+   * Convert a type string to a schema
+   */
+  protected convertTypeText(text: string, scope: ConversionScope, pointer: string): JsonSchema {
+    return withParsedText(text, 'type', sourceFile => {
+      const typeNode = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+      return typeNode ? this.convertTypeNode(typeNode, scope, pointer) : this.unsupportedSchema('other', text, scope, pointer);
+    });
+  }
+
+  /**
+   * @method convertTypeNode
+   * @description Converts a type node to a schema
+   * @param {TypeNode} node - Type node
+   * @param {ConversionScope} scope - Type parameter bindings
+   * @param {string} pointer - JSON pointer of the schema being produced (for the report)
+   * @returns {JsonSchema}
+   * @protected
+   */
+  protected convertTypeNode(node: TypeNode, scope: ConversionScope, pointer: string): JsonSchema {
+    const keyword = KEYWORD_SCHEMAS[node.getKind()];
+    if (keyword) {
+      return { ...keyword };
+    }
+
+    if (NON_JSON_KEYWORDS.has(node.getKind())) {
+      return this.unsupportedSchema('non-json-type', node.getText(), scope, pointer);
+    }
+
+    if (Node.isParenthesizedTypeNode(node)) {
+      return this.convertTypeNode(node.getTypeNode(), scope, pointer);
+    }
+
+    if (Node.isLiteralTypeNode(node)) {
+      const value = getLiteralValue(node);
+      if (value === null) {
+        return { type: 'null' };
+      }
+      return value === undefined ? this.unsupportedSchema('other', node.getText(), scope, pointer) : { const: value };
+    }
+
+    if (Node.isUnionTypeNode(node)) {
+      return this.convertUnion(node.getTypeNodes(), scope, pointer);
+    }
+
+    if (Node.isIntersectionTypeNode(node)) {
+      const members = node.getTypeNodes();
+      const branded = getBrand(members);
+      if (branded) {
+        // Brands exist only at compile time; the value is the primitive itself
+        return { ...KEYWORD_SCHEMAS[branded.base.getKind()], $comment: `Branded ${branded.base.getText()} ${branded.brand}` };
+      }
+      return { allOf: members.map((member, index) => this.convertTypeNode(member, scope, `${pointer}/allOf/${index}`)) };
+    }
+
+    if (Node.isArrayTypeNode(node)) {
+      return { type: 'array', items: this.convertTypeNode(node.getElementTypeNode(), scope, `${pointer}/items`) };
+    }
+
+    if (Node.isTypeOperatorTypeNode(node) && node.getOperator() === SyntaxKind.ReadonlyKeyword) {
+      return this.convertTypeNode(node.getTypeNode(), scope, pointer);
+    }
+
+    if (Node.isTupleTypeNode(node)) {
+      return this.convertTuple(node.getElements(), scope, pointer);
+    }
+
+    if (Node.isTypeLiteral(node)) {
+      return this.convertTypeLiteral(node, scope, pointer);
+    }
+
+    if (Node.isTypeReference(node)) {
+      return this.convertTypeReference(node, scope, pointer);
+    }
+
+    return this.unsupportedSchema(getConstructKind(node), node.getText(), scope, pointer);
+  }
+
+  /**
+   * Unions: literal unions become `enum`, keyword unions a `type` list, anything else `anyOf`
+   */
+  protected convertUnion(members: TypeNode[], scope: ConversionScope, pointer: string): JsonSchema {
+    // `undefined` makes a property optional rather than changing its value schema
+    const rest = members.filter(member => member.getKind() !== SyntaxKind.UndefinedKeyword);
+    if (rest.length === 1) {
+      return this.convertTypeNode(rest[0], scope, pointer);
+    }
+
+    const schemas = rest.map((member, index) => this.convertTypeNode(member, scope, `${pointer}/anyOf/${index}`));
+
+    const isNull = (schema: JsonSchema): boolean => isOnlyKeyword(schema, 'type') && schema.type === 'null';
+    if (schemas.every(schema => isOnlyKeyword(schema, 'const') || isNull(schema))) {
+      return { enum: schemas.map(schema => isNull(schema) ? null : schema.const) };
+    }
+
+    if (schemas.every(schema => isOnlyKeyword(schema, 'type') && typeof schema.type === 'string')) {
+      return { type: [...new Set(schemas.map(schema => schema.type as JsonSchemaTypeName))] };
+    }
+
+    return { anyOf: schemas };
+  }
+
+  /**
+   * Tuples: `prefixItems`, with `items` for rest elements
+   */
+  protected convertTuple(elements: TypeNode[], scope: ConversionScope, pointer: string): JsonSchema {
+    const prefixItems: JsonSchema[] = [];
+    let minItems = 0;
+    let rest: JsonSchema | undefined;
+
+    for (const element of elements) {
+      const member = Node.isNamedTupleMember(element) ? element.getTypeNode() : element;
+      const isNamedRest = Node.isNamedTupleMember(element) && element.getDotDotDotToken() !== undefined;
+      const itemPointer = `${pointer}/prefixItems/${prefixItems.length}`;
+
+      if (Node.isRestTypeNode(member) || isNamedRest) {
+        const restType = Node.isRestTypeNode(member) ? member.getTypeNode() : member;
+        rest = Node.isArrayTypeNode(restType)
+          ? this.convertTypeNode(restType.getElementTypeNode(), scope, `${pointer}/items`)
+          : this.unsupportedSchema('other', restType.getText(), scope, `${pointer}/items`);
+      } else if (member.getKind() === SyntaxKind.OptionalType) {
+        prefixItems.push(this.convertTypeNode(member.getFirstChildOrThrow() as TypeNode, scope, itemPointer));
+      } else {
+        prefixItems.push(this.convertTypeNode(member, scope, itemPointer));
+        if (!(Node.isNamedTupleMember(element) && element.hasQuestionToken())) {
+          minItems = prefixItems.length;
+        }
+      }
+    }
+
+    const schema: JsonSchema = { type: 'array', prefixItems, minItems };
+    if (rest) {
+      schema.items = rest;
+    } else {
+      schema.items = false;
+      schema.maxItems = prefixItems.length;
+    }
+    return schema;
+  }
+
+  /**
+   * Object type literals and index signatures
+   */
+  protected convertTypeLiteral(node: Node, scope: ConversionScope, pointer: string): JsonSchema {
+    if (!Node.isTypeLiteral(node)) {
+      return this.unsupportedSchema('other', node.getText(), scope, pointer);
+    }
+
+    for (const signature of [...node.getMethods(), ...node.getCallSignatures(), ...node.getConstructSignatures()]) {
+      this.report('function', signature.getText(), scope.type, pointer);
+    }
+
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const prop of node.getProperties()) {
+      const name = toPropertyKey(prop.getNameNode());
+      const typeNode = prop.getTypeNode();
+      properties[name] = typeNode ? this.convertTypeNode(typeNode, scope, `${pointer}/properties/${escapePointer(name)}`) : {};
+      if (!prop.hasQuestionToken() && !(typeNode && includesUndefined(typeNode))) {
+        required.push(name);
+      }
+    }
+
+    const schema: JsonSchema = { type: 'object' };
+    if (Object.keys(properties).length > 0) {
+      schema.properties = properties;
+    }
+    if (required.length > 0) {
+      schema.required = required;
+    }
+
+    const valueNode = node.getIndexSignatures()[0]?.getReturnTypeNode();
+    if (valueNode) {
+      schema.additionalProperties = this.convertTypeNode(valueNode, scope, `${pointer}/additionalProperties`);
+    }
+
+    return schema;
+  }
+
+  /**
+   * Named types: extracted types, type parameters and well-known globals
+   */
+  protected convertTypeReference(node: Node, scope: ConversionScope, pointer: string): JsonSchema {
+    if (!Node.isTypeReference(node)) {
+      return this.unsupportedSchema('other', node.getText(), scope, pointer);
+    }
+
+    const typeName = node.getTypeName();
+    const name = typeName.getText();
+    const args = node.getTypeArguments();
+
+    // Enum members: Status.Active
+    if (Node.isQualifiedName(typeName)) {
+      const enumType = this.types.get(typeName.getLeft().getText());
+      const value = enumType?.kind === 'enum' ? getEnumMemberValue(enumType, typeName.getRight().getText()) : undefined;
+      return value !== undefined ? { const: value } : this.unsupportedSchema('external-reference', name, scope, pointer);
+    }
+
+    if (scope.parameters.has(name)) {
+      return { ...(scope.parameters.get(name)?.schema ?? {}) };
+    }
+
+    if (this.types.has(name)) {
+      return this.referenceType(name, args, scope, pointer);
+    }
+
+    const convertArg = (index: number, suffix: string): JsonSchema =>
+      args[index] ? this.convertTypeNode(args[index], scope, `${pointer}${suffix}`) : {};
+
+    switch (name) {
+      case 'Array':
+      case 'ReadonlyArray':
+        return { type: 'array', items: convertArg(0, '/items') };
+      case 'Set':
+      case 'ReadonlySet':
+        // Sets serialize as arrays when converted with Array.from
+        return { type: 'array', items: convertArg(0, '/items'), uniqueItems: true };
+      case 'Record': {
+        const keys = args[0] ? getStringLiterals(args[0]) : undefined;
+        if (keys) {
+          const properties = Object.fromEntries(keys.map(key => [key, convertArg(1, `/properties/${escapePointer(key)}`)]));
+          return { type: 'object', properties, required: keys };
+        }
+        return { type: 'object', additionalProperties: convertArg(1, '/additionalProperties') };
+      }
+      case 'Partial':
+      case 'Required':
+      case 'Pick':
+      case 'Omit':
+        return this.convertUtilityType(name, args, scope, pointer) ??
+          this.unsupportedSchema('mapped-type', node.getText(), scope, pointer);
+      case 'Date':
+        // JSON.stringify serializes dates as ISO strings
+        return { type: 'string', format: 'date-time' };
+      case 'BrandedUnknown':
+        return { $comment: `Branded unknown ${args[0]?.getText() ?? 'string'}` };
+      case 'Promise':
+      case 'Map':
+      case 'ReadonlyMap':
+      case 'WeakMap':
+      case 'WeakSet':
+        return this.unsupportedSchema('non-json-type', node.getText(), scope, pointer);
+      case 'Function':
+        return this.unsupportedSchema('function', node.getText(), scope, pointer);
+      default:
+        return this.unsupportedSchema('external-reference', node.getText(), scope, pointer);
+    }
+  }
+
+  /**
+   * Partial/Required/Pick/Omit of an object type, applied to its `properties` and `required`
+   */
+  protected convertUtilityType(
+    name: string,
+    args: TypeNode[],
+    scope: ConversionScope,
+    pointer: string
+  ): JsonSchema | undefined {
+    const object = args[0] ? this.getObjectSchema(args[0], scope, pointer) : undefined;
+    const keys = args[1] ? getStringLiterals(args[1]) : undefined;
+    if (!object || ((name === 'Pick' || name === 'Omit') && !keys)) {
+      return undefined;
+    }
+
+    const properties = object.properties ?? {};
+    const included = Object.keys(properties).filter(key =>
+      name === 'Pick' ? keys!.includes(key) : name === 'Omit' ? !keys!.includes(key) : true
+    );
+
+    const required = name === 'Partial'
+      ? []
+      : name === 'Required'
+        ? included
+        : (object.required ?? []).filter(key => included.includes(key));
+
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: Object.fromEntries(included.map(key => [key, properties[key]]))
+    };
+    if (required.length > 0) {
+      schema.required = required;
+    }
+    if (object.additionalProperties !== undefined && name !== 'Pick') {
+      schema.additionalProperties = object.additionalProperties;
+    }
+    return schema;
+  }
+
+  /**
+   * Inline object schema of a type literal or of an extracted interface
+   * without base types, or undefined for anything else
+   */
+  protected getObjectSchema(node: TypeNode, scope: ConversionScope, pointer: string): JsonSchema | undefined {
+    if (Node.isTypeLiteral(node)) {
+      return this.convertTypeLiteral(node, scope, pointer);
+    }
+    if (!Node.isTypeReference(node) || node.getTypeArguments().length > 0) {
+      return undefined;
+    }
+
+    const target = this.types.get(node.getTypeName().getText());
+    if (target?.kind !== 'interface' || target.extends?.length || target.typeParameters?.length) {
+      return undefined;
+    }
+    return this.convertInterface(target, { type: target, parameters: new Map(), depth: scope.depth }, pointer);
+  }
+
+  /**
+   * `$ref` to an extracted type, instantiating generic types with their arguments
+   */
+  protected referenceType(name: string, args: TypeNode[], scope: ConversionScope, pointer: string): JsonSchema {
+    const target = this.types.get(name)!;
+    const typeParameters = (target.typeParameters ?? []).map(getTypeParameterName);
+    if (typeParameters.length === 0 || args.length === 0) {
+      return this.reference(name);
+    }
+
+    // Arguments that mention open type parameters cannot be instantiated
+    const keys = args.map(arg => this.getTypeKey(arg, scope));
+    if (keys.some(key => key === undefined)) {
+      return this.reference(name);
+    }
+
+    if (scope.depth >= MAX_INSTANTIATION_DEPTH) {
+      this.report('generic-depth', `${name}<${keys.join(', ')}>`, scope.type, pointer);
+      return this.reference(name);
+    }
+
+    const key = `${name}<${keys.join(', ')}>`;
+    if (!this.definitions.has(key)) {
+      const parameters = new Map<string, ParameterBinding | undefined>(typeParameters.map((param, index) => [
+        param,
+        args[index]
+          ? { key: keys[index]!, schema: this.convertTypeNode(args[index], scope, pointer) }
+          : { key: 'unknown', schema: {} }
+      ]));
+
+      this.definitions.set(key, {});
+      this.definitions.set(key, this.convertDefinition(target, { type: target, parameters, depth: scope.depth + 1 }, key));
+    }
+
+    return this.reference(key);
+  }
+
+  /**
+   * `$ref` to a definition
+   */
+  protected reference(key: string): JsonSchema {
+    return { $ref: `#/$defs/${encodeURIComponent(escapePointer(key))}` };
+  }
+
+  /**
+   * Text of a type argument with bound type parameters substituted, or
+   * undefined when it mentions a parameter of an open definition
+   */
+  protected getTypeKey(node: TypeNode, scope: ConversionScope): string | undefined {
+    const start = node.getStart();
+    let text = node.getText();
+
+    const identifiers = [
+      ...(Node.isIdentifier(node) ? [node] : []),
+      ...node.getDescendantsOfKind(SyntaxKind.Identifier)
+    ].filter(identifier => Node.isTypeReference(identifier.getParent()) && scope.parameters.has(identifier.getText()));
+
+    for (const identifier of identifiers.reverse()) {
+      const binding = scope.parameters.get(identifier.getText());
+      if (!binding) {
+        return undefined;
+      }
+
+      const replacement = /\s/.test(binding.key) ? `(${binding.key})` : binding.key;
+      const offset = identifier.getStart() - start;
+      text = text.slice(0, offset) + replacement + text.slice(offset + identifier.getWidth());
+    }
+
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  /**
+   * Record an unsupported construct and return the unconstrained schema
+   */
+  protected unsupportedSchema(
+    construct: UnsupportedConstructKind,
+    text: string,
+    scope: ConversionScope,
+    pointer: string
+  ): JsonSchema {
+    this.report(construct, text, scope.type, pointer);
+    return { $comment: `Not representable in JSON Schema: ${text.replace(/\s+/g, ' ').trim()}` };
+  }
+
+  /**
+   * Add an entry to the unsupported constructs report
+   */
+  protected report(construct: UnsupportedConstructKind, text: string, type: ExtractedType, pointer: string): void {
+    this.unsupported.push({
+      construct,
+      type: type.name,
+      pointer,
+      text: text.replace(/\s+/g, ' ').trim(),
+      file: type.sourceFile,
+      line: type.location.line
+    });
+  }
+}
+
+/**
+ * @function formatUnsupportedConstructs
+ * @description Formats the unsupported constructs report for CI logs
+ * @param {UnsupportedConstruct[]} unsupported - Constructs reported by JsonSchemaGenerator
+ * @returns {string} One line per construct, '' when everything was represented
+ */
+export function formatUnsupportedConstructs(unsupported: UnsupportedConstruct[]): string {
+  if (unsupported.length === 0) {
+    return '';
+  }
+
+  const lines = unsupported.map(entry =>
+    `  ${entry.construct} ${entry.pointer}: ${entry.text} (${entry.file}:${entry.line})`
+  );
+
+  return [`${unsupported.length} construct(s) could not be represented in JSON Schema:`, ...lines].join('\n');
+}
+
+/**
+ * Escape a JSON pointer reference token (RFC 6901)
+ */
+function escapePointer(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Whether a schema consists of a single keyword
+ */
+function isOnlyKeyword(schema: JsonSchema, keyword: keyof JsonSchema): boolean {
+  const keys = Object.keys(schema);
+  return keys.length === 1 && keys[0] === keyword;
+}
+
+/**
+ * Whether a type admits `undefined` at the top level
+ */
+function includesUndefined(node: TypeNode): boolean {
+  if (Node.isParenthesizedTypeNode(node)) {
+    return includesUndefined(node.getTypeNode());
+  }
+  return Node.isUnionTypeNode(node) && node.getTypeNodes().some(member => member.getKind() === SyntaxKind.UndefinedKeyword);
+}
+
+/**
+ * Value of a literal type, or undefined for literals without a JSON value
+ */
+function getLiteralValue(node: Node): string | number | boolean | null | undefined {
+  if (!Node.isLiteralTypeNode(node)) {
+    return undefined;
+  }
+
+  const literal = node.getLiteral();
+  if (Node.isNullLiteral(literal)) {
+    return null;
+  }
+  if (Node.isStringLiteral(literal)) {
+    return literal.getLiteralValue();
+  }
+  if (Node.isTrueLiteral(literal) || Node.isFalseLiteral(literal)) {
+    return Node.isTrueLiteral(literal);
+  }
+
+  const value = Number(literal.getText());
+  return Number.isNaN(value) ? undefined : value;
+}
+
+/**
+ * String literal members of a type (`'a' | 'b'`), or undefined for other types
+ */
+function getStringLiterals(node: TypeNode): string[] | undefined {
+  const members = Node.isUnionTypeNode(node) ? node.getTypeNodes() : [node];
+  const values: string[] = [];
+
+  for (const member of members) {
+    const value = getLiteralValue(member);
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    values.push(value);
+  }
+
+  return values;
+}
+
+/**
+ * Primitive and brand literal of a branded primitive (`string & { readonly __brand: 'Id' }`)
+ */
+function getBrand(members: TypeNode[]): { base: TypeNode; brand: string } | undefined {
+  if (members.length !== 2) {
+    return undefined;
+  }
+
+  const marker = members.find(member => Node.isTypeLiteral(member) && member.getMembers().length === 1);
+  const brand = marker && Node.isTypeLiteral(marker) ? marker.getProperty('__brand')?.getTypeNode() : undefined;
+  const base = members.find(member => member !== marker);
+
+  return brand && base && BRANDABLE_KINDS.has(base.getKind()) ? { base, brand: brand.getText() } : undefined;
+}
+
+/**
+ * Key a property name stands for: the value of a quoted or numeric name, the text of any other
+ */
+function toPropertyKey(name: Node): string {
+  return Node.isStringLiteral(name) || Node.isNumericLiteral(name) ? String(name.getLiteralValue()) : name.getText();
+}
+
+/**
+ * Key of an extracted property name, which keeps the quotes of the source
+ */
+function parsePropertyKey(name: string): string {
+  return withParsedText(`{ ${name}: unknown }`, 'type', sourceFile =>
+    toPropertyKey(sourceFile.getFirstDescendantByKindOrThrow(SyntaxKind.PropertySignature).getNameNode())
+  );
+}
+
+/**
+ * Value of a member of an extracted enum
+ */
+function getEnumMemberValue(type: ExtractedType, memberName: string): string | number | undefined {
+  return withParsedText(type.definition, 'declaration', sourceFile =>
+    sourceFile.getFirstDescendantByKind(SyntaxKind.EnumDeclaration)?.getMember(memberName)?.getValue()
+  );
+}
+
+/**
+ * Report category of a type node without a JSON Schema equivalent
+ */
+function getConstructKind(node: TypeNode): UnsupportedConstructKind {
+  if (Node.isMappedTypeNode(node)) {
+    return 'mapped-type';
+  }
+  if (Node.isConditionalTypeNode(node)) {
+    return 'conditional-type';
+  }
+  if (Node.isIndexedAccessTypeNode(node)) {
+    return 'indexed-access';
+  }
+  if (Node.isTypeQuery(node)) {
+    return 'type-query';
+  }
+  if (Node.isTypeOperatorTypeNode(node)) {
+    return 'type-operator';
+  }
+  if (Node.isTemplateLiteralTypeNode(node)) {
+    return 'template-literal';
+  }
+  if (Node.isFunctionTypeNode(node) || Node.isConstructorTypeNode(node)) {
+    return 'function';
+  }
+  if (Node.isImportTypeNode(node)) {
+    return 'external-reference';
+  }
+  return 'other';
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Type Extraction Framework - Interface Members
+ *
+ * @description
+ * Reads and formats the interface members that are not properties: methods,
+ * index signatures, call signatures and construct signatures. Shared by the
+ * extractor, the generators and drift detection so every consumer sees the
+ * same member model.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import {
+  Node,
+  type InterfaceDeclaration,
+  type CallSignatureDeclaration,
+  type ConstructSignatureDeclaration,
+  type MethodSignature,
+  type TypeNode
+} from 'ts-morph';
+import type { ExtractedType, IndexSignatureInfo, MethodInfo, SignatureInfo } from './types.js';
+import { getTypeParameterName } from './type-text.js';
+
+/**
+ * Non-property members of an interface
+ */
+export interface InterfaceMembers {
+  methods: MethodInfo[];
+  indexSignatures: IndexSignatureInfo[];
+  callSignatures: SignatureInfo[];
+  constructSignatures: SignatureInfo[];
+}
+
+/**
+ * A formatted member, without indentation or trailing semicolon
+ */
+export interface MemberLine {
+  text: string;
+  documentation?: string;
+}
+
+/**
+ * @function readInterfaceMembers
+ * @description Reads the methods, index, call and construct signatures of an interface
+ * @param {InterfaceDeclaration} node - Interface declaration
+ * @returns {InterfaceMembers} Members in declaration order, one method entry per overload
+ *
+ * @remarks
+ * Types are kept as written; a missing annotation is read as `any`, as TypeScript does.
+ */
+export function readInterfaceMembers(node: InterfaceDeclaration): InterfaceMembers {
+  return {
+    methods: node.getMethods().map(method => ({
+      name: method.getName(),
+      optional: method.hasQuestionToken(),
+      ...readSignature(method)
+    })),
+    indexSignatures: node.getIndexSignatures().map(signature => ({
+      keyName: signature.getKeyName(),
+      keyType: signature.getKeyTypeNode().getText(),
+      type: getTypeText(signature.getReturnTypeNode()),
+      readonly: signature.isReadonly(),
+      documentation: getDocumentation(signature)
+    })),
+    callSignatures: node.getCallSignatures().map(readSignature),
+    constructSignatures: node.getConstructSignatures().map(readSignature)
+  };
+}
+
+/**
+ * Parameters, return type and type parameters of a signature
+ */
+function readSignature(node: MethodSignature | CallSignatureDeclaration | ConstructSignatureDeclaration): SignatureInfo {
+  const typeParameters = node.getTypeParameters().map(param => param.getText());
+
+  return {
+    typeParameters: typeParameters.length > 0 ? typeParameters : undefined,
+    parameters: node.getParameters().map(param => ({
+      name: param.getName(),
+      type: getTypeText(param.getTypeNode()),
+      optional: param.hasQuestionToken() || param.hasInitializer(),
+      rest: param.isRestParameter()
+    })),
+    returnType: getTypeText(node.getReturnTypeNode()),
+    documentation: getDocumentation(node)
+  };
+}
+
+/**
+ * Text of a type annotation, `any` when there is none
+ */
+function getTypeText(typeNode: TypeNode | undefined): string {
+  return typeNode?.getText() ?? 'any';
+}
+
+/**
+ * First JSDoc description of a member
+ */
+function getDocumentation(node: Node): string | undefined {
+  return Node.isJSDocable(node) ? node.getJsDocs()[0]?.getDescription().trim() || undefined : undefined;
+}
+
+/**
+ * @function formatSignature
+ * @description Formats the type parameters, parameters and return type of a signature
+ * @param {SignatureInfo} signature - Signature to format
+ * @returns {string} `<T>(id: string, ...rest: T[]): Promise<T>`
+ */
+export function formatSignature(signature: SignatureInfo): string {
+  const typeParameters = signature.typeParameters?.length ? `<${signature.typeParameters.join(', ')}>` : '';
+  const parameters = signature.parameters
+    .map(param => `${param.rest ? '...' : ''}${param.name}${param.optional ? '?' : ''}: ${param.type}`)
+    .join(', ');
+
+  return `${typeParameters}(${parameters}): ${signature.returnType}`;
+}
+
+/**
+ * @function formatMemberLines
+ * @description Formats the non-property members of an interface
+ * @param {ExtractedType} type - Interface type
+ * @returns {MemberLine[]} Methods, then index, call and construct signatures
+ *
+ * @example
+ * formatMemberLines(type).map(line => `  ${line.text};`);
+ * // ['  fetch(id: string): Promise<Guest>;', '  [key: string]: unknown;']
+ */
+export function formatMemberLines(type: ExtractedType): MemberLine[] {
+  return [
+    ...(type.methods ?? []).map(method => ({
+      text: `${method.name}${method.optional ? '?' : ''}${formatSignature(method)}`,
+      documentation: method.documentation
+    })),
+    ...(type.indexSignatures ?? []).map(signature => ({
+      text: `${signature.readonly ? 'readonly ' : ''}[${signature.keyName}: ${signature.keyType}]: ${signature.type}`,
+      documentation: signature.documentation
+    })),
+    ...(type.callSignatures ?? []).map(signature => ({
+      text: formatSignature(signature),
+      documentation: signature.documentation
+    })),
+    ...(type.constructSignatures ?? []).map(signature => ({
+      text: `new ${formatSignature(signature)}`,
+      documentation: signature.documentation
+    }))
+  ];
+}
+
+/**
+ * @function mapMemberTypes
+ * @description Rewrites every type text of the non-property members in place, including
+ * type parameter constraints and defaults
+ * @param {ExtractedType} type - Interface type
+ * @param {Function} map - Receives a type text and the type parameter names declared
+ * by its signature, returns the new text
+ */
+export function mapMemberTypes(type: ExtractedType, map: (text: string, typeParameters: string[]) => string): void {
+  const mapSignature = (signature: SignatureInfo): void => {
+    const typeParameters = (signature.typeParameters ?? []).map(getTypeParameterName);
+    
+    // A generic function type is the smallest type text that holds a type parameter declaration
+    signature.typeParameters = signature.typeParameters?.map(declaration => {
+      const mapped = map(`<${declaration}>() => void`, typeParameters);
+      return mapped.slice(1, mapped.lastIndexOf('>() => void'));
+    });
+    for (const param of signature.parameters) {
+      param.type = map(param.type, typeParameters);
+    }
+    signature.returnType = map(signature.returnType, typeParameters);
+  };
+
+  type.methods?.forEach(mapSignature);
+  type.callSignatures?.forEach(mapSignature);
+  type.constructSignatures?.forEach(mapSignature);
+  for (const signature of type.indexSignatures ?? []) {
+    signature.type = map(signature.type, []);
+  }
+}
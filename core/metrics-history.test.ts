@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  appendMetricsRecord,
+  describeRegression,
+  findMetricsRegressions,
+  formatMetricsTrend,
+  loadMetricsHistory,
+  type MetricsRecord
+} from './metrics-history.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function record(overrides: Partial<MetricsRecord> = {}): MetricsRecord {
+  return {
+    recordedAt: '2025-01-01T00:00:00.000Z',
+    api: 'test',
+    filesParsed: 2,
+    typesExtracted: 100,
+    transformsApplied: 0,
+    validationsPassed: 10,
+    validationsFailed: 0,
+    anyTypeViolations: 10,
+    duration: 50,
+    passed: true,
+    ...overrides
+  };
+}
+
+const thresholds = { anyTypeViolations: 10, validationsFailed: 10, typesExtracted: 20 };
+
+describe('findMetricsRegressions', () => {
+  it('compares with the last passing run', () => {
+    const history = [record({ anyTypeViolations: 5 }), record({ anyTypeViolations: 20, passed: false })];
+
+    expect(findMetricsRegressions(history, record({ anyTypeViolations: 6 }), thresholds)).toEqual([
+      { metric: 'anyTypeViolations', previous: 5, current: 6, change: 20, threshold: 10 }
+    ]);
+    expect(findMetricsRegressions(history, record({ anyTypeViolations: 5 }), thresholds)).toEqual([]);
+  });
+
+  it('treats any rise from zero as a regression and drops of extracted types as regressions', () => {
+    const regressions = findMetricsRegressions(
+      [record()],
+      record({ validationsFailed: 1, typesExtracted: 70 }),
+      { validationsFailed: 1000, typesExtracted: 20 }
+    );
+
+    expect(regressions).toEqual([
+      { metric: 'validationsFailed', previous: 0, current: 1, change: Infinity, threshold: 1000 },
+      { metric: 'typesExtracted', previous: 100, current: 70, change: -30, threshold: 20 }
+    ]);
+    expect(regressions.map(describeRegression)).toEqual([
+      'validationsFailed rose from 0 to 1 (new, threshold 1000%)',
+      'typesExtracted dropped from 100 to 70 (-30%, threshold 20%)'
+    ]);
+  });
+
+  it('ignores metrics without a threshold and runs without a baseline', () => {
+    expect(findMetricsRegressions([record()], record({ anyTypeViolations: 100 }), {})).toEqual([]);
+    expect(findMetricsRegressions([record({ passed: false })], record({ anyTypeViolations: 100 }), thresholds)).toEqual([]);
+  });
+});
+
+describe('metrics history file', () => {
+  it('appends records and loads them per API', () => {
+    const historyPath = join(dir, 'nested', 'type-extraction-metrics.jsonl');
+    expect(loadMetricsHistory(historyPath)).toEqual([]);
+
+    appendMetricsRecord(historyPath, record());
+    appendMetricsRecord(historyPath, record({ api: 'other' }));
+    appendMetricsRecord(historyPath, record({ typesExtracted: 110 }));
+
+    expect(loadMetricsHistory(historyPath)).toHaveLength(3);
+    expect(loadMetricsHistory(historyPath, 'test').map(entry => entry.typesExtracted)).toEqual([100, 110]);
+  });
+});
+
+describe('formatMetricsTrend', () => {
+  it('shows the change of each metric since the previous run', () => {
+    const lines = formatMetricsTrend([
+      record(),
+      record({ recordedAt: '2025-01-02T00:00:00.000Z', typesExtracted: 110, anyTypeViolations: 15, passed: false })
+    ]);
+
+    expect(lines).toEqual([
+      'Run                       Types       Any violations  Validations failed  Files  Time',
+      '2025-01-01T00:00:00.000Z  100         10              0                   2      50ms',
+      '2025-01-02T00:00:00.000Z  110 (+10%)  15 (+50%)       0                   2      50ms  FAILED'
+    ]);
+  });
+});
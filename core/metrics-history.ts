@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Type Extraction Framework - Metrics History
+ *
+ * @description
+ * Append-only history of extraction metrics for RFC-2025-TS-A01 section 8.7.
+ * When `metrics` is configured, every run is recorded as one JSON line in
+ * `type-extraction-metrics.jsonl` (next to `type-extraction-map.json`), so
+ * trends can be shown and a run can fail when violations rise, or extracted
+ * types drop, beyond a threshold.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { resolve, dirname } from 'node:path';
+import type { ExtractionContext } from './types.js';
+
+/**
+ * Default file name, resolved next to the extraction map
+ */
+export const METRICS_HISTORY_FILENAME = 'type-extraction-metrics.jsonl';
+
+/**
+ * @interface MetricsRecord
+ * @description Metrics of a single run, one line of the history
+ * @since 2.0.0
+ */
+export interface MetricsRecord {
+  /** ISO timestamp */
+  recordedAt: string;
+  api: string;
+  filesParsed: number;
+  typesExtracted: number;
+  transformsApplied: number;
+  validationsPassed: number;
+  validationsFailed: number;
+  anyTypeViolations: number;
+
+  /** Extraction time in ms */
+  duration: number;
+
+  /** Whether the run stayed within the thresholds; failed runs are never a baseline */
+  passed: boolean;
+}
+
+/**
+ * @interface MetricsThresholds
+ * @description Largest accepted regression per metric, in percent of the last passing run
+ *
+ * @example
+ * // RFC section 8.7: a 10% increase in violations needs attention
+ * { anyTypeViolations: 10, validationsFailed: 10, typesExtracted: 20 }
+ */
+export interface MetricsThresholds {
+  /** Largest accepted rise of `anyTypeViolations` */
+  anyTypeViolations?: number;
+
+  /** Largest accepted rise of `validationsFailed` */
+  validationsFailed?: number;
+
+  /** Largest accepted drop of `typesExtracted` */
+  typesExtracted?: number;
+}
+
+/**
+ * @interface MetricsRegression
+ * @description A metric that regressed beyond its threshold
+ * @since 2.0.0
+ */
+export interface MetricsRegression {
+  metric: keyof MetricsThresholds;
+  previous: number;
+  current: number;
+
+  /** Change in percent of the previous value; Infinity when rising from zero */
+  change: number;
+  threshold: number;
+}
+
+/**
+ * Direction in which each thresholded metric regresses
+ */
+const REGRESSES_WHEN: Record<keyof MetricsThresholds, 'rises' | 'drops'> = {
+  anyTypeViolations: 'rises',
+  validationsFailed: 'rises',
+  typesExtracted: 'drops'
+};
+
+/**
+ * @function getDefaultMetricsHistoryPath
+ * @description Path of the metrics history for an extraction map
+ * @param {string} extractionMapPath - Path to type-extraction-map.json
+ * @returns {string} Path to type-extraction-metrics.jsonl in the same directory
+ */
+export function getDefaultMetricsHistoryPath(extractionMapPath: string): string {
+  return resolve(dirname(extractionMapPath), METRICS_HISTORY_FILENAME);
+}
+
+/**
+ * @function createMetricsRecord
+ * @description Creates the history record of a run
+ * @param {ExtractionContext} context - Extraction results
+ * @param {boolean} passed - Whether the run stayed within the thresholds
+ * @returns {MetricsRecord} Record to append
+ */
+export function createMetricsRecord(context: ExtractionContext, passed: boolean): MetricsRecord {
+  const { startTime, ...metrics } = context.metrics;
+
+  return {
+    recordedAt: new Date().toISOString(),
+    api: context.rules.apiId,
+    ...metrics,
+    duration: Date.now() - startTime,
+    passed
+  };
+}
+
+/**
+ * @function loadMetricsHistory
+ * @description Reads the metrics history
+ * @param {string} historyPath - Path to the history file
+ * @param {string} [api] - Only return the runs of this API
+ * @returns {MetricsRecord[]} Records, oldest first; empty if the file does not exist
+ * @throws {Error} If a line is not valid JSON
+ */
+export function loadMetricsHistory(historyPath: string, api?: string): MetricsRecord[] {
+  if (!existsSync(historyPath)) {
+    return [];
+  }
+
+  return readFileSync(historyPath, 'utf-8')
+    .split('\n')
+    .flatMap((line, index) => {
+      if (!line.trim()) {
+        return [];
+      }
+      try {
+        return [JSON.parse(line) as MetricsRecord];
+      } catch (error) {
+        throw new Error(`Failed to read metrics history ${historyPath}:${index + 1}: ${error}`);
+      }
+    })
+    .filter(record => api === undefined || record.api === api);
+}
+
+/**
+ * @function appendMetricsRecord
+ * @description Appends a run to the history, creating the file if needed
+ * @param {string} historyPath - Path to the history file
+ * @param {MetricsRecord} record - Record to append
+ */
+export function appendMetricsRecord(historyPath: string, record: MetricsRecord): void {
+  mkdirSync(dirname(historyPath), { recursive: true });
+  appendFileSync(historyPath, JSON.stringify(record) + '\n', 'utf-8');
+}
+
+/**
+ * @function findMetricsRegressions
+ * @description Compares a run with the last passing run of the same API
+ * @param {MetricsRecord[]} history - Previous runs of the API, oldest first
+ * @param {Record<string, number>} current - Metrics of the current run (`context.metrics` or a record)
+ * @param {MetricsThresholds} thresholds - Largest accepted regression per metric, in percent
+ * @returns {MetricsRegression[]} Metrics beyond their threshold; empty without a baseline
+ *
+ * @remarks
+ * Failed runs are skipped when looking for the baseline, so a regression
+ * keeps failing until it is fixed instead of becoming the new normal after
+ * one run. A metric rising from zero is a regression for any threshold.
+ */
+export function findMetricsRegressions(
+  history: MetricsRecord[],
+  current: Record<keyof MetricsThresholds, number>,
+  thresholds: MetricsThresholds
+): MetricsRegression[] {
+  const baseline = [...history].reverse().find(record => record.passed);
+  if (!baseline) {
+    return [];
+  }
+
+  const regressions: MetricsRegression[] = [];
+
+  for (const metric of Object.keys(REGRESSES_WHEN) as Array<keyof MetricsThresholds>) {
+    const threshold = thresholds[metric];
+    if (threshold === undefined) {
+      continue;
+    }
+
+    const previous = baseline[metric];
+    const change = getPercentChange(previous, current[metric]);
+    const regression = REGRESSES_WHEN[metric] === 'rises' ? change : -change;
+    if (regression > threshold) {
+      regressions.push({ metric, previous, current: current[metric], change, threshold });
+    }
+  }
+
+  return regressions;
+}
+
+/**
+ * @function describeRegression
+ * @description Formats a regression for console output
+ * @param {MetricsRegression} regression - Regression to describe
+ * @returns {string} One-line description
+ */
+export function describeRegression(regression: MetricsRegression): string {
+  const direction = REGRESSES_WHEN[regression.metric] === 'rises' ? 'rose' : 'dropped';
+  return `${regression.metric} ${direction} from ${regression.previous} to ${regression.current} ` +
+    `(${formatPercentChange(regression.change)}, threshold ${regression.threshold}%)`;
+}
+
+/**
+ * @function formatMetricsTrend
+ * @description Formats runs as a table with the change of each metric since the previous run
+ * @param {MetricsRecord[]} records - Runs, oldest first
+ * @returns {string[]} Header and one line per run
+ *
+ * @example
+ * formatMetricsTrend(loadMetricsHistory(path, 'guesty').slice(-10)).forEach(line => console.log(line));
+ */
+export function formatMetricsTrend(records: MetricsRecord[]): string[] {
+  const columns: Array<[string, (record: MetricsRecord) => number]> = [
+    ['Types', record => record.typesExtracted],
+    ['Any violations', record => record.anyTypeViolations],
+    ['Validations failed', record => record.validationsFailed],
+    ['Files', record => record.filesParsed]
+  ];
+
+  const rows = records.map((record, index) => {
+    const previous = records[index - 1];
+    return [
+      record.recordedAt,
+      ...columns.map(([, read]) => {
+        const change = previous ? getPercentChange(read(previous), read(record)) : 0;
+        return change === 0 ? String(read(record)) : `${read(record)} (${formatPercentChange(change)})`;
+      }),
+      `${record.duration}ms`,
+      record.passed ? '' : 'FAILED'
+    ];
+  });
+
+  const header = ['Run', ...columns.map(([title]) => title), 'Time', ''];
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+
+  return [header, ...rows].map(row => row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd());
+}
+
+/**
+ * Change from `previous` to `current` in percent of `previous`
+ */
+function getPercentChange(previous: number, current: number): number {
+  if (previous === current) {
+    return 0;
+  }
+  if (previous === 0) {
+    return current > 0 ? Infinity : -Infinity;
+  }
+  return ((current - previous) / previous) * 100;
+}
+
+/**
+ * Signed percentage with one decimal, `new` when rising from zero
+ */
+function formatPercentChange(change: number): string {
+  if (!Number.isFinite(change)) {
+    return 'new';
+  }
+  return `${change > 0 ? '+' : ''}${Number(change.toFixed(1))}%`;
+}
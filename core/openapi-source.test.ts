@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { convertOpenApiDocument } from './openapi-source.js';
+
+const documentOf = (schemas: Record<string, unknown>, openapi = '3.1.0'): unknown => ({
+  openapi,
+  info: { title: 'Test', version: '1.0.0' },
+  components: { schemas }
+});
+
+describe('convertOpenApiDocument', () => {
+  it('converts objects, enums, references, arrays and maps', () => {
+    const { source } = convertOpenApiDocument(documentOf({
+      Guest: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+          age: { type: ['integer', 'null'] },
+          status: { $ref: '#/components/schemas/Status' },
+          tags: { type: 'array', items: { type: 'string' } },
+          meta: { type: 'object', additionalProperties: { type: 'number' } }
+        }
+      },
+      Status: { type: 'string', enum: ['active', 'inactive'] }
+    }));
+
+    expect(source).toBe([
+      'export interface Guest {',
+      '  id: string;',
+      '  age?: number | null;',
+      '  status?: Status;',
+      '  tags?: string[];',
+      '  meta?: Record<string, number>;',
+      '}',
+      '',
+      "export type Status = 'active' | 'inactive';",
+      ''
+    ].join('\n'));
+  });
+
+  it('converts oneOf with a discriminator to a discriminated union', () => {
+    const { source, discriminators } = convertOpenApiDocument(documentOf({
+      Pet: {
+        oneOf: [{ $ref: '#/components/schemas/Cat' }, { $ref: '#/components/schemas/Dog' }],
+        discriminator: { propertyName: 'kind', mapping: { cat: '#/components/schemas/Cat', dog: '#/components/schemas/Dog' } }
+      },
+      Cat: { type: 'object', required: ['kind'], properties: { kind: { type: 'string' } } },
+      Dog: { type: 'object', required: ['kind'], properties: { kind: { type: 'string' } } }
+    }));
+
+    expect(source).toContain('export type Pet = Cat | Dog;');
+    expect(source).toContain("export interface Cat {\n  kind: 'cat';\n}");
+    expect(discriminators).toEqual({ Pet: { property: 'kind', variants: { cat: 'Cat', dog: 'Dog' } } });
+  });
+
+  it('supports OpenAPI 3.0 nullable, deprecation, allOf and schema names that are not identifiers', () => {
+    const { source } = convertOpenApiDocument(documentOf({
+      Base: { type: 'object', required: ['id'], properties: { id: { type: 'string' } } },
+      Legacy: { type: 'string', nullable: true, deprecated: true },
+      'order-item': { allOf: [{ $ref: '#/components/schemas/Base' }, { type: 'object', properties: { note: {} } }] }
+    }, '3.0.3'));
+
+    expect(source).toContain('/** @deprecated */\nexport type Legacy = string | null;');
+    expect(source).toContain('export interface OrderItem extends Base {\n  note?: unknown;\n}');
+  });
+
+  it('rejects documents that are not OpenAPI 3.x', () => {
+    expect(() => convertOpenApiDocument({ swagger: '2.0' })).toThrow();
+  });
+});
@@ -0,0 +1,531 @@
+/**
+ * @fileoverview Type Extraction Framework - OpenAPI Sources
+ *
+ * @description
+ * Converts the `components.schemas` of an OpenAPI 3.x document (JSON or YAML)
+ * to TypeScript declarations, so APIs that publish a spec but no TypeScript
+ * client go through the same AST extraction as `.ts` sources. Object schemas
+ * become interfaces, `oneOf`/`anyOf` unions, `allOf` extends clauses or
+ * intersections, and `oneOf` with a `discriminator` a discriminated union.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { readFileSync } from 'node:fs';
+import { LineCounter, parseDocument, isMap, isScalar } from 'yaml';
+import type { DiscriminatorConfig } from './types.js';
+
+/**
+ * @interface OpenApiSource
+ * @description TypeScript declarations generated from an OpenAPI document
+ * @since 2.0.0
+ */
+export interface OpenApiSource {
+  /** Declarations for `components.schemas`, one per schema */
+  source: string;
+
+  /** Discriminated unions declared with `oneOf` + `discriminator`, by type name */
+  discriminators: Record<string, Pick<DiscriminatorConfig, 'property' | 'variants'>>;
+
+  /** Location of each schema in the document, by type name (1-based) */
+  locations: Record<string, { line: number; column: number }>;
+
+  /** Constructs that could not be converted exactly */
+  warnings: string[];
+}
+
+/**
+ * Subset of the Schema Object used for conversion (OpenAPI 3.0 and 3.1)
+ */
+interface SchemaObject {
+  $ref?: string;
+  type?: string | string[];
+  nullable?: boolean;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: Schema;
+  items?: Schema;
+  prefixItems?: Schema[];
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+  allOf?: Schema[];
+  discriminator?: { propertyName: string; mapping?: Record<string, string> };
+  title?: string;
+  description?: string;
+  deprecated?: boolean;
+  readOnly?: boolean;
+}
+
+type Schema = SchemaObject | boolean;
+
+/** Prefix of references to component schemas */
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Conversion state for one document
+ */
+interface ConversionState {
+  schemas: Record<string, Schema>;
+
+  /** Schema name to TypeScript type name */
+  names: Map<string, string>;
+
+  /** Discriminant literals forced onto variant properties: type name to property to literals */
+  discriminants: Map<string, Map<string, string[]>>;
+
+  warnings: string[];
+}
+
+/**
+ * @function loadOpenApiSource
+ * @description Reads an OpenAPI document and converts its schemas to TypeScript
+ * @param {string} specPath - Path to a `.json`, `.yaml` or `.yml` OpenAPI 3.x document
+ * @returns {OpenApiSource} Declarations and metadata
+ * @throws {Error} If the file cannot be parsed or is not an OpenAPI 3.x document
+ *
+ * @example
+ * const { source, discriminators } = loadOpenApiSource('./specs/stripe.yaml');
+ */
+export function loadOpenApiSource(specPath: string): OpenApiSource {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(readFileSync(specPath, 'utf-8'), { lineCounter });
+
+  if (document.errors.length > 0) {
+    throw new Error(`Failed to parse OpenAPI document ${specPath}: ${document.errors[0].message}`);
+  }
+
+  const result = convertOpenApiDocument(document.toJS());
+
+  // YAML is a superset of JSON, so both formats have source positions
+  const schemasNode = document.getIn(['components', 'schemas'], true);
+  if (isMap(schemasNode)) {
+    for (const pair of schemasNode.items) {
+      const name = isScalar(pair.key) ? String(pair.key.value) : undefined;
+      const typeName = name !== undefined ? toTypeName(name) : undefined;
+      if (typeName && isScalar(pair.key) && pair.key.range) {
+        const { line, col } = lineCounter.linePos(pair.key.range[0]);
+        result.locations[typeName] = { line, column: col };
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * @function convertOpenApiDocument
+ * @description Converts the schemas of a parsed OpenAPI document to TypeScript
+ * @param {unknown} document - Parsed OpenAPI 3.x document
+ * @returns {OpenApiSource} Declarations and metadata (without locations)
+ * @throws {Error} If the document is not OpenAPI 3.x
+ */
+export function convertOpenApiDocument(document: unknown): OpenApiSource {
+  const root = (document ?? {}) as { openapi?: unknown; components?: { schemas?: Record<string, Schema> } };
+  if (typeof root.openapi !== 'string' || !root.openapi.startsWith('3.')) {
+    throw new Error(`Unsupported OpenAPI version: ${String(root.openapi ?? 'missing')} (expected 3.x)`);
+  }
+
+  const schemas = root.components?.schemas ?? {};
+  const state: ConversionState = {
+    schemas,
+    names: new Map(Object.keys(schemas).map(name => [name, toTypeName(name)])),
+    discriminants: new Map(),
+    warnings: []
+  };
+
+  const discriminators: OpenApiSource['discriminators'] = {};
+  for (const [name, schema] of Object.entries(schemas)) {
+    const discriminator = getDiscriminator(schema, state);
+    if (discriminator) {
+      discriminators[state.names.get(name)!] = discriminator;
+
+      for (const [value, variant] of Object.entries(discriminator.variants)) {
+        const properties = state.discriminants.get(variant) ?? new Map<string, string[]>();
+        properties.set(discriminator.property, [...(properties.get(discriminator.property) ?? []), value]);
+        state.discriminants.set(variant, properties);
+      }
+    }
+  }
+
+  const declarations = Object.entries(schemas).map(([name, schema]) => convertSchemaDeclaration(name, schema, state));
+
+  return {
+    source: declarations.join('\n\n') + '\n',
+    discriminators,
+    locations: {},
+    warnings: state.warnings
+  };
+}
+
+/**
+ * Valid TypeScript identifier for a schema name (`pet-owner` becomes `PetOwner`)
+ */
+function toTypeName(name: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(name)) {
+    return name;
+  }
+
+  const identifier = name
+    .split(/[^A-Za-z0-9_$]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier || '_';
+}
+
+/**
+ * Discriminator of a `oneOf`/`anyOf` union whose members are all component references
+ */
+function getDiscriminator(schema: Schema, state: ConversionState): OpenApiSource['discriminators'][string] | undefined {
+  if (typeof schema === 'boolean' || !schema.discriminator) {
+    return undefined;
+  }
+
+  const members = schema.oneOf ?? schema.anyOf ?? [];
+  const references = members.map(member => typeof member === 'object' ? getSchemaName(member.$ref) : undefined);
+  if (members.length === 0 || references.some(reference => reference === undefined || !state.names.has(reference))) {
+    return undefined;
+  }
+
+  // Without an explicit mapping, the discriminant value is the schema name
+  const variants: Record<string, string> = {};
+  const mapping = schema.discriminator.mapping ?? {};
+  for (const reference of references as string[]) {
+    const mapped = Object.entries(mapping).filter(([, target]) => getSchemaName(target) === reference || target === reference);
+    for (const value of mapped.length > 0 ? mapped.map(([value]) => value) : [reference]) {
+      variants[value] = state.names.get(reference)!;
+    }
+  }
+
+  return { property: schema.discriminator.propertyName, variants };
+}
+
+/**
+ * Component name of a local `#/components/schemas/...` reference
+ */
+function getSchemaName(ref: string | undefined): string | undefined {
+  return ref?.startsWith(SCHEMA_REF_PREFIX)
+    ? decodeURIComponent(ref.slice(SCHEMA_REF_PREFIX.length)).replace(/~1/g, '/').replace(/~0/g, '~')
+    : undefined;
+}
+
+/**
+ * Declaration for a component schema: an interface for object schemas, a type alias otherwise
+ */
+function convertSchemaDeclaration(name: string, schema: Schema, state: ConversionState): string {
+  const typeName = state.names.get(name)!;
+  const doc = typeof schema === 'object' ? renderDoc(schema, '') : '';
+  const discriminants = state.discriminants.get(typeName) ?? new Map<string, string[]>();
+
+  if (typeof schema === 'object' && isObjectSchema(schema)) {
+    return `${doc}export interface ${typeName} ${renderMembers(schema, discriminants, state)}`;
+  }
+
+  // allOf of object schemas: extends clause plus the inline members
+  if (typeof schema === 'object' && schema.allOf && !schema.nullable && isExtendable(schema.allOf, state)) {
+    const bases = schema.allOf.filter(member => typeof member === 'object' && member.$ref).map(member => convertSchema(member, state));
+    const inline = schema.allOf.filter((member): member is SchemaObject => typeof member === 'object' && !member.$ref);
+    const merged: SchemaObject = {
+      properties: Object.assign({}, ...inline.map(member => member.properties ?? {}), schema.properties ?? {}),
+      required: [...inline.flatMap(member => member.required ?? []), ...(schema.required ?? [])]
+    };
+    const heritage = bases.length > 0 ? ` extends ${bases.join(', ')}` : '';
+    return `${doc}export interface ${typeName}${heritage} ${renderMembers(merged, discriminants, state)}`;
+  }
+
+  return `${doc}export type ${typeName} = ${convertSchema(schema, state)};`;
+}
+
+/**
+ * Whether a schema is a plain object schema (no composition, not nullable)
+ */
+function isObjectSchema(schema: SchemaObject): boolean {
+  const isObject = schema.type === 'object' || (schema.type === undefined && schema.properties !== undefined);
+  return isObject && !schema.nullable && !schema.oneOf && !schema.anyOf && !schema.allOf && !schema.$ref;
+}
+
+/**
+ * Whether all allOf members are references to object schemas or inline object schemas
+ */
+function isExtendable(members: Schema[], state: ConversionState): boolean {
+  return members.every(member => {
+    if (typeof member === 'boolean') {
+      return false;
+    }
+    if (member.$ref) {
+      const target = state.schemas[getSchemaName(member.$ref) ?? ''];
+      return typeof target === 'object' && (isObjectSchema(target) || Boolean(target.allOf));
+    }
+    return isObjectSchema(member);
+  });
+}
+
+/**
+ * Interface body with one member per property, plus an index signature for additionalProperties
+ */
+function renderMembers(schema: SchemaObject, discriminants: Map<string, string[]>, state: ConversionState): string {
+  const required = new Set(schema.required ?? []);
+  const properties = { ...(schema.properties ?? {}) };
+  const lines: string[] = [];
+
+  // Variants of a discriminated union carry their discriminant literal
+  for (const property of discriminants.keys()) {
+    properties[property] ??= { type: 'string' };
+    required.add(property);
+  }
+
+  for (const [name, propertySchema] of Object.entries(properties)) {
+    const literals = discriminants.get(name);
+    const type = literals ? literals.map(renderLiteral).join(' | ') : convertSchema(propertySchema, state);
+    const readonly = typeof propertySchema === 'object' && propertySchema.readOnly ? 'readonly ' : '';
+    const doc = typeof propertySchema === 'object' ? renderDoc(propertySchema, '  ') : '';
+    lines.push(`${doc}  ${readonly}${renderKey(name)}${required.has(name) ? '' : '?'}: ${type};`);
+  }
+
+  const additional = schema.additionalProperties;
+  if (additional !== undefined && additional !== false) {
+    // Declared properties must be assignable to the index signature
+    const valueType = lines.length > 0 || additional === true ? 'unknown' : convertSchema(additional, state);
+    lines.push(`  [key: string]: ${valueType};`);
+  }
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n}` : '{}';
+}
+
+/**
+ * Convert a schema to a TypeScript type expression
+ */
+function convertSchema(schema: Schema | undefined, state: ConversionState): string {
+  if (schema === undefined || schema === true) {
+    return 'unknown';
+  }
+  if (schema === false) {
+    return 'never';
+  }
+
+  let type = convertSchemaType(schema, state);
+  if (schema.nullable && type !== 'unknown' && !/(^|\| )null( \||$)/.test(type)) {
+    type = `${wrapUnionMember(type)} | null`;
+  }
+  return type;
+}
+
+/**
+ * Type expression for a schema, ignoring OpenAPI 3.0 `nullable`
+ */
+function convertSchemaType(schema: SchemaObject, state: ConversionState): string {
+  if (schema.$ref) {
+    const name = getSchemaName(schema.$ref);
+    const typeName = name !== undefined ? state.names.get(name) : undefined;
+    if (!typeName) {
+      state.warnings.push(`Unresolved reference ${schema.$ref}, emitted as unknown`);
+      return 'unknown';
+    }
+    return typeName;
+  }
+
+  if (schema.const !== undefined) {
+    return renderLiteral(schema.const);
+  }
+
+  if (schema.enum) {
+    return schema.enum.length > 0 ? schema.enum.map(renderLiteral).join(' | ') : 'never';
+  }
+
+  const parts: string[] = [];
+  const union = schema.oneOf ?? schema.anyOf;
+  if (union) {
+    parts.push(wrapIntersectionMember(union.map(member => wrapUnionMember(convertSchema(member, state))).join(' | ')));
+  }
+  if (schema.allOf) {
+    parts.push(...schema.allOf.map(member => wrapIntersectionMember(convertSchema(member, state))));
+  }
+
+  const hasOwnShape = schema.type !== undefined || schema.properties !== undefined || schema.items !== undefined;
+  if (hasOwnShape) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const converted = types.map(type => convertTypeKeyword(type, schema, state));
+    parts.push(wrapIntersectionMember(converted.join(' | ')));
+  }
+
+  if (parts.length === 0) {
+    return 'unknown';
+  }
+  return parts.length === 1 ? unwrap(parts[0]) : parts.join(' & ');
+}
+
+/**
+ * Type expression for one value of `type`
+ */
+function convertTypeKeyword(type: string | undefined, schema: SchemaObject, state: ConversionState): string {
+  switch (type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      if (schema.prefixItems) {
+        const items = schema.prefixItems.map(item => convertSchema(item, state));
+        const rest = schema.items !== undefined && schema.items !== false ? [`...${wrapArrayElement(convertSchema(schema.items, state))}[]`] : [];
+        return `[${[...items, ...rest].join(', ')}]`;
+      }
+      return `${wrapArrayElement(convertSchema(schema.items, state))}[]`;
+    case 'object':
+    case undefined:
+      if (schema.properties === undefined && schema.type === undefined && schema.items !== undefined) {
+        return convertTypeKeyword('array', schema, state);
+      }
+      return convertObjectSchema(schema, state);
+    default:
+      state.warnings.push(`Unknown schema type '${type}', emitted as unknown`);
+      return 'unknown';
+  }
+}
+
+/**
+ * Inline object type for nested object schemas
+ */
+function convertObjectSchema(schema: SchemaObject, state: ConversionState): string {
+  const properties = Object.entries(schema.properties ?? {});
+  const additional = schema.additionalProperties;
+
+  if (properties.length === 0) {
+    return additional === false ? '{}' : `Record<string, ${additional === undefined || additional === true ? 'unknown' : convertSchema(additional, state)}>`;
+  }
+
+  const required = new Set(schema.required ?? []);
+  const members = properties.map(([name, propertySchema]) => {
+    const readonly = typeof propertySchema === 'object' && propertySchema.readOnly ? 'readonly ' : '';
+    return `${readonly}${renderKey(name)}${required.has(name) ? '' : '?'}: ${convertSchema(propertySchema, state)}`;
+  });
+  if (additional !== undefined && additional !== false) {
+    members.push('[key: string]: unknown');
+  }
+
+  return `{ ${members.join('; ')} }`;
+}
+
+/**
+ * JSDoc comment from title, description and deprecated
+ */
+function renderDoc(schema: SchemaObject, indent: string): string {
+  const lines = [
+    ...(schema.title && schema.title !== schema.description ? [schema.title] : []),
+    ...(schema.description ? schema.description.trim().split('\n') : []),
+    ...(schema.deprecated ? ['@deprecated'] : [])
+  ].map(line => line.replace(/\*\//g, '*\\/'));
+
+  if (lines.length === 0) {
+    return '';
+  }
+  if (lines.length === 1) {
+    return `${indent}/** ${lines[0]} */\n`;
+  }
+  return `${indent}/**\n${lines.map(line => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Literal type for an enum or const value
+ */
+function renderLiteral(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean' || value === null) {
+    return String(value);
+  }
+  return 'unknown';
+}
+
+/**
+ * Property key, quoted unless it is a valid identifier
+ */
+function renderKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Parenthesize a type used as an array element (`(A | B)[]`)
+ */
+function wrapArrayElement(type: string): string {
+  return hasTopLevelOperator(type, ['|', '&']) ? `(${type})` : type;
+}
+
+/**
+ * Parenthesize a type used as a union member
+ */
+function wrapUnionMember(type: string): string {
+  return hasTopLevelOperator(type, ['&']) ? `(${type})` : type;
+}
+
+/**
+ * Parenthesize a type used as an intersection member
+ */
+function wrapIntersectionMember(type: string): string {
+  return hasTopLevelOperator(type, ['|', '&']) ? `(${type})` : type;
+}
+
+/**
+ * Remove parentheses added by wrapIntersectionMember when a type stands alone
+ */
+function unwrap(type: string): string {
+  return type.startsWith('(') && getClosingIndex(type, 0) === type.length - 1 ? type.slice(1, -1) : type;
+}
+
+/**
+ * Whether a type expression has one of the operators outside brackets and string literals
+ */
+function hasTopLevelOperator(type: string, operators: string[]): boolean {
+  let depth = 0;
+  for (let index = 0; index < type.length; index++) {
+    const char = type[index];
+    if (char === "'") {
+      index = skipString(type, index);
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}>'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && operators.includes(char)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Index of the bracket closing the one at `start`
+ */
+function getClosingIndex(type: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < type.length; index++) {
+    const char = type[index];
+    if (char === "'") {
+      index = skipString(type, index);
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}>'.includes(char) && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Index of the quote closing the single-quoted string starting at `start`
+ */
+function skipString(type: string, start: number): number {
+  let index = start + 1;
+  while (index < type.length && type[index] !== "'") {
+    index += type[index] === '\\' ? 2 : 1;
+  }
+  return index;
+}
@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Type Extraction Framework - Package Sources
+ *
+ * @description
+ * Locates the type declarations of installed npm packages (RFC-2025-TS-A01
+ * sections 5.1/5.2), so third-party types can be extracted straight from
+ * node_modules. Resolution follows the `exports` map (`types` condition),
+ * then `types`/`typings`, then `index.d.ts`, and falls back to `@types/*`.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { resolve, dirname, join } from 'node:path';
+
+/**
+ * Subset of package.json used for types resolution
+ */
+interface PackageManifest {
+  types?: string;
+  typings?: string;
+  exports?: unknown;
+}
+
+/** Conditions tried, in order, when an export entry has no `types` condition */
+const FALLBACK_CONDITIONS = ['import', 'module', 'default', 'require', 'node'];
+
+/**
+ * @function resolvePackageTypes
+ * @description Finds the declaration entry point of an installed package
+ * @param {string} specifier - Package name, optionally with a subpath (`@heroui/react`, `lodash/fp`)
+ * @param {string} resolveFrom - Directory to start the node_modules lookup from
+ * @returns {string | undefined} Absolute path of the declaration file, or undefined if it cannot be found
+ *
+ * @example
+ * resolvePackageTypes('@heroui/react', process.cwd());
+ * // '/project/node_modules/@heroui/react/dist/index.d.ts'
+ */
+export function resolvePackageTypes(specifier: string, resolveFrom: string): string | undefined {
+  const { packageName, subpath } = splitPackageSpecifier(specifier);
+
+  for (const name of [packageName, getTypesPackageName(packageName)]) {
+    const packageDir = findPackageDirectory(name, resolveFrom);
+    if (!packageDir) {
+      continue;
+    }
+
+    const manifest = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf-8')) as PackageManifest;
+    const candidates = subpath === '.'
+      ? [getExportTypes(manifest.exports, '.'), manifest.types, manifest.typings, 'index.d.ts']
+      : [getExportTypes(manifest.exports, subpath), `${subpath}.d.ts`, `${subpath}/index.d.ts`];
+
+    for (const candidate of candidates) {
+      const filePath = candidate && resolve(packageDir, toDeclarationPath(candidate));
+      if (filePath && existsSync(filePath)) {
+        return filePath;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * @function getPackageName
+ * @description Name of the package a file belongs to, based on its node_modules path
+ * @param {string} filePath - Absolute file path
+ * @returns {string | undefined} Package name, or undefined for files outside node_modules
+ */
+export function getPackageName(filePath: string): string | undefined {
+  const normalized = filePath.replace(/\\/g, '/');
+  const index = normalized.lastIndexOf('/node_modules/');
+  if (index === -1) {
+    return undefined;
+  }
+
+  const segments = normalized.slice(index + '/node_modules/'.length).split('/');
+  return segments[0].startsWith('@') ? `${segments[0]}/${segments[1]}` : segments[0];
+}
+
+/**
+ * Split `@scope/name/sub/path` into the package name and an exports-style subpath
+ */
+function splitPackageSpecifier(specifier: string): { packageName: string; subpath: string } {
+  const segments = specifier.split('/');
+  const nameLength = specifier.startsWith('@') ? 2 : 1;
+  const rest = segments.slice(nameLength).join('/');
+
+  return {
+    packageName: segments.slice(0, nameLength).join('/'),
+    subpath: rest ? `./${rest}` : '.'
+  };
+}
+
+/**
+ * `@types` package for a package name (`@scope/name` maps to `@types/scope__name`)
+ */
+function getTypesPackageName(packageName: string): string {
+  return `@types/${packageName.replace(/^@/, '').replace('/', '__')}`;
+}
+
+/**
+ * Walk up from `resolveFrom` looking for node_modules/<packageName>
+ */
+function findPackageDirectory(packageName: string, resolveFrom: string): string | undefined {
+  let dir = resolve(resolveFrom);
+
+  while (true) {
+    const candidate = join(dir, 'node_modules', packageName);
+    if (existsSync(join(candidate, 'package.json'))) {
+      return candidate;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Types target for a subpath of an `exports` field
+ */
+function getExportTypes(exports: unknown, subpath: string): string | undefined {
+  if (exports === undefined || exports === null) {
+    return undefined;
+  }
+
+  // `"exports": "./index.js"` or a conditions object without subpaths
+  const isSubpathMap = typeof exports === 'object' && !Array.isArray(exports) &&
+    Object.keys(exports).some(key => key.startsWith('.'));
+  if (!isSubpathMap) {
+    return subpath === '.' ? pickTypesCondition(exports) : undefined;
+  }
+
+  return pickTypesCondition((exports as Record<string, unknown>)[subpath]);
+}
+
+/**
+ * Pick the declaration file from a (possibly nested) conditional export
+ */
+function pickTypesCondition(entry: unknown): string | undefined {
+  if (typeof entry === 'string') {
+    return entry;
+  }
+  if (Array.isArray(entry)) {
+    return entry.map(pickTypesCondition).find(Boolean);
+  }
+  if (!entry || typeof entry !== 'object') {
+    return undefined;
+  }
+
+  const conditions = entry as Record<string, unknown>;
+  if (conditions.types !== undefined) {
+    return pickTypesCondition(conditions.types);
+  }
+
+  for (const condition of FALLBACK_CONDITIONS) {
+    const target = pickTypesCondition(conditions[condition]);
+    if (target) {
+      return target;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Map a JavaScript entry (`./dist/index.js`) to its declaration file
+ */
+function toDeclarationPath(target: string): string {
+  if (/\.d\.[mc]?ts$/.test(target)) {
+    return target;
+  }
+  return target.replace(/\.([mc]?)js$/, '.d.$1ts');
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { join } from 'node:path';
+import { createReport, formatReport, type ExtractionReport } from './report.js';
+import { diffTypes, parseDeclarations } from './drift.js';
+import type { FileDrift } from './check.js';
+import type { SecurityFinding } from './security.js';
+import type { ExtractionContext } from './types.js';
+
+const base = join('/', 'repo');
+const source = join(base, 'src', 'api.ts');
+
+function createTestReport(): ExtractionReport {
+  const context = {
+    types: parseDeclarations('export interface Guest {\n  id: string;\n  data: any;\n}', source),
+    rules: { apiId: 'test' },
+    metrics: {
+      startTime: 0,
+      filesParsed: 1,
+      typesExtracted: 1,
+      transformsApplied: 0,
+      validationsPassed: 0,
+      validationsFailed: 1,
+      anyTypeViolations: 1
+    },
+    errors: [
+      { file: source, type: 'Guest', message: "'any' type in Guest.data", line: 3, column: 9, rule: 'any-type-violation' },
+      { file: source, message: 'Guest is deprecated', line: 1, column: 1, severity: 'warning' },
+      { file: source, message: 'Cannot resolve Missing', rule: 'unresolved-reference' }
+    ],
+    anyExceptions: []
+  } as unknown as ExtractionContext;
+
+  const drift: FileDrift[] = [
+    {
+      file: join(base, 'types', 'api.ts'),
+      missing: false,
+      changes: diffTypes(
+        parseDeclarations('export interface Guest { id: number }'),
+        parseDeclarations('export interface Guest { id: string }')
+      ),
+      notes: []
+    },
+    { file: join(base, 'types', 'api.contracts.d.ts'), missing: true, changes: [], notes: [] }
+  ];
+
+  return createReport(context, drift);
+}
+
+interface SarifLog {
+  version: string;
+  runs: Array<{
+    tool: { driver: { rules: Array<{ id: string }> } };
+    results: Array<{
+      ruleId: string;
+      level: string;
+      message: { text: string };
+      locations: Array<{ physicalLocation: { artifactLocation: { uri: string; uriBaseId: string }; region?: object } }>;
+    }>;
+  }>;
+}
+
+describe('createReport', () => {
+  it('collects types, diagnostics and any violations', () => {
+    const report = createTestReport();
+
+    expect(report.api).toBe('test');
+    expect(report.types).toEqual([{ name: 'Guest', kind: 'interface', file: source, line: 1, column: 1 }]);
+    expect(report.errors).toHaveLength(3);
+    expect(report.anyViolations.map(error => error.message)).toEqual(["'any' type in Guest.data"]);
+  });
+});
+
+describe('formatReport', () => {
+  it('writes JSON with paths relative to the base', () => {
+    const report = JSON.parse(formatReport(createTestReport(), 'json', base));
+
+    expect(report.types[0].file).toBe('src/api.ts');
+    expect(report.errors[0].file).toBe('src/api.ts');
+    expect(report.drift.map((drift: FileDrift) => drift.file)).toEqual(['types/api.ts', 'types/api.contracts.d.ts']);
+  });
+
+  it('writes SARIF 2.1.0 with a result per diagnostic and drifted declaration', () => {
+    const sarif: SarifLog = JSON.parse(formatReport(createTestReport(), 'sarif', base));
+    const [run] = sarif.runs;
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.results.map(result => [result.ruleId, result.level])).toEqual([
+      ['any-type-violation', 'error'],
+      ['extraction-error', 'warning'],
+      ['unresolved-reference', 'error'],
+      ['type-drift', 'error'],
+      ['missing-output', 'error']
+    ]);
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual([
+      'any-type-violation', 'extraction-error', 'missing-output', 'type-drift', 'unresolved-reference'
+    ]);
+    expect(run.results[0].locations).toEqual([{
+      physicalLocation: {
+        artifactLocation: { uri: 'src/api.ts', uriBaseId: '%SRCROOT%' },
+        region: { startLine: 3, startColumn: 9 }
+      }
+    }]);
+    // Drift is reported at the declaration of the type in the source
+    expect(run.results[3].message.text).toBe('Guest.id: property type changed: number -> string (types/api.ts is out of date)');
+    expect(run.results[3].locations[0].physicalLocation.artifactLocation.uri).toBe('src/api.ts');
+    expect(run.results[4].locations[0].physicalLocation.artifactLocation.uri).toBe('types/api.contracts.d.ts');
+  });
+
+  it('writes JUnit XML with a test case per type, the extraction and each generated file', () => {
+    const xml = formatReport(createTestReport(), 'junit', base);
+
+    expect(xml).toContain('<testsuites name="type-extract" tests="4" failures="4">');
+    expect(xml).toContain('<testcase classname="src/api.ts" name="Guest">\n      <failure message="any-type-violation: &apos;any&apos; type in Guest.data">');
+    expect(xml).toContain('<testcase classname="test" name="extraction">\n      <failure message="unresolved-reference: Cannot resolve Missing">');
+    expect(xml).toContain('<testcase classname="output" name="types/api.contracts.d.ts">');
+    expect(xml).toContain('<property name="anyTypeViolations" value="1"/>');
+    // Warnings are not failures
+    expect(xml).not.toContain('deprecated');
+  });
+
+  it('writes security findings as SARIF results and high-severity ones as JUnit failures', () => {
+    const findings: SecurityFinding[] = [
+      { rule: 'widened-to-any', severity: 'high', type: 'Guest', member: 'data', message: 'changed from `string`, now uses `any`', file: source, line: 1 },
+      { rule: 'url-property', severity: 'medium', type: 'Guest', member: 'homepageUrl', message: 'new property carrying a URL', file: source, line: 1 }
+    ];
+    const { types, metrics } = createTestReport();
+    const report: ExtractionReport = { api: 'test', metrics, types, errors: [], anyViolations: [], drift: [], securityFindings: findings };
+
+    expect(JSON.parse(formatReport(report, 'json', base)).securityFindings[0].file).toBe('src/api.ts');
+
+    const [run] = (JSON.parse(formatReport(report, 'sarif', base)) as SarifLog).runs;
+    expect(run.results.map(result => [result.ruleId, result.level, result.message.text])).toEqual([
+      ['widened-to-any', 'error', 'Guest.data: changed from `string`, now uses `any`'],
+      ['url-property', 'warning', 'Guest.homepageUrl: new property carrying a URL']
+    ]);
+    expect(run.results[0].locations[0].physicalLocation.artifactLocation.uri).toBe('src/api.ts');
+
+    const xml = formatReport(report, 'junit', base);
+    expect(xml).toContain('<testcase classname="src/api.ts" name="Guest">\n      <failure message="widened-to-any: Guest.data: changed from `string`, now uses `any`">');
+    expect(xml).not.toContain('homepageUrl');
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * @fileoverview Type Extraction Framework - Machine-Readable Reports
+ *
+ * @description
+ * Serializes the results of an extraction for tools: JSON for scripts,
+ * SARIF 2.1.0 for code scanning (GitHub annotates the offending source lines)
+ * and JUnit XML for test dashboards. A report holds the metrics, every
+ * diagnostic with its location and rule id, the 'any' violations, the
+ * drift between the committed output and the output of the run and the
+ * security red flags of the changed declarations.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import type { ExtractedType, ExtractionContext, ExtractionError, ExtractionMetrics } from './types.js';
+import { formatFileDrift, type FileDrift } from './check.js';
+import { describeChange, type DriftChange } from './drift.js';
+import { formatSourcePath } from './source-map.js';
+import { formatFindingTarget, type SecurityFinding, type SecuritySeverity } from './security.js';
+
+export type ReportFormat = 'json' | 'sarif' | 'junit';
+
+/**
+ * Report formats accepted by `--report`
+ */
+export const REPORT_FORMATS: readonly ReportFormat[] = ['json', 'sarif', 'junit'];
+
+/**
+ * @interface ExtractionReport
+ * @description Results of an extraction, independent of the output format
+ * @since 2.0.0
+ */
+export interface ExtractionReport {
+  api: string;
+  metrics: ExtractionMetrics;
+
+  /** Extracted types and where they were declared */
+  types: Array<{ name: string; kind: ExtractedType['kind']; file: string; line: number; column: number }>;
+
+  /** All diagnostics, including warnings and 'any' violations */
+  errors: ExtractionError[];
+
+  /** Diagnostics of the any policy (rule 'any-type-violation') */
+  anyViolations: ExtractionError[];
+
+  /** Generated files that differ from the files on disk */
+  drift: FileDrift[];
+
+  /** Security red flags of the declarations that differ, from `scanGeneratedFiles` */
+  securityFindings: SecurityFinding[];
+}
+
+/**
+ * Rule ids of diagnostics without a rule, and of drift
+ */
+const EXTRACTION_ERROR_RULE = 'extraction-error';
+const DRIFT_RULE = 'type-drift';
+const MISSING_OUTPUT_RULE = 'missing-output';
+
+/**
+ * @function createReport
+ * @description Collects the report of an extraction
+ * @param {ExtractionContext} context - Extraction results
+ * @param {FileDrift[]} drift - Output drift, from `checkGeneratedFiles`
+ * @param {SecurityFinding[]} [securityFindings] - Red flags of the drift, from `scanGeneratedFiles`
+ * @returns {ExtractionReport} Report with paths as in the context (absolute)
+ */
+export function createReport(context: ExtractionContext, drift: FileDrift[], securityFindings: SecurityFinding[] = []): ExtractionReport {
+  return {
+    api: context.rules.apiId,
+    metrics: context.metrics,
+    types: [...context.types.values()].map(type => ({
+      name: type.name,
+      kind: type.kind,
+      file: type.sourceFile,
+      line: type.location.line,
+      column: type.location.column
+    })),
+    errors: context.errors,
+    anyViolations: context.errors.filter(error => error.rule === 'any-type-violation'),
+    drift,
+    securityFindings
+  };
+}
+
+/**
+ * @function formatReport
+ * @description Serializes a report
+ * @param {ExtractionReport} report - Report from `createReport`
+ * @param {ReportFormat} format - Output format
+ * @param {string} [base] - Directory paths are made relative to; SARIF needs
+ * paths relative to the repository root for annotations
+ * @returns {string} File content
+ *
+ * @example
+ * writeFileSync('type-extraction.sarif', formatReport(report, 'sarif', process.cwd()));
+ */
+export function formatReport(report: ExtractionReport, format: ReportFormat, base?: string): string {
+  const relativeReport = withRelativePaths(report, base);
+
+  switch (format) {
+    case 'json':
+      return JSON.stringify(relativeReport, null, 2) + '\n';
+    case 'sarif':
+      return JSON.stringify(toSarif(relativeReport), null, 2) + '\n';
+    case 'junit':
+      return toJUnit(relativeReport);
+  }
+}
+
+/**
+ * Report with every file path relative to `base`
+ */
+function withRelativePaths(report: ExtractionReport, base: string | undefined): ExtractionReport {
+  const formatPath = (file: string): string => (file ? formatSourcePath(file, base) : file);
+
+  return {
+    ...report,
+    types: report.types.map(type => ({ ...type, file: formatPath(type.file) })),
+    errors: report.errors.map(error => ({ ...error, file: formatPath(error.file) })),
+    anyViolations: report.anyViolations.map(error => ({ ...error, file: formatPath(error.file) })),
+    drift: report.drift.map(drift => ({ ...drift, file: formatPath(drift.file) })),
+    securityFindings: report.securityFindings.map(finding => ({ ...finding, file: finding.file && formatPath(finding.file) }))
+  };
+}
+
+/**
+ * Source location of a drifted type, or the generated file when the type is gone
+ */
+function getDriftLocation(report: ExtractionReport, drift: FileDrift, change?: DriftChange): { file: string; line?: number; column?: number } {
+  const type = change && report.types.find(candidate => candidate.name === change.type);
+  return type ? { file: type.file, line: type.line, column: type.column } : { file: drift.file };
+}
+
+/**
+ * SARIF levels of security findings
+ */
+const SECURITY_LEVELS: Record<SecuritySeverity, string> = { high: 'error', medium: 'warning', low: 'note' };
+
+/**
+ * SARIF 2.1.0 log with one result per diagnostic, drifted declaration and security finding
+ */
+function toSarif(report: ExtractionReport): object {
+  const location = (file: string, line?: number, column?: number): object[] => file
+    ? [{
+        physicalLocation: {
+          artifactLocation: { uri: file, uriBaseId: '%SRCROOT%' },
+          ...(line ? { region: { startLine: line, ...(column ? { startColumn: column } : {}) } } : {})
+        }
+      }]
+    : [];
+
+  const results = [
+    ...report.errors.map(error => ({
+      ruleId: error.rule ?? EXTRACTION_ERROR_RULE,
+      level: error.severity === 'warning' ? 'warning' : 'error',
+      message: { text: error.message },
+      locations: location(error.file, error.line, error.column)
+    })),
+    ...report.drift.flatMap(drift => [
+      ...drift.changes.map(change => {
+        const { file, line, column } = getDriftLocation(report, drift, change);
+        return {
+          ruleId: DRIFT_RULE,
+          level: change.breaking ? 'error' : 'warning',
+          message: { text: `${describeChange(change)} (${drift.file} is out of date)` },
+          locations: location(file, line, column)
+        };
+      }),
+      ...(drift.missing || drift.notes.length > 0
+        ? [{
+            ruleId: drift.missing ? MISSING_OUTPUT_RULE : DRIFT_RULE,
+            level: 'error',
+            message: { text: `${drift.file}: ${formatFileDrift({ ...drift, changes: [] }).join('; ')}` },
+            locations: location(drift.file)
+          }]
+        : [])
+    ]),
+    ...report.securityFindings.map(finding => ({
+      ruleId: finding.rule,
+      level: SECURITY_LEVELS[finding.severity],
+      message: { text: `${formatFindingTarget(finding)}: ${finding.message}` },
+      locations: location(finding.file ?? '', finding.line)
+    }))
+  ];
+
+  const ruleIds = [...new Set(results.map(result => result.ruleId))].sort();
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'type-extract',
+          rules: ruleIds.map(id => ({ id, shortDescription: { text: RULE_DESCRIPTIONS[id] ?? id } }))
+        }
+      },
+      results,
+      properties: { api: report.api, metrics: report.metrics }
+    }]
+  };
+}
+
+/**
+ * Short descriptions of the rules known to the framework
+ */
+const RULE_DESCRIPTIONS: Record<string, string> = {
+  'any-type-violation': "'any' not allowed by the any policy",
+  'extraction-failed': 'Extraction failed',
+  [EXTRACTION_ERROR_RULE]: 'Extraction error',
+  [DRIFT_RULE]: 'Committed output differs from the extracted types',
+  [MISSING_OUTPUT_RULE]: 'Generated file is not committed',
+  'unresolved-reference': 'Type reference that cannot be resolved',
+  validator: 'Error reported by a configured validator',
+  'widened-to-any': "Contract change widens a type to 'any'",
+  'widened-to-unknown': "Contract change widens a type to 'unknown'",
+  'execution-property': 'Contract change adds a member that accepts or names executable code',
+  'url-property': 'Contract change adds a property carrying a URL',
+  'index-signature': 'Contract change adds an index signature',
+  'permissive-record': 'Contract change adds a permissive record'
+};
+
+/**
+ * JUnit XML with a test case per extracted type, one for other diagnostics
+ * and one per out-of-date generated file; high-severity security findings
+ * fail the case of their type, lower ones are not failures, like warnings
+ */
+function toJUnit(report: ExtractionReport): string {
+  const cases: Array<{ classname: string; name: string; failures: string[] }> = [];
+  const errors = report.errors.filter(error => error.severity !== 'warning');
+  const findings = report.securityFindings.filter(finding => finding.severity === 'high');
+  const formatFinding = (finding: SecurityFinding): string => `${finding.rule}: ${formatFindingTarget(finding)}: ${finding.message}`;
+
+  for (const type of report.types) {
+    cases.push({
+      classname: type.file,
+      name: type.name,
+      failures: [
+        ...errors
+          .filter(error => error.type === type.name)
+          .map(error => `${error.rule ?? EXTRACTION_ERROR_RULE}: ${error.message}`),
+        ...findings.filter(finding => finding.type === type.name).map(formatFinding)
+      ]
+    });
+  }
+
+  // Diagnostics and findings that do not belong to an extracted type
+  const names = new Set(report.types.map(type => type.name));
+  const unattributed = errors.filter(error => !error.type || !names.has(error.type));
+  cases.push({
+    classname: report.api,
+    name: 'extraction',
+    failures: [
+      ...unattributed.map(error => `${error.rule ?? EXTRACTION_ERROR_RULE}: ${error.message}`),
+      ...findings.filter(finding => !names.has(finding.type)).map(formatFinding)
+    ]
+  });
+
+  for (const drift of report.drift) {
+    cases.push({ classname: 'output', name: drift.file, failures: formatFileDrift(drift) });
+  }
+
+  const failed = cases.filter(testCase => testCase.failures.length > 0).length;
+  const properties = Object.entries(report.metrics)
+    .map(([name, value]) => `      <property name="${escapeXml(name)}" value="${escapeXml(String(value))}"/>`);
+  const testCases = cases.map(testCase => {
+    const open = `    <testcase classname="${escapeXml(testCase.classname)}" name="${escapeXml(testCase.name)}"`;
+    if (testCase.failures.length === 0) {
+      return `${open}/>`;
+    }
+    return `${open}>\n      <failure message="${escapeXml(testCase.failures[0])}">${escapeXml(testCase.failures.join('\n'))}</failure>\n    </testcase>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="type-extract" tests="${cases.length}" failures="${failed}">`,
+    `  <testsuite name="${escapeXml(report.api)}" tests="${cases.length}" failures="${failed}">`,
+    '    <properties>',
+    ...properties,
+    '    </properties>',
+    ...testCases,
+    '  </testsuite>',
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Text safe inside XML attributes and elements
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { RFCCompliantGenerator } from './rfc-generator.js';
+import { approvePending, loadApprovals, saveApprovals } from './approvals.js';
+import { parseDeclarations } from './drift.js';
+import type { ExtractionContext } from './types.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const contextOf = (source: string): ExtractionContext => ({
+  sourceFiles: [],
+  types: parseDeclarations(source, join(dir, 'src', 'api.ts')),
+  rules: { apiId: 'test' },
+  metrics: {
+    startTime: Date.now(),
+    filesParsed: 1,
+    typesExtracted: 1,
+    transformsApplied: 0,
+    validationsPassed: 0,
+    validationsFailed: 0,
+    anyTypeViolations: 0
+  },
+  errors: [],
+  anyExceptions: []
+} as ExtractionContext);
+
+const createGenerator = (failOnDrift: boolean): RFCCompliantGenerator => new RFCCompliantGenerator({
+  outputPath: join(dir, 'contracts.d.ts'),
+  extractionMapPath: join(dir, 'type-extraction-map.json'),
+  failOnDrift
+});
+
+const readContracts = (): string => readFileSync(join(dir, 'contracts.d.ts'), 'utf-8');
+
+describe('RFCCompliantGenerator', () => {
+  it('fails on semantic drift from the committed contracts', async () => {
+    const generator = createGenerator(true);
+    await generator.generate(contextOf('export interface Guest { id: string }'));
+
+    await generator.generate(contextOf('/** Guest */\nexport interface Guest {\n  id:   string;\n}'));
+    await expect(generator.generate(contextOf('export interface Guest { id: number }')))
+      .rejects.toThrow('[BREAKING] Guest.id: property type changed: string -> number');
+  });
+
+  it('adds the security review to the drift error', async () => {
+    const generator = createGenerator(true);
+    await generator.generate(contextOf('export interface Runner { id: string }'));
+
+    await expect(generator.generate(contextOf('export interface Runner { id: string; script: string }')))
+      .rejects.toThrow(/\[SECURITY-REVIEW-REQUIRED\][\s\S]*execution-property Runner\.script/);
+  });
+
+  it('flags new execution-related methods for security review', async () => {
+    const generator = createGenerator(true);
+    await generator.generate(contextOf('export interface Runner { id: string }'));
+
+    await expect(generator.checkDrift(contextOf('export interface Runner { id: string; execute(script: string): void }')))
+      .rejects.toThrow(/\[SECURITY-REVIEW-REQUIRED\][\s\S]*execution-property Runner\.execute\(\)/);
+  });
+
+  it('quarantines unapproved changes and accepts them once approved', async () => {
+    const generator = createGenerator(true);
+    const approvalsPath = join(dir, 'type-extraction-approvals.json');
+    await generator.generate(contextOf('export interface Guest { id: string }'));
+
+    await expect(generator.generate(contextOf('export interface Guest { id: number }'))).rejects.toThrow('Type drift detected');
+    const approvals = loadApprovals(approvalsPath);
+    expect(approvals.pending.Guest.changes).toEqual(['Guest.id: property type changed: string -> number']);
+
+    expect(approvePending(approvals, { reviewer: 'jane', reason: 'Upstream change' })).toEqual(['Guest']);
+    saveApprovals(approvalsPath, approvals);
+
+    await generator.generate(contextOf('export interface Guest { id: number }'));
+    expect(readContracts()).toContain('id: number');
+    expect(loadApprovals(approvalsPath).pending).toEqual({});
+  });
+
+  it('checks drift without writing the contracts or the extraction map', async () => {
+    const generator = createGenerator(true);
+    await generator.write(contextOf('export interface Guest { id: string }'));
+    const committed = readContracts();
+    const map = readFileSync(join(dir, 'type-extraction-map.json'), 'utf-8');
+
+    await expect(generator.checkDrift(contextOf('export interface Guest { id: number }'))).rejects.toThrow('Type drift detected');
+    await generator.checkDrift(contextOf('export interface Guest { id: string }'));
+
+    expect(readContracts()).toBe(committed);
+    expect(readFileSync(join(dir, 'type-extraction-map.json'), 'utf-8')).toBe(map);
+  });
+
+  it('does not approve a different change to an approved type', async () => {
+    const generator = createGenerator(true);
+    const approvalsPath = join(dir, 'type-extraction-approvals.json');
+    await generator.generate(contextOf('export interface Guest { id: string }'));
+    await generator.generate(contextOf('export interface Guest { id: number }')).catch(() => undefined);
+    const approvals = loadApprovals(approvalsPath);
+    approvePending(approvals, { reviewer: 'jane', reason: 'Upstream change' });
+    saveApprovals(approvalsPath, approvals);
+
+    await expect(generator.generate(contextOf('export interface Guest { id: boolean }'))).rejects.toThrow('Type drift detected');
+  });
+
+  it('only checks drift when failOnDrift is set', async () => {
+    const generator = createGenerator(false);
+    await generator.generate(contextOf('export interface Guest { id: string }'));
+    await generator.generate(contextOf('export interface Guest { id: number }'));
+
+    expect(readContracts()).toContain('id: number');
+  });
+});
@@ -12,10 +12,26 @@
 import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 import type {
+  AnyException,
   ExtractedType,
   ExtractionContext,
   PropertyInfo
 } from './types.js';
+import { formatMemberLines } from './members.js';
+import { toAmbientDeclaration } from './type-text.js';
+import { formatAnyExceptions } from './any-detection.js';
+import { formatSourcePath } from './source-map.js';
+import { compareNames, normalizeOutput, sortMembers } from './deterministic.js';
+import { parseDeclarations, diffTypes, createDriftReport, describeChange, type DriftChange, type DriftReport } from './drift.js';
+import { scanSecurityRedFlags, formatSecurityReview, type SecurityFinding } from './security.js';
+import {
+  getDefaultApprovalsPath,
+  hashTypeDeclaration,
+  loadApprovals,
+  saveApprovals,
+  isApproved,
+  type PendingApproval
+} from './approvals.js';
 
 export interface RFCGeneratorConfig {
   /** Output directory for third-party-contracts.d.ts */
@@ -26,6 +42,47 @@ export interface RFCGeneratorConfig {
   failOnDrift?: boolean;
   /** Version of the API being extracted */
   apiVersion?: string;
+  /** Path to type-extraction-approvals.json (default: next to the extraction map) */
+  approvalsPath?: string;
+  /** Directory source paths are written relative to (default: absolute paths) */
+  sourceBase?: string;
+  /** Byte-identical output for identical inputs (no timestamps or durations, ordinal sorting) */
+  deterministic?: boolean;
+}
+
+/**
+ * @interface ExtractionMap
+ * @description Content of type-extraction-map.json
+ */
+export interface ExtractionMap {
+  version: string;
+  /** Omitted in deterministic mode */
+  generated?: string;
+  api: string;
+  apiVersion?: string;
+  /** Extracted type names by package or source file */
+  types: Record<string, string[]>;
+  /** Only present when the any policy branded or allowed an occurrence */
+  anyExceptions?: AnyException[];
+}
+
+/**
+ * @interface ContractReview
+ * @description Drift report for the contracts file plus security red flags in the changes
+ *
+ * @remarks
+ * `changes` and `summary` only cover unapproved changes; changes whose
+ * resulting declaration matches an approval are listed in `approved`.
+ */
+export interface ContractReview extends DriftReport {
+  /** RFC section 7.2 red flags found in unapproved changed or added members */
+  securityFindings: SecurityFinding[];
+
+  /** Changes covered by the approvals file */
+  approved: DriftChange[];
+
+  /** Unapproved changes by type, as quarantined in the approvals file */
+  pending: Record<string, PendingApproval>;
 }
 
 /**
@@ -55,26 +112,77 @@ export class RFCCompliantGenerator {
    * @returns {Promise<void>}
    * @public
    * @async
+   * 
+   * @throws {Error} On unapproved drift, before anything is written
    */
   async generate(context: ExtractionContext): Promise<void> {
-    // Ensure output directory exists
-    const outputDir = dirname(this.config.outputPath);
-    mkdirSync(outputDir, { recursive: true });
-
-    // Check for drift if file exists
-    if (this.config.failOnDrift && existsSync(this.config.outputPath)) {
-      const drift = await this.detectDrift(context);
-      if (drift.hasDrift) {
-        throw new Error(`Type drift detected:\n${drift.summary}`);
-      }
+    await this.checkDrift(context);
+    await this.write(context);
+  }
+
+  /**
+   * @method checkDrift
+   * @description Fails on unapproved drift of the contracts file, quarantining the changes
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {Promise<void>}
+   * @public
+   * @async
+   * 
+   * @remarks
+   * Does nothing unless `failOnDrift` is set and the contracts file exists.
+   * Only the approvals file is written. Call it before writing any other
+   * output of the run, so rejected changes never reach the generated types.
+   * 
+   * @throws {Error} If changes are not covered by the approvals file
+   */
+  async checkDrift(context: ExtractionContext): Promise<void> {
+    if (!this.config.failOnDrift || !existsSync(this.config.outputPath)) {
+      return;
     }
 
-    // Generate the contracts file
-    const content = this.generateContractsFile(context);
-    writeFileSync(this.config.outputPath, content, 'utf-8');
+    const drift = await this.detectDrift(context);
+    this.quarantine(drift.pending);
 
-    // Generate extraction map
-    await this.generateExtractionMap(context);
+    if (drift.hasDrift) {
+      const review = formatSecurityReview(drift.securityFindings);
+      throw new Error(
+        `Type drift detected:\n${drift.summary}${review ? `\n\n${review}` : ''}\n\n` +
+        `Review the changes and run \`type-extract approve --reviewer <name> --reason <text>\` to accept them.`
+      );
+    }
+  }
+
+  /**
+   * @method write
+   * @description Writes the contracts file and the extraction map, without drift checks
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {Promise<void>}
+   * @public
+   * @async
+   */
+  async write(context: ExtractionContext): Promise<void> {
+    mkdirSync(dirname(this.config.outputPath), { recursive: true });
+
+    for (const [filePath, content] of await this.render(context)) {
+      writeFileSync(filePath, content, 'utf-8');
+    }
+  }
+
+  /**
+   * @method render
+   * @description Generates the contracts file and the extraction map in memory, without drift checks
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {Promise<Map<string, string>>} Content of both files by path
+   * @public
+   * @async
+   */
+  async render(context: ExtractionContext): Promise<Map<string, string>> {
+    const contracts = this.generateContractsFile(context);
+    
+    return new Map([
+      [this.config.outputPath, this.config.deterministic ? normalizeOutput(contracts) : contracts],
+      [this.config.extractionMapPath, this.generateExtractionMap(context)]
+    ]);
   }
 
   /**
@@ -86,7 +194,13 @@ export class RFCCompliantGenerator {
    */
   protected generateContractsFile(context: ExtractionContext): string {
     const metrics = context.metrics;
-    const duration = Date.now() - metrics.startTime;
+    // Left out in deterministic mode so identical inputs give identical files
+    const generated = this.config.deterministic ? '' : `\n * Generated: ${new Date().toISOString()}`;
+    const duration = this.config.deterministic ? '' : `\n * - Extraction time: ${Date.now() - metrics.startTime}ms`;
+    const allowed = context.anyExceptions.filter(exception => exception.action === 'allowed').length;
+    const anyPolicy = context.anyExceptions.length > 0
+      ? `\n * \n * ANY POLICY:\n${formatAnyExceptions(context.anyExceptions, file => formatSourcePath(file, this.config.sourceBase)).map(line => ` * - ${line}`).join('\n')}`
+      : '';
     
     let content = `/**
  * Third-Party Type Contracts
@@ -97,22 +211,20 @@ export class RFCCompliantGenerator {
  * DO NOT EDIT MANUALLY - This file is auto-generated
  * 
  * API: ${context.rules.apiId}
- * Version: ${this.config.apiVersion || 'unknown'}
- * Generated: ${new Date().toISOString()}
+ * Version: ${this.config.apiVersion || 'unknown'}${generated}
  * 
  * EXTRACTION METRICS:
  * - Files parsed: ${metrics.filesParsed}
  * - Types extracted: ${metrics.typesExtracted}
  * - Transforms applied: ${metrics.transformsApplied}
- * - Any type violations: ${metrics.anyTypeViolations}
- * - Extraction time: ${duration}ms
+ * - Any type violations: ${metrics.anyTypeViolations}${duration}
  * 
  * COMPLIANCE:
  * ✅ RFC-2025-TS-A01 compliant
- * ✅ Zero 'any' usage (branded unknowns used instead)
+ * ${allowed > 0 ? `⚠️ 'any' allowed in ${allowed} place(s) by the any policy` : "✅ Zero 'any' usage (branded unknowns used instead)"}
  * ✅ All types maintain strict TypeScript compatibility
  * ✅ Source locations preserved for traceability
- * ✅ Drift detection enabled
+ * ✅ Drift detection enabled${anyPolicy}
  */
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
@@ -143,7 +255,7 @@ declare module '@${context.rules.apiId}/contracts' {
 `;
       
       for (const type of typesByKind.interface) {
-        content += this.generateInterfaceForContract(type);
+        content += this.generateInterfaceForContract(this.config.deterministic ? sortMembers(type) : type);
         content += '\n';
       }
     }
@@ -176,6 +288,20 @@ declare module '@${context.rules.apiId}/contracts' {
       }
     }
 
+    // Generate classes
+    if (typesByKind.class.length > 0) {
+      content += `  // ============================================================================
+  // CLASSES (${typesByKind.class.length} total)
+  // ============================================================================
+
+`;
+      
+      for (const type of typesByKind.class) {
+        content += this.generateClassForContract(type);
+        content += '\n';
+      }
+    }
+
     content += '}\n';
 
     return content;
@@ -191,7 +317,7 @@ declare module '@${context.rules.apiId}/contracts' {
     if (type.documentation) {
       output += '  /**\n';
       output += type.documentation.split('\n').map(line => `   * ${line}`).join('\n');
-      output += `\n   * @source ${type.sourceFile}:${type.location.line}\n`;
+      output += `\n   * @source ${this.formatLocation(type)}\n`;
       output += '   */\n';
     }
 
@@ -217,6 +343,14 @@ declare module '@${context.rules.apiId}/contracts' {
       }
     }
 
+    // Methods, index, call and construct signatures
+    for (const member of formatMemberLines(type)) {
+      if (member.documentation) {
+        output += `    /** ${member.documentation} */\n`;
+      }
+      output += `    ${member.text};\n`;
+    }
+
     output += '  }\n';
 
     return output;
@@ -263,12 +397,12 @@ declare module '@${context.rules.apiId}/contracts' {
     if (type.documentation) {
       output += '  /**\n';
       output += type.documentation.split('\n').map(line => `   * ${line}`).join('\n');
-      output += `\n   * @source ${type.sourceFile}:${type.location.line}\n`;
+      output += `\n   * @source ${this.formatLocation(type)}\n`;
       output += '   */\n';
     }
 
     // Clean up the definition and add proper indentation
-    const definition = type.definition.trim();
+    const definition = this.stripDeclarationPreamble(type.definition);
     const lines = definition.split('\n');
     
     // Add export and indentation
@@ -291,12 +425,40 @@ declare module '@${context.rules.apiId}/contracts' {
     if (type.documentation) {
       output += '  /**\n';
       output += type.documentation.split('\n').map(line => `   * ${line}`).join('\n');
-      output += `\n   * @source ${type.sourceFile}:${type.location.line}\n`;
+      output += `\n   * @source ${this.formatLocation(type)}\n`;
       output += '   */\n';
     }
 
     // Clean up the definition and add proper indentation
-    const definition = type.definition.trim();
+    const definition = this.stripDeclarationPreamble(type.definition);
+    const lines = definition.split('\n');
+    
+    // Add export and indentation
+    output += '  export ' + lines[0];
+    for (let i = 1; i < lines.length; i++) {
+      output += '\n  ' + lines[i];
+    }
+    output += '\n';
+
+    return output;
+  }
+
+  /**
+   * Generate class for contract, declared without bodies as the contracts module is ambient
+   */
+  protected generateClassForContract(type: ExtractedType): string {
+    let output = '';
+
+    // Add documentation
+    if (type.documentation) {
+      output += '  /**\n';
+      output += type.documentation.split('\n').map(line => `   * ${line}`).join('\n');
+      output += `\n   * @source ${this.formatLocation(type)}\n`;
+      output += '   */\n';
+    }
+
+    // Drop bodies and initializers, then add proper indentation
+    const definition = this.stripDeclarationPreamble(toAmbientDeclaration(type.definition));
     const lines = definition.split('\n');
     
     // Add export and indentation
@@ -309,26 +471,59 @@ declare module '@${context.rules.apiId}/contracts' {
     return output;
   }
 
+  /**
+   * Strip leading comments and export/declare modifiers from a definition.
+   * Documentation is emitted separately and every contract member is exported.
+   */
+  protected stripDeclarationPreamble(definition: string): string {
+    let text = definition.trim();
+    let previous;
+    
+    do {
+      previous = text;
+      text = text
+        .replace(/^\/\*[\s\S]*?\*\/\s*/, '')
+        .replace(/^\/\/[^\n]*\n\s*/, '')
+        .replace(/^(export|declare)\s+/, '');
+    } while (text !== previous);
+    
+    return text;
+  }
+
+  /**
+   * `@source` location of a type: path relative to `sourceBase`, line and column
+   */
+  protected formatLocation(type: ExtractedType): string {
+    return `${formatSourcePath(type.sourceFile, this.config.sourceBase)}:${type.location.line}:${type.location.column}`;
+  }
+
   /**
    * @method generateExtractionMap
    * @description Generate type-extraction-map.json
    * @param {ExtractionContext} context - Extraction context
-   * @returns {Promise<void>}
+   * @returns {string} File content
    * @protected
-   * @async
    */
-  protected async generateExtractionMap(context: ExtractionContext): Promise<void> {
-    const extractionMap = {
+  protected generateExtractionMap(context: ExtractionContext): string {
+    const extractionMap: ExtractionMap = {
       version: '2.0.0',
-      generated: new Date().toISOString(),
+      ...(this.config.deterministic ? {} : { generated: new Date().toISOString() }),
       api: context.rules.apiId,
       apiVersion: this.config.apiVersion,
-      types: {} as Record<string, string[]>
+      types: {},
+      ...(context.anyExceptions.length > 0
+        ? {
+            anyExceptions: context.anyExceptions.map(exception => ({
+              ...exception,
+              file: formatSourcePath(exception.file, this.config.sourceBase)
+            }))
+          }
+        : {})
     };
 
-    // Group types by source file
+    // Group types by package (package sources) or source file
     for (const [name, type] of context.types) {
-      const sourcePath = type.sourceFile;
+      const sourcePath = type.package ?? formatSourcePath(type.sourceFile, this.config.sourceBase);
       if (!extractionMap.types[sourcePath]) {
         extractionMap.types[sourcePath] = [];
       }
@@ -339,72 +534,123 @@ declare module '@${context.rules.apiId}/contracts' {
     for (const file in extractionMap.types) {
       extractionMap.types[file].sort();
     }
+    
+    // Sort files too, their order otherwise follows the order of the inputs
+    if (this.config.deterministic) {
+      extractionMap.types = Object.fromEntries(
+        Object.entries(extractionMap.types).sort(([a], [b]) => compareNames(a, b))
+      );
+    }
 
-    writeFileSync(
-      this.config.extractionMapPath,
-      JSON.stringify(extractionMap, null, 2),
-      'utf-8'
-    );
+    return JSON.stringify(extractionMap, null, 2) + (this.config.deterministic ? '\n' : '');
   }
 
   /**
    * @method detectDrift
    * @description Detect if types have drifted from previous extraction
    * @param {ExtractionContext} context - Current extraction context
-   * @returns {Promise<{ hasDrift: boolean; summary: string }>}
+   * @returns {Promise<ContractReview>} Per-type, per-member changes with breaking
+   * classification and security red flags
    * @protected
    * @async
+   * 
+   * @remarks
+   * Both the existing file and the freshly generated content are parsed with
+   * ts-morph and compared declaration by declaration (RFC section 8.6), so
+   * header metadata and formatting never count as drift. Changes to a type
+   * whose new declaration matches an entry in the approvals file are accepted.
    */
-  protected async detectDrift(context: ExtractionContext): Promise<{ hasDrift: boolean; summary: string }> {
+  protected async detectDrift(context: ExtractionContext): Promise<ContractReview> {
+    let existingContent: string;
     try {
-      const existingContent = readFileSync(this.config.outputPath, 'utf-8');
-      const newContent = this.generateContractsFile(context);
+      existingContent = readFileSync(this.config.outputPath, 'utf-8');
+    } catch {
+      // File doesn't exist yet
+      return {
+        hasDrift: false,
+        summary: 'No existing file to compare',
+        changes: [],
+        securityFindings: [],
+        approved: [],
+        pending: {}
+      };
+    }
 
-      // Simple diff check - in production, use a proper AST diff
-      if (existingContent === newContent) {
-        return { hasDrift: false, summary: 'No drift detected' };
+    const previous = parseDeclarations(existingContent, this.config.outputPath);
+    const current = parseDeclarations(this.generateContractsFile(context), this.config.outputPath);
+    const approvals = loadApprovals(this.getApprovalsPath());
+
+    // Split changes by whether the resulting declaration was approved
+    const hashes = new Map<string, string>();
+    const approved: DriftChange[] = [];
+    const unapproved: DriftChange[] = [];
+    for (const change of diffTypes(previous, current)) {
+      if (!hashes.has(change.type)) {
+        hashes.set(change.type, hashTypeDeclaration(current.get(change.type)));
       }
+      (isApproved(approvals, change.type, hashes.get(change.type)!) ? approved : unapproved).push(change);
+    }
 
-      // Extract type names from both versions
-      const existingTypes = this.extractTypeNames(existingContent);
-      const newTypes = this.extractTypeNames(newContent);
+    const report = createDriftReport(unapproved);
+    const detectedAt = new Date().toISOString();
+    const pending: Record<string, PendingApproval> = {};
+    for (const change of unapproved) {
+      pending[change.type] ??= { hash: hashes.get(change.type)!, changes: [], detectedAt };
+      pending[change.type].changes.push(describeChange(change));
+    }
 
-      const added = newTypes.filter(t => !existingTypes.includes(t));
-      const removed = existingTypes.filter(t => !newTypes.includes(t));
+    const findings = report.hasDrift
+      ? scanSecurityRedFlags({ ...context, types: previous }, { ...context, types: current })
+        .filter(finding => pending[finding.type])
+      : [];
+
+    return {
+      ...report,
+      // Point findings at the extracted source rather than the generated file
+      securityFindings: findings.map(finding => {
+        const source = context.types.get(finding.type);
+        return source ? { ...finding, file: source.sourceFile, line: source.location.line } : finding;
+      }),
+      approved,
+      pending
+    };
+  }
 
-      let summary = '';
-      if (added.length > 0) {
-        summary += `Added types: ${added.join(', ')}\n`;
-      }
-      if (removed.length > 0) {
-        summary += `Removed types: ${removed.join(', ')}\n`;
-      }
+  /**
+   * @method quarantine
+   * @description Records unapproved changes as pending in the approvals file
+   * @param {Record<string, PendingApproval>} pending - Unapproved changes by type
+   * @protected
+   *
+   * @remarks
+   * Pending entries are replaced on every run, so changes that were reverted
+   * drop out of the quarantine. A pending change keeps its original
+   * `detectedAt` while its declaration is unchanged.
+   */
+  protected quarantine(pending: Record<string, PendingApproval>): void {
+    const approvalsPath = this.getApprovalsPath();
+    const approvals = loadApprovals(approvalsPath);
 
-      return {
-        hasDrift: added.length > 0 || removed.length > 0,
-        summary: summary || 'Types modified but names unchanged'
-      };
-    } catch (error) {
-      // File doesn't exist yet
-      return { hasDrift: false, summary: 'No existing file to compare' };
+    if (Object.keys(pending).length === 0 && Object.keys(approvals.pending).length === 0) {
+      return;
+    }
+
+    for (const [name, entry] of Object.entries(pending)) {
+      const existing = approvals.pending[name];
+      if (existing?.hash === entry.hash) {
+        entry.detectedAt = existing.detectedAt;
+      }
     }
+
+    approvals.pending = pending;
+    saveApprovals(approvalsPath, approvals);
   }
 
   /**
-   * Extract type names from content
+   * Path of the approvals file
    */
-  protected extractTypeNames(content: string): string[] {
-    const names: string[] = [];
-    
-    // Match interface, type, and enum declarations
-    const regex = /export\s+(interface|type|enum)\s+(\w+)/g;
-    let match;
-    
-    while ((match = regex.exec(content)) !== null) {
-      names.push(match[2]);
-    }
-    
-    return names.sort();
+  protected getApprovalsPath(): string {
+    return this.config.approvalsPath ?? getDefaultApprovalsPath(this.config.extractionMapPath);
   }
 
   /**
@@ -419,15 +665,13 @@ declare module '@${context.rules.apiId}/contracts' {
     };
 
     for (const type of types.values()) {
-      // Skip classes for contracts file
-      if (type.kind !== 'class') {
-        groups[type.kind].push(type);
-      }
+      groups[type.kind].push(type);
     }
 
     // Sort each group by name
+    const compare = this.config.deterministic ? compareNames : (a: string, b: string) => a.localeCompare(b);
     for (const kind in groups) {
-      groups[kind as ExtractedType['kind']].sort((a, b) => a.name.localeCompare(b.name));
+      groups[kind as ExtractedType['kind']].sort((a, b) => compare(a.name, b.name));
     }
 
     return groups;
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadSampleSource } from './sample-source.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const writeSample = (file: string, sample: unknown): void => writeFileSync(join(dir, file), JSON.stringify(sample));
+
+describe('loadSampleSource', () => {
+  it('merges the samples of an endpoint', () => {
+    const statuses = ['active', 'active', 'inactive', 'inactive'];
+    statuses.forEach((status, index) => writeSample(`listing.${index + 1}.json`, {
+      id: `l${index}`,
+      status,
+      createdAt: `2025-01-0${index + 1}T10:00:00Z`,
+      price: index + 0.5,
+      host: { name: `h${index}` },
+      ...(index === 0 ? { nickname: 'first' } : {})
+    }));
+
+    const { source, origins } = loadSampleSource(dir);
+
+    expect(source).toContain('export type ISODateString = string;');
+    expect(source).toContain('/** Inferred from 4 sample(s) of listing */\nexport interface Listing {');
+    expect(source).toContain('  id: string;\n');
+    expect(source).toContain("  status: 'active' | 'inactive';\n");
+    expect(source).toContain('  createdAt: ISODateString;\n');
+    expect(source).toContain('  price: number;\n');
+    expect(source).toContain('  host: ListingHost;\n');
+    expect(source).toContain('  nickname?: string;\n');
+    expect(source).toContain('export interface ListingHost {\n  name: string;\n}');
+    expect(origins.Listing).toBe(join(dir, 'listing.1.json'));
+  });
+
+  it('infers literal unions for scalar fields only', () => {
+    for (let index = 1; index <= 4; index++) {
+      writeSample(`guest.${index}.json`, { kind: 'vip', tags: ['a'], stays: [{ status: 'done' }] });
+    }
+
+    const { source } = loadSampleSource(dir);
+
+    expect(source).toContain("  kind: 'vip';\n");
+    expect(source).toContain('  tags: string[];\n');
+    expect(source).toContain("  status: 'done';\n");
+  });
+
+  it('names array samples of a directory after their element', () => {
+    mkdirSync(join(dir, 'reservations'));
+    writeSample(join('reservations', 'a.json'), [{ id: 1 }]);
+    writeSample(join('reservations', 'b.json'), [{ id: 2, guest: 'x' }]);
+
+    const { source } = loadSampleSource(dir);
+
+    expect(source).toContain('export type Reservations = Reservation[];');
+    expect(source).toContain('export interface Reservation {\n  id: number;\n  guest?: string;\n}');
+  });
+
+  it('groups the JSON responses of a HAR file by method and path', () => {
+    const entry = (url: string, body: unknown, status = 200) => ({
+      request: { method: 'GET', url },
+      response: { status, content: { mimeType: 'application/json', text: JSON.stringify(body) } }
+    });
+    writeFileSync(join(dir, 'api.har'), JSON.stringify({
+      log: {
+        entries: [
+          entry('https://api.example.com/listings/5f1e2d3c4b5a697887766554/calendar', { days: 3 }),
+          entry('https://api.example.com/listings/123/calendar', { days: 4 }),
+          entry('https://api.example.com/listings/123/calendar', { error: 'gone' }, 404)
+        ]
+      }
+    }));
+
+    const { source } = loadSampleSource(join(dir, 'api.har'));
+
+    expect(source).toContain('/** Inferred from 2 sample(s) of GET /listings/{id}/calendar */');
+    expect(source).toContain('export interface GetListingsByIdCalendarResponse {\n  days: number;\n}');
+  });
+
+  it('skips samples that are not valid JSON', () => {
+    writeFileSync(join(dir, 'broken.json'), '{');
+
+    expect(loadSampleSource(dir).warnings).toEqual([expect.stringContaining(`Skipped ${join(dir, 'broken.json')}`)]);
+  });
+});
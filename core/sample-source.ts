@@ -0,0 +1,508 @@
+/**
+ * @fileoverview Type Extraction Framework - Sample Sources
+ *
+ * @description
+ * Infers TypeScript declarations from recorded API responses, for vendors
+ * whose SDK code is too loosely typed to extract from. Input is a directory of
+ * JSON samples or a HAR file. Samples of the same endpoint are merged: fields
+ * missing from some samples become optional, low-cardinality string fields
+ * become literal unions and ISO 8601 strings are typed as `ISODateString`.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join, relative, extname, dirname, basename } from 'node:path';
+import type { SampleInferenceOptions } from './types.js';
+
+/**
+ * @interface SampleSource
+ * @description TypeScript declarations inferred from samples
+ * @since 2.0.0
+ */
+export interface SampleSource {
+  /** Inferred declarations */
+  source: string;
+
+  /** File each declaration was inferred from, by type name */
+  origins: Record<string, string>;
+
+  /** Samples that could not be read */
+  warnings: string[];
+}
+
+/**
+ * Samples of one endpoint
+ */
+interface SampleGroup {
+  /** Root type name */
+  name: string;
+
+  /** Description of the samples' origin, for the JSDoc */
+  description: string;
+
+  /** File the samples were read from */
+  origin: string;
+
+  samples: unknown[];
+}
+
+/**
+ * Subset of a HAR 1.2 entry used for inference
+ */
+interface HarEntry {
+  request?: { method?: string; url?: string };
+  response?: {
+    status?: number;
+    content?: { mimeType?: string; text?: string; encoding?: string };
+  };
+}
+
+/**
+ * Merged shape of every value seen at one position
+ */
+interface ValueModel {
+  /** Values merged (including null) */
+  count: number;
+  nulls: number;
+  booleans: number;
+  numbers: number;
+  strings: number;
+
+  /** Strings that are ISO 8601 dates */
+  dates: number;
+
+  /** Distinct string values, dropped once there are too many to be literals */
+  stringValues?: Set<string>;
+
+  object?: { count: number; properties: Map<string, ValueModel> };
+  array?: { count: number; element?: ValueModel };
+}
+
+/** Name of the alias emitted for ISO 8601 strings */
+export const ISO_DATE_TYPE = 'ISODateString';
+
+/** Default for SampleInferenceOptions.maxLiterals */
+const DEFAULT_MAX_LITERALS = 5;
+
+/** ISO 8601 date (`2025-01-31`) or date-time (`2025-01-31T10:00:00Z`, `2025-01-31T10:00:00.000+01:00`) */
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/** Path segments and object keys that are identifiers rather than names */
+const ID_PATTERNS = [
+  /^\d+$/,
+  /^[0-9a-f]{24}$/i,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  ISO_DATE_PATTERN
+];
+
+/**
+ * @function loadSampleSource
+ * @description Infers declarations from a directory of JSON samples or a HAR file
+ * @param {string} inputPath - Directory of `.json` samples, or a `.har` file
+ * @param {SampleInferenceOptions} options - Inference tuning
+ * @returns {SampleSource} Inferred declarations
+ * @throws {Error} If the input cannot be read
+ *
+ * @remarks
+ * In a directory, `listing.json`, `listing.2.json` and `listing-3.json` are
+ * samples of `Listing`, and all files in a subdirectory `reservations/` are
+ * samples of `Reservations`. In a HAR file, successful JSON responses are
+ * grouped by method and path, with id-like segments replaced by `{id}`
+ * (`GET /listings/{id}` becomes `GetListingsByIdResponse`).
+ *
+ * @example
+ * const { source } = loadSampleSource('./samples/guesty');
+ */
+export function loadSampleSource(inputPath: string, options: SampleInferenceOptions = {}): SampleSource {
+  const warnings: string[] = [];
+  const groups = statSync(inputPath).isDirectory()
+    ? readSampleDirectory(inputPath, warnings)
+    : readHarFile(inputPath, warnings);
+
+  return { ...inferDeclarations(groups, options), warnings };
+}
+
+/**
+ * Group the JSON files of a directory by endpoint
+ */
+function readSampleDirectory(directory: string, warnings: string[]): SampleGroup[] {
+  const groups = new Map<string, SampleGroup>();
+
+  for (const file of listJsonFiles(directory)) {
+    const path = relative(directory, file);
+    const key = dirname(path) !== '.'
+      ? dirname(path)
+      : basename(path, extname(path)).replace(/[._-]\d+$/, '');
+
+    let sample: unknown;
+    try {
+      sample = JSON.parse(readFileSync(file, 'utf-8'));
+    } catch (error) {
+      warnings.push(`Skipped ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const group = groups.get(key) ?? {
+      name: toPascalCase(key.split(/[\\/]/)),
+      description: dirname(path) !== '.' ? `${key}/` : key,
+      origin: file,
+      samples: []
+    };
+    group.samples.push(sample);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * JSON files below a directory, in a stable order
+ */
+function listJsonFiles(directory: string): string[] {
+  return readdirSync(directory, { withFileTypes: true })
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    .flatMap(entry => {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) {
+        return listJsonFiles(path);
+      }
+      return entry.isFile() && extname(entry.name) === '.json' ? [path] : [];
+    });
+}
+
+/**
+ * Group the successful JSON responses of a HAR file by method and path
+ */
+function readHarFile(harPath: string, warnings: string[]): SampleGroup[] {
+  const har = JSON.parse(readFileSync(harPath, 'utf-8')) as { log?: { entries?: HarEntry[] } };
+  const groups = new Map<string, SampleGroup>();
+
+  for (const entry of har.log?.entries ?? []) {
+    const status = entry.response?.status ?? 0;
+    const content = entry.response?.content;
+    if (status < 200 || status >= 300 || !content?.text || !content.mimeType?.includes('json') || !entry.request?.url) {
+      continue;
+    }
+
+    const method = (entry.request.method ?? 'GET').toUpperCase();
+    const path = normalizeEndpointPath(new URL(entry.request.url).pathname);
+    const endpoint = `${method} ${path}`;
+
+    let sample: unknown;
+    try {
+      const text = content.encoding === 'base64' ? Buffer.from(content.text, 'base64').toString('utf-8') : content.text;
+      sample = JSON.parse(text);
+    } catch (error) {
+      warnings.push(`Skipped response of ${endpoint}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    const group = groups.get(endpoint) ?? {
+      name: getEndpointTypeName(method, path),
+      description: endpoint,
+      origin: harPath,
+      samples: []
+    };
+    group.samples.push(sample);
+    groups.set(endpoint, group);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Replace id-like path segments with `{id}` (`/listings/5f1e.../calendar` becomes `/listings/{id}/calendar`)
+ */
+function normalizeEndpointPath(pathname: string): string {
+  return pathname
+    .split('/')
+    .map(segment => ID_PATTERNS.some(pattern => pattern.test(segment)) ? '{id}' : segment)
+    .join('/')
+    .replace(/\/$/, '') || '/';
+}
+
+/**
+ * Type name for an endpoint: `GET /listings/{id}/calendar` becomes `GetListingsByIdCalendarResponse`
+ */
+function getEndpointTypeName(method: string, path: string): string {
+  const segments = path.split('/').filter(Boolean).map(segment => segment === '{id}' ? 'by-id' : segment);
+  return toPascalCase([method.toLowerCase(), ...segments, 'response']);
+}
+
+/**
+ * Infer declarations for groups of samples
+ */
+function inferDeclarations(groups: SampleGroup[], options: SampleInferenceOptions): Omit<SampleSource, 'warnings'> {
+  const emitter = new DeclarationEmitter(options.maxLiterals ?? DEFAULT_MAX_LITERALS);
+
+  for (const group of groups) {
+    const model = createModel();
+    for (const sample of group.samples) {
+      addValue(model, sample);
+    }
+    emitter.emitRoot(group, model);
+  }
+
+  return emitter.finish();
+}
+
+/**
+ * Renders value models as declarations, naming nested object types after their path
+ */
+class DeclarationEmitter {
+  private declarations: string[] = [];
+  private origins: Record<string, string> = {};
+  private names = new Set<string>();
+  private usesDates = false;
+  private origin = '';
+
+  constructor(private readonly maxLiterals: number) {}
+
+  /**
+   * Declare the root type of a group
+   */
+  emitRoot(group: SampleGroup, model: ValueModel): void {
+    this.origin = group.origin;
+    const doc = `/** Inferred from ${group.samples.length} sample(s) of ${group.description} */\n`;
+    const isPlainObject = model.object && model.object.count === model.count;
+
+    if (isPlainObject) {
+      this.declareInterface(this.reserveName(group.name), model.object!, doc);
+    } else {
+      const name = this.reserveName(group.name);
+      const index = this.declarations.push('') - 1;
+      this.declarations[index] = `${doc}export type ${name} = ${this.renderType(model, name)};`;
+      this.origins[name] = this.origin;
+    }
+  }
+
+  /**
+   * Source with the ISO date alias first, when used
+   */
+  finish(): Omit<SampleSource, 'warnings'> {
+    const declarations = [...this.declarations];
+    if (this.usesDates) {
+      declarations.unshift(`/** ISO 8601 date or date-time string */\nexport type ${ISO_DATE_TYPE} = string;`);
+    }
+
+    return { source: declarations.join('\n\n') + '\n', origins: this.origins };
+  }
+
+  /**
+   * Declare an interface for an object model; nested objects get their own interfaces
+   */
+  private declareInterface(name: string, object: NonNullable<ValueModel['object']>, doc = ''): string {
+    // Reserve the slot first so the declaration precedes the nested ones
+    const index = this.declarations.push('') - 1;
+    this.origins[name] = this.origin;
+
+    const members = [...object.properties].map(([key, property]) => {
+      const optional = property.count < object.count ? '?' : '';
+      return `  ${renderKey(key)}${optional}: ${this.renderType(property, `${name}${toPascalCase([key])}`)};`;
+    });
+
+    this.declarations[index] = `${doc}export interface ${name} ${members.length > 0 ? `{\n${members.join('\n')}\n}` : '{}'}`;
+    return name;
+  }
+
+  /**
+   * Type expression for a model; array elements never become literals, since
+   * repeated tags or ids in one sample say nothing about the allowed values
+   */
+  private renderType(model: ValueModel, nameHint: string, literals = true): string {
+    const members: string[] = [];
+
+    if (model.strings > 0) {
+      members.push(...this.renderStrings(model, literals));
+    }
+    if (model.numbers > 0) {
+      members.push('number');
+    }
+    if (model.booleans > 0) {
+      members.push('boolean');
+    }
+    if (model.object) {
+      members.push(this.renderObject(model.object, nameHint));
+    }
+    if (model.array) {
+      const element = model.array.element;
+      const elementType = element ? this.renderType(element, singularize(nameHint), false) : 'unknown';
+      members.push(elementType.includes(' | ') ? `(${elementType})[]` : `${elementType}[]`);
+    }
+
+    // Only nulls seen: the real type is unknown
+    if (members.length === 0) {
+      return 'unknown';
+    }
+    if (model.nulls > 0) {
+      members.push('null');
+    }
+    return members.join(' | ');
+  }
+
+  /**
+   * Strings: ISO dates, low-cardinality literal unions or plain strings
+   */
+  private renderStrings(model: ValueModel, literals: boolean): string[] {
+    if (model.dates === model.strings) {
+      this.usesDates = true;
+      return [ISO_DATE_TYPE];
+    }
+
+    const values = model.stringValues;
+    if (literals && values && values.size <= this.maxLiterals && model.strings >= values.size * 2) {
+      return [...values].sort().map(value => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`);
+    }
+
+    return ['string'];
+  }
+
+  /**
+   * Objects: maps keyed by ids or dates become records, anything else an interface
+   */
+  private renderObject(object: NonNullable<ValueModel['object']>, nameHint: string): string {
+    const keys = [...object.properties.keys()];
+    const isMap = keys.length > 0 && keys.every(key => ID_PATTERNS.some(pattern => pattern.test(key)));
+
+    if (isMap) {
+      const values = createModel();
+      for (const property of object.properties.values()) {
+        mergeModel(values, property);
+      }
+      return `Record<string, ${this.renderType(values, `${nameHint}Value`)}>`;
+    }
+
+    if (keys.length === 0) {
+      return 'Record<string, unknown>';
+    }
+
+    return this.declareInterface(this.reserveName(nameHint), object);
+  }
+
+  /**
+   * Claim a unique type name
+   */
+  private reserveName(name: string): string {
+    let unique = name;
+    for (let suffix = 2; this.names.has(unique); suffix++) {
+      unique = `${name}${suffix}`;
+    }
+    this.names.add(unique);
+    return unique;
+  }
+}
+
+/**
+ * Empty model
+ */
+function createModel(): ValueModel {
+  return { count: 0, nulls: 0, booleans: 0, numbers: 0, strings: 0, dates: 0, stringValues: new Set() };
+}
+
+/**
+ * Merge one JSON value into a model
+ */
+function addValue(model: ValueModel, value: unknown): void {
+  model.count++;
+
+  if (value === null) {
+    model.nulls++;
+  } else if (typeof value === 'boolean') {
+    model.booleans++;
+  } else if (typeof value === 'number') {
+    model.numbers++;
+  } else if (typeof value === 'string') {
+    model.strings++;
+    if (ISO_DATE_PATTERN.test(value)) {
+      model.dates++;
+    }
+    model.stringValues?.add(value);
+    if (model.stringValues && model.stringValues.size > 64) {
+      model.stringValues = undefined;
+    }
+  } else if (Array.isArray(value)) {
+    model.array ??= { count: 0 };
+    model.array.count++;
+    for (const element of value) {
+      model.array.element ??= createModel();
+      addValue(model.array.element, element);
+    }
+  } else if (typeof value === 'object') {
+    model.object ??= { count: 0, properties: new Map() };
+    model.object.count++;
+    for (const [key, property] of Object.entries(value)) {
+      const propertyModel = model.object.properties.get(key) ?? createModel();
+      addValue(propertyModel, property);
+      model.object.properties.set(key, propertyModel);
+    }
+  }
+}
+
+/**
+ * Merge a model into another (map values that were seen under different keys)
+ */
+function mergeModel(target: ValueModel, source: ValueModel): void {
+  target.count += source.count;
+  target.nulls += source.nulls;
+  target.booleans += source.booleans;
+  target.numbers += source.numbers;
+  target.strings += source.strings;
+  target.dates += source.dates;
+  target.stringValues = target.stringValues && source.stringValues
+    ? new Set([...target.stringValues, ...source.stringValues])
+    : undefined;
+
+  if (source.array) {
+    target.array ??= { count: 0 };
+    target.array.count += source.array.count;
+    if (source.array.element) {
+      target.array.element ??= createModel();
+      mergeModel(target.array.element, source.array.element);
+    }
+  }
+
+  if (source.object) {
+    target.object ??= { count: 0, properties: new Map() };
+    target.object.count += source.object.count;
+    for (const [key, property] of source.object.properties) {
+      const merged = target.object.properties.get(key) ?? createModel();
+      mergeModel(merged, property);
+      target.object.properties.set(key, merged);
+    }
+  }
+}
+
+/**
+ * PascalCase identifier from name parts (`['listing-detail']` becomes `ListingDetail`)
+ */
+function toPascalCase(parts: string[]): string {
+  const identifier = parts
+    .flatMap(part => part.split(/[^A-Za-z0-9]+/))
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join('');
+
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier || 'Sample';
+}
+
+/**
+ * Element type name for an array type name (`ListingReviews` becomes `ListingReview`)
+ */
+function singularize(name: string): string {
+  if (/ies$/.test(name)) {
+    return name.replace(/ies$/, 'y');
+  }
+  if (/[^s]s$/.test(name)) {
+    return name.slice(0, -1);
+  }
+  return `${name}Item`;
+}
+
+/**
+ * Property key, quoted unless it is a valid identifier
+ */
+function renderKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { SECURITY_REVIEW_LABEL, formatSecurityReview, requiresSecurityReview, scanSecurityRedFlags } from './security.js';
+import { parseDeclarations } from './drift.js';
+import type { ExtractionContext } from './types.js';
+
+const contextOf = (source: string): ExtractionContext => ({ types: parseDeclarations(source, 'api.ts') } as ExtractionContext);
+
+const scan = (before: string | undefined, after: string) => scanSecurityRedFlags(
+  before === undefined ? undefined : contextOf(before),
+  contextOf(after)
+);
+
+describe('scanSecurityRedFlags', () => {
+  it('flags properties widened to any or unknown', () => {
+    const findings = scan(
+      'export interface Guest { id: string; note: string }',
+      'export interface Guest { id: any; note: unknown }'
+    );
+
+    expect(findings.map(finding => [finding.rule, finding.member, finding.severity])).toEqual([
+      ['widened-to-any', 'id', 'high'],
+      ['widened-to-unknown', 'note', 'high']
+    ]);
+  });
+
+  it('flags new properties whose names suggest code execution or URLs', () => {
+    const findings = scan(
+      'export interface Hook { id: string }',
+      'export interface Hook { id: string; script: string; retryCommand: number; onEvent: () => void; homepageUrl: string }'
+    );
+
+    expect(findings.map(finding => [finding.rule, finding.member, finding.severity])).toEqual([
+      ['execution-property', 'script', 'high'],
+      ['execution-property', 'onEvent', 'high'],
+      ['execution-property', 'retryCommand', 'medium'],
+      ['url-property', 'homepageUrl', 'medium']
+    ]);
+  });
+
+  it('flags new index signatures and permissive records', () => {
+    const findings = scan(
+      'export interface Guest { id: string } export type Meta = { a: string };',
+      'export interface Guest { id: string; [key: string]: string } export type Meta = Record<string, unknown>;'
+    );
+
+    expect(findings.map(finding => [finding.rule, finding.type, finding.severity])).toEqual([
+      ['widened-to-unknown', 'Meta', 'high'],
+      ['index-signature', 'Guest', 'medium'],
+      ['permissive-record', 'Meta', 'medium']
+    ]);
+  });
+
+  it('flags new methods and call and construct signatures', () => {
+    const findings = scan(
+      'export interface Runner { id: string }',
+      'export interface Runner { id: string; execute(script: string): void; runHook(id: number): void; (command: string): void; new (handler: () => void): Runner }'
+    );
+
+    expect(findings.map(finding => [finding.rule, finding.member, finding.severity])).toEqual([
+      ['execution-property', 'execute()', 'high'],
+      ['execution-property', '()', 'high'],
+      ['execution-property', 'new()', 'high'],
+      ['execution-property', 'runHook()', 'medium']
+    ]);
+  });
+
+  it('ignores unchanged members', () => {
+    const source = 'export interface Hook { script: string; run: () => void; data: any }';
+
+    expect(scan(source, source)).toEqual([]);
+  });
+});
+
+describe('formatSecurityReview', () => {
+  it('requires a review for high-severity findings only', () => {
+    const high = scan('export interface Job { id: string }', 'export interface Job { id: string; exec: string }');
+    const medium = scan('export interface Job { id: string }', 'export interface Job { id: string; homepageUrl: string }');
+
+    expect(requiresSecurityReview(high)).toBe(true);
+    expect(formatSecurityReview(high)).toBe([
+      `${SECURITY_REVIEW_LABEL} 1 high-severity red flag(s) in contract changes (RFC-2025-TS-A01 section 7.2)`,
+      '  [HIGH] execution-property Job.exec: new string property whose name suggests executable code'
+    ].join('\n'));
+
+    expect(requiresSecurityReview(medium)).toBe(false);
+    expect(formatSecurityReview(medium)).toMatch(/^Security red flags \(1\), no review required/);
+    expect(formatSecurityReview([])).toBe('');
+  });
+});
@@ -0,0 +1,333 @@
+/**
+ * @fileoverview Type Extraction Framework - Contract Security Scanner
+ *
+ * @description
+ * Scans contract changes for the red flags listed in RFC-2025-TS-A01
+ * section 7.2: types widening to `any`/`unknown`, new execution-related
+ * properties, methods and signatures, and overly permissive types. Only members that are new or whose
+ * type changed are reported, so an unchanged contract never raises findings.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { Node, SyntaxKind } from 'ts-morph';
+import type { ExtractedType, ExtractionContext, SignatureInfo } from './types.js';
+import { withParsedText } from './type-text.js';
+import { getDeclarationBody, normalizeTypeText } from './drift.js';
+import { formatSignature } from './members.js';
+
+/**
+ * Label CI gates look for when deciding whether a PR needs security review
+ */
+export const SECURITY_REVIEW_LABEL = '[SECURITY-REVIEW-REQUIRED]';
+
+export type SecuritySeverity = 'high' | 'medium' | 'low';
+
+/**
+ * Identifiers of the scanner rules
+ */
+export type SecurityRuleId =
+  | 'widened-to-any'
+  | 'widened-to-unknown'
+  | 'execution-property'
+  | 'url-property'
+  | 'index-signature'
+  | 'permissive-record';
+
+/**
+ * @interface SecurityFinding
+ * @description A red flag found in a contract change
+ * @since 2.0.0
+ */
+export interface SecurityFinding {
+  rule: SecurityRuleId;
+  severity: SecuritySeverity;
+
+  /** Type the finding belongs to */
+  type: string;
+
+  /**
+   * Property, `name()` for methods, `()` and `new()` for call and construct
+   * signatures, `[key: K]` for index signatures; omitted for whole type aliases
+   */
+  member?: string;
+
+  message: string;
+  file?: string;
+  line?: number;
+}
+
+/** Name tokens that suggest code execution */
+const EXECUTION_TOKENS = new Set([
+  'eval', 'exec', 'execute', 'script', 'command', 'cmd', 'callback',
+  'handler', 'hook', 'expression', 'function', 'fn', 'lambda'
+]);
+
+/** Name tokens that suggest outbound URLs */
+const URL_TOKENS = new Set(['url', 'uri', 'href', 'endpoint', 'webhook', 'redirect', 'link']);
+
+/**
+ * A scannable member of a type: a property, an index signature, a method (all
+ * overloads), a call or construct signature, or an alias body
+ */
+interface ScannedMember {
+  member?: string;
+  type: string;
+  isIndexSignature?: boolean;
+
+  /** Methods, call and construct signatures: scanned through their parameters and return types */
+  signatures?: SignatureInfo[];
+}
+
+/**
+ * @function scanSecurityRedFlags
+ * @description Compares two extraction results and reports security red flags
+ * @param {ExtractionContext | undefined} previous - Previous extraction (undefined on first run)
+ * @param {ExtractionContext} current - Current extraction
+ * @returns {SecurityFinding[]} Findings, high severity first
+ *
+ * @example
+ * const findings = scanSecurityRedFlags(previousContext, context);
+ * console.log(formatSecurityReview(findings));
+ */
+export function scanSecurityRedFlags(
+  previous: ExtractionContext | undefined,
+  current: ExtractionContext
+): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+
+  for (const [name, type] of current.types) {
+    const before = previous?.types.get(name);
+    const previousMembers = new Map(
+      (before ? getMembers(before) : []).map(member => [member.member ?? '', normalizeTypeText(member.type)])
+    );
+
+    for (const member of getMembers(type)) {
+      const previousType = previousMembers.get(member.member ?? '');
+      const currentType = normalizeTypeText(member.type);
+
+      if (previousType === currentType) {
+        continue;
+      }
+
+      findings.push(...scanMember(type, member, previousType));
+    }
+  }
+
+  const order: Record<SecuritySeverity, number> = { high: 0, medium: 1, low: 2 };
+  return findings.sort((a, b) => order[a.severity] - order[b.severity]);
+}
+
+/**
+ * @function requiresSecurityReview
+ * @description Whether findings include a high-severity red flag
+ * @param {SecurityFinding[]} findings - Scanner findings
+ * @returns {boolean}
+ */
+export function requiresSecurityReview(findings: SecurityFinding[]): boolean {
+  return findings.some(finding => finding.severity === 'high');
+}
+
+/**
+ * @function formatSecurityReview
+ * @description Formats findings as a summary for PR comments and CI logs
+ * @param {SecurityFinding[]} findings - Scanner findings
+ * @returns {string} Summary starting with SECURITY_REVIEW_LABEL when review is required, '' when there are no findings
+ */
+export function formatSecurityReview(findings: SecurityFinding[]): string {
+  if (findings.length === 0) {
+    return '';
+  }
+
+  const high = findings.filter(finding => finding.severity === 'high').length;
+  const heading = high > 0
+    ? `${SECURITY_REVIEW_LABEL} ${high} high-severity red flag(s) in contract changes (RFC-2025-TS-A01 section 7.2)`
+    : `Security red flags (${findings.length}), no review required`;
+
+  const lines = findings.map(finding =>
+    `  [${finding.severity.toUpperCase()}] ${finding.rule} ${formatFindingTarget(finding)}: ${finding.message}`
+  );
+
+  return [heading, ...lines].join('\n');
+}
+
+/**
+ * @function formatFindingTarget
+ * @description Names the type or member a finding belongs to
+ * @param {SecurityFinding} finding - Scanner finding
+ * @returns {string} `Type.member`, `Type()` or `new Type()` for signatures, `Type` for whole type aliases
+ */
+export function formatFindingTarget(finding: SecurityFinding): string {
+  return finding.member === '()' ? `${finding.type}()`
+    : finding.member === 'new()' ? `new ${finding.type}()`
+    : finding.member ? `${finding.type}.${finding.member}` : finding.type;
+}
+
+/**
+ * Members to scan for a type
+ */
+function getMembers(type: ExtractedType): ScannedMember[] {
+  if (type.kind === 'interface') {
+    const members: ScannedMember[] = (type.properties ?? []).map(prop => ({ member: prop.name, type: prop.type }));
+
+    for (const signature of type.indexSignatures ?? []) {
+      members.push({
+        member: `[${signature.keyName}: ${signature.keyType}]`,
+        type: signature.type,
+        isIndexSignature: true
+      });
+    }
+
+    // Overloads are scanned together, as a type literal so the text normalizes like a type
+    const addSignatures = (member: string, prefix: string, signatures: SignatureInfo[]): void => {
+      if (signatures.length > 0) {
+        const text = signatures.map(signature => `${prefix}${formatSignature(signature)}`).join('; ');
+        members.push({ member, type: `{ ${text} }`, signatures });
+      }
+    };
+
+    for (const name of new Set((type.methods ?? []).map(method => method.name))) {
+      addSignatures(`${name}()`, name, type.methods!.filter(method => method.name === name));
+    }
+    addSignatures('()', '', type.callSignatures ?? []);
+    addSignatures('new()', 'new ', type.constructSignatures ?? []);
+
+    return members;
+  }
+
+  if (type.kind === 'type') {
+    return [{ type: getDeclarationBody(type.definition) }];
+  }
+
+  return [];
+}
+
+/**
+ * Apply every rule to a new or changed member
+ */
+function scanMember(type: ExtractedType, member: ScannedMember, previousType: string | undefined): SecurityFinding[] {
+  const findings: SecurityFinding[] = [];
+  const base = { type: type.name, member: member.member, file: type.sourceFile, line: type.location.line };
+  const isNew = previousType === undefined;
+  const current = analyzeTypeText(member.type);
+  const before = previousType !== undefined ? analyzeTypeText(previousType) : undefined;
+  const change = isNew ? 'new' : `changed from \`${previousType}\``;
+
+  if (current.hasAny && !before?.hasAny) {
+    findings.push({ ...base, rule: 'widened-to-any', severity: 'high', message: `${change}, now uses \`any\`` });
+  }
+  if (current.hasUnknown && !before?.hasUnknown && !current.hasAny) {
+    findings.push({ ...base, rule: 'widened-to-unknown', severity: 'high', message: `${change}, now uses \`unknown\`` });
+  }
+
+  const tokens = member.member && !member.isIndexSignature ? tokenize(member.member) : [];
+  const parameterTokens = (member.signatures ?? []).flatMap(signature => signature.parameters.flatMap(param => tokenize(param.name)));
+  const executionName = [...tokens, ...parameterTokens].some(token => EXECUTION_TOKENS.has(token));
+
+  if (current.hasFunction && !before?.hasFunction) {
+    findings.push({
+      ...base,
+      rule: 'execution-property',
+      severity: 'high',
+      message: `${change}, ${member.signatures ? 'takes or returns' : 'accepts'} a function`
+    });
+  } else if (isNew && executionName && member.signatures) {
+    const takesString = member.signatures.some(signature => signature.parameters.some(param => analyzeTypeText(param.type).isStringLike));
+    const kind = getSignatureKind(member.member!);
+    findings.push({
+      ...base,
+      rule: 'execution-property',
+      severity: takesString ? 'high' : 'medium',
+      message: takesString
+        ? `new ${kind} taking a string whose name suggests executable code`
+        : `new ${kind} whose name suggests code execution`
+    });
+  } else if (isNew && executionName) {
+    findings.push({
+      ...base,
+      rule: 'execution-property',
+      severity: current.isStringLike ? 'high' : 'medium',
+      message: current.isStringLike
+        ? 'new string property whose name suggests executable code'
+        : 'new property whose name suggests code execution'
+    });
+  }
+
+  if (isNew && !member.signatures && tokens.some(token => URL_TOKENS.has(token))) {
+    findings.push({ ...base, rule: 'url-property', severity: 'medium', message: 'new property carrying a URL' });
+  }
+
+  if (member.isIndexSignature && isNew) {
+    findings.push({ ...base, rule: 'index-signature', severity: 'medium', message: 'new index signature accepts arbitrary keys' });
+  } else if (current.indexSignatures > (before?.indexSignatures ?? 0)) {
+    findings.push({ ...base, rule: 'index-signature', severity: 'medium', message: `${change}, adds an index signature` });
+  }
+
+  if (current.permissiveRecords > (before?.permissiveRecords ?? 0)) {
+    findings.push({ ...base, rule: 'permissive-record', severity: 'medium', message: `${change}, adds Record<string, unknown | any>` });
+  }
+
+  return findings;
+}
+
+/**
+ * Structural facts about a type text
+ */
+function analyzeTypeText(text: string): {
+  hasAny: boolean;
+  hasUnknown: boolean;
+  hasFunction: boolean;
+  isStringLike: boolean;
+  indexSignatures: number;
+  permissiveRecords: number;
+} {
+  return withParsedText(text, 'type', sourceFile => {
+    const typeNode = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+    const descendants = typeNode ? [typeNode, ...typeNode.getDescendants()] : [];
+
+    const permissiveRecords = descendants.filter(node => {
+      if (!Node.isTypeReference(node) || node.getTypeName().getText() !== 'Record') {
+        return false;
+      }
+      const [key, value] = node.getTypeArguments();
+      return key?.getKind() === SyntaxKind.StringKeyword &&
+        (value?.getKind() === SyntaxKind.UnknownKeyword || value?.getKind() === SyntaxKind.AnyKeyword);
+    }).length;
+
+    return {
+      hasAny: descendants.some(node => node.getKind() === SyntaxKind.AnyKeyword),
+      hasUnknown: descendants.some(node => node.getKind() === SyntaxKind.UnknownKeyword),
+      hasFunction: descendants.some(node =>
+        Node.isFunctionTypeNode(node) ||
+        Node.isConstructorTypeNode(node) ||
+        (Node.isTypeReference(node) && node.getTypeName().getText() === 'Function')
+      ),
+      isStringLike: Boolean(typeNode) && (
+        typeNode!.getKind() === SyntaxKind.StringKeyword ||
+        (Node.isUnionTypeNode(typeNode) && typeNode.getTypeNodes().some(t => t.getKind() === SyntaxKind.StringKeyword))
+      ),
+      indexSignatures: descendants.filter(node => Node.isIndexSignatureDeclaration(node) || Node.isMappedTypeNode(node)).length,
+      permissiveRecords
+    };
+  });
+}
+
+/**
+ * Kind of a signature member, for messages
+ */
+function getSignatureKind(member: string): string {
+  return member === '()' ? 'call signature' : member === 'new()' ? 'construct signature' : 'method';
+}
+
+/**
+ * Split camelCase, snake_case and kebab-case names into lowercase tokens
+ */
+function tokenize(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(token => token.toLowerCase());
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { join } from 'node:path';
+import { createSourceMap, encodeVlq, formatSourcePath } from './source-map.js';
+
+describe('encodeVlq', () => {
+  it('encodes the sign in the lowest bit and continues past 5 bits', () => {
+    expect([0, 1, -1, 15, 16, -16, 1000].map(encodeVlq)).toEqual(['A', 'C', 'D', 'e', 'gB', 'hB', 'w+B']);
+  });
+});
+
+describe('createSourceMap', () => {
+  it('maps each generated line to its origin declaration with relative paths', () => {
+    const map = createSourceMap(join('/repo', 'out', 'api.types.ts'), [
+      { generatedLine: 4, lineCount: 1, sourceFile: join('/repo', 'src', 'guest.ts'), line: 3, column: 1, name: 'GuestDto' },
+      { generatedLine: 1, lineCount: 2, sourceFile: join('/repo', 'src', 'api.ts'), line: 1, column: 1 }
+    ]);
+
+    expect(map).toEqual({
+      version: 3,
+      file: 'api.types.ts',
+      sources: ['../src/api.ts', '../src/guest.ts'],
+      names: ['GuestDto'],
+      mappings: ';AAAA;AAAA;;ACEAA'
+    });
+  });
+});
+
+describe('formatSourcePath', () => {
+  it('makes paths relative to the base with forward slashes', () => {
+    expect(formatSourcePath(join('/repo', 'src', 'api', 'listing.ts'), '/repo')).toBe('src/api/listing.ts');
+    expect(formatSourcePath('/repo/src/api.ts')).toBe('/repo/src/api.ts');
+  });
+});
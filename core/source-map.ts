@@ -0,0 +1,166 @@
+/**
+ * @fileoverview Type Extraction Framework - Source Maps
+ *
+ * @description
+ * Source map (revision 3) output for generated files, mapping every line of
+ * each generated declaration back to the declaration it was extracted from,
+ * plus the portable source paths used in `@source` comments.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { dirname, relative, sep } from 'node:path';
+
+/**
+ * @interface SourceMap
+ * @description Source map revision 3 document
+ * @since 2.0.0
+ */
+export interface SourceMap {
+  version: 3;
+
+  /** Generated file, relative to the map */
+  file: string;
+
+  /** Origin files, relative to the map */
+  sources: string[];
+
+  /** Original names of renamed declarations */
+  names: string[];
+
+  /** Base64 VLQ segments, `;` between generated lines */
+  mappings: string;
+}
+
+/**
+ * @interface DeclarationMapping
+ * @description Lines of a generated file that come from one declaration
+ * @since 2.0.0
+ */
+export interface DeclarationMapping {
+  /** 0-based first generated line */
+  generatedLine: number;
+
+  /** Number of generated lines */
+  lineCount: number;
+
+  /** Absolute path of the origin file */
+  sourceFile: string;
+
+  /** 1-based line and column of the origin declaration */
+  line: number;
+  column: number;
+
+  /** Name in the origin file, when the declaration was renamed */
+  name?: string;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * @function encodeVlq
+ * @description Encodes a number as a Base64 VLQ (sign in the lowest bit, 5 bits per digit)
+ * @param {number} value - Integer to encode
+ * @returns {string} Encoded digits
+ *
+ * @example
+ * encodeVlq(0);   // 'A'
+ * encodeVlq(-1);  // 'D'
+ * encodeVlq(16);  // 'gB'
+ */
+export function encodeVlq(value: number): string {
+  let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+  let encoded = '';
+
+  do {
+    let digit = vlq & 31;
+    vlq >>>= 5;
+    if (vlq > 0) {
+      digit |= 32;
+    }
+    encoded += BASE64[digit];
+  } while (vlq > 0);
+
+  return encoded;
+}
+
+/**
+ * @function createSourceMap
+ * @description Builds the source map of a generated file
+ * @param {string} filePath - Absolute path of the generated file
+ * @param {DeclarationMapping[]} declarations - Generated declarations and their origins
+ * @returns {SourceMap} Map to be written to `${filePath}.map`
+ *
+ * @remarks
+ * Each generated line of a declaration gets one segment at column 0 pointing
+ * at the start of its origin declaration; the first line also carries the
+ * original name of renamed declarations. Paths are relative to the map, so
+ * the map is the same on every machine.
+ */
+export function createSourceMap(filePath: string, declarations: DeclarationMapping[]): SourceMap {
+  const mapDir = dirname(filePath);
+  const sources: string[] = [];
+  const names: string[] = [];
+  const lines: string[] = [];
+  const previous = { source: 0, line: 0, column: 0, name: 0 };
+
+  for (const declaration of [...declarations].sort((a, b) => a.generatedLine - b.generatedLine)) {
+    const source = toPortablePath(relative(mapDir, declaration.sourceFile));
+    if (!sources.includes(source)) {
+      sources.push(source);
+    }
+    if (declaration.name !== undefined && !names.includes(declaration.name)) {
+      names.push(declaration.name);
+    }
+
+    for (let offset = 0; offset < declaration.lineCount; offset++) {
+      const current = {
+        source: sources.indexOf(source),
+        line: declaration.line - 1,
+        column: declaration.column - 1,
+        name: declaration.name !== undefined && offset === 0 ? names.indexOf(declaration.name) : undefined
+      };
+
+      let segment = encodeVlq(0) +
+        encodeVlq(current.source - previous.source) +
+        encodeVlq(current.line - previous.line) +
+        encodeVlq(current.column - previous.column);
+      if (current.name !== undefined) {
+        segment += encodeVlq(current.name - previous.name);
+        previous.name = current.name;
+      }
+
+      lines[declaration.generatedLine + offset] = segment;
+      previous.source = current.source;
+      previous.line = current.line;
+      previous.column = current.column;
+    }
+  }
+
+  return {
+    version: 3,
+    file: toPortablePath(relative(mapDir, filePath)),
+    sources,
+    names,
+    mappings: Array.from(lines, segment => segment ?? '').join(';')
+  };
+}
+
+/**
+ * @function formatSourcePath
+ * @description Path of an origin file as written to generated output
+ * @param {string} filePath - Absolute path of the origin file
+ * @param {string} [base] - Directory paths are relative to; absolute paths are kept without it
+ * @returns {string} Relative path with `/` separators (`src/api/listing.ts`)
+ */
+export function formatSourcePath(filePath: string, base?: string): string {
+  return base === undefined ? filePath : toPortablePath(relative(base, filePath));
+}
+
+/**
+ * Path with `/` separators on every platform
+ */
+function toPortablePath(path: string): string {
+  return path.split(sep).join('/');
+}
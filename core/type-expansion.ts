@@ -0,0 +1,564 @@
+/**
+ * @fileoverview Type Extraction Framework - Type Expansion
+ *
+ * @description
+ * Rewrites declarations whose source text cannot stand on its own in the
+ * generated output (references to helpers that are not extracted, `typeof`
+ * queries, `import()` types) by printing the structural type the checker
+ * resolves them to. Named types that will be in the output are kept as
+ * references; everything else is inlined up to a depth limit.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import {
+  Node,
+  SyntaxKind,
+  TypeFormatFlags,
+  ts,
+  type ClassDeclaration,
+  type EnumDeclaration,
+  type Signature,
+  type Symbol as TypeSymbol,
+  type Type,
+  type TypeAliasDeclaration
+} from 'ts-morph';
+
+/** Default for ExpandOptions.maxDepth */
+export const DEFAULT_EXPAND_DEPTH = 5;
+
+/**
+ * @interface ExpansionOptions
+ * @description Inputs for expandDeclaration
+ */
+export interface ExpansionOptions {
+  /** Levels of anonymous or unpreserved object types to inline */
+  maxDepth: number;
+
+  /** Whether a declaration will be in the output and can be referenced by name */
+  isPreserved: (declaration: Node) => boolean;
+}
+
+/**
+ * @interface ExpansionResult
+ * @description An expanded declaration
+ */
+export interface ExpansionResult {
+  /** New declaration text, including the original leading comments */
+  definition: string;
+
+  /** Heritage clause of an expanded class (undefined once flattened) */
+  extends?: string[];
+
+  /** Types printed as written because the depth limit was reached */
+  truncated: string[];
+}
+
+const TEXT_FLAGS = TypeFormatFlags.NoTruncation | TypeFormatFlags.UseSingleQuotesForStringLiteralType;
+
+/**
+ * @function expandDeclaration
+ * @description Prints a type alias, enum or class through the type checker
+ * @param {TypeAliasDeclaration | EnumDeclaration | ClassDeclaration} node - Declaration to expand
+ * @param {ExpansionOptions} options - Depth limit and named-type preservation
+ * @returns {ExpansionResult | undefined} The expanded declaration, or undefined if the source text is self-contained
+ *
+ * @remarks
+ * - Type aliases are expanded when they reference a type that is not
+ *   preserved, query a value (`typeof config`) or use an `import()` type.
+ *   Generic aliases are left as written, since their structure depends on
+ *   the type arguments.
+ * - Enums are expanded when a member initializer is not a literal; the
+ *   initializer is replaced with its computed value.
+ * - Classes are always printed as `declare class` with the types of their
+ *   non-private members, since implementations may reference anything.
+ *   Members of a base class that is not preserved are flattened in.
+ *
+ * @example
+ * // type GuestSummary = Pick<Guest, 'id' | 'name'>   (Guest not extracted)
+ * expandDeclaration(alias, { maxDepth: 5, isPreserved });
+ * // { definition: "export type GuestSummary = {\n  id: string;\n  name: string;\n};", truncated: [] }
+ */
+export function expandDeclaration(
+  node: TypeAliasDeclaration | EnumDeclaration | ClassDeclaration,
+  options: ExpansionOptions
+): ExpansionResult | undefined {
+  if (Node.isEnumDeclaration(node)) {
+    return expandEnum(node);
+  }
+
+  const printer = new TypePrinter(node, options);
+
+  if (Node.isTypeAliasDeclaration(node)) {
+    if (node.getTypeParameters().length > 0 || !printer.needsExpansion(node)) {
+      return undefined;
+    }
+
+    const text = printer.print(node.getType(), 0, true);
+    return {
+      definition: `${getLeadingText(node)}${getModifiers(node)}type ${node.getName()} = ${text};`,
+      truncated: printer.truncated
+    };
+  }
+
+  return printer.printClass(node);
+}
+
+/**
+ * Enums with computed members: replace the initializers with their values
+ */
+function expandEnum(node: EnumDeclaration): ExpansionResult | undefined {
+  const computed = node.getMembers().filter(member => {
+    const initializer = member.getInitializer();
+    return initializer !== undefined && !isLiteralInitializer(initializer) && member.getValue() !== undefined;
+  });
+  if (computed.length === 0) {
+    return undefined;
+  }
+
+  let definition = node.getFullText();
+  const offset = node.getPos();
+
+  // Splice from the end so earlier positions stay valid
+  for (const member of computed.reverse()) {
+    const initializer = member.getInitializerOrThrow();
+    const value = member.getValue()!;
+    const literal = typeof value === 'string' ? quote(value) : String(value);
+    definition = definition.slice(0, initializer.getStart() - offset) + literal + definition.slice(initializer.getEnd() - offset);
+  }
+
+  return { definition, truncated: [] };
+}
+
+/**
+ * Whether an enum initializer is already a literal
+ */
+function isLiteralInitializer(node: Node): boolean {
+  if (Node.isPrefixUnaryExpression(node) && node.getOperatorToken() === SyntaxKind.MinusToken) {
+    return Node.isNumericLiteral(node.getOperand());
+  }
+  return Node.isStringLiteral(node) || Node.isNumericLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node);
+}
+
+/**
+ * Comments and whitespace before a declaration
+ */
+function getLeadingText(node: Node): string {
+  return node.getFullText().slice(0, node.getStart() - node.getPos());
+}
+
+/**
+ * `export ` / `declare ` prefix of a declaration
+ */
+function getModifiers(node: TypeAliasDeclaration | ClassDeclaration): string {
+  return `${node.isExported() ? 'export ' : ''}${node.hasDeclareKeyword() ? 'declare ' : ''}`;
+}
+
+/**
+ * Single-quoted string literal
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * Prints checker types as type text
+ */
+class TypePrinter {
+  readonly truncated: string[] = [];
+  private program: ts.Program;
+
+  constructor(private enclosing: Node, private options: ExpansionOptions) {
+    this.program = enclosing.getProject().getProgram().compilerObject;
+  }
+
+  /**
+   * Whether a type alias references something the output will not contain
+   */
+  needsExpansion(node: TypeAliasDeclaration): boolean {
+    return node.getDescendants().some(descendant => {
+      if (Node.isTypeQuery(descendant) || Node.isImportTypeNode(descendant)) {
+        return true;
+      }
+      if (!Node.isTypeReference(descendant)) {
+        return false;
+      }
+
+      // `Enum.Member` resolves through its left-most identifier
+      let identifier: Node = descendant.getTypeName();
+      while (Node.isQualifiedName(identifier)) {
+        identifier = identifier.getLeft();
+      }
+
+      let symbol = identifier.getSymbol();
+      if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol();
+      }
+      const declaration = symbol?.getDeclarations()[0];
+      return !declaration ||
+        !(Node.isTypeParameterDeclaration(declaration) || this.isLibDeclaration(declaration) || this.options.isPreserved(declaration));
+    });
+  }
+
+  /**
+   * @method print
+   * @description Prints a type, keeping preserved named types as references
+   * @param {Type} type - Type to print
+   * @param {number} depth - Object nesting level
+   * @param {boolean} root - Whether this is the declared type itself (its own alias is not kept)
+   * @returns {string} Type text
+   */
+  print(type: Type, depth: number, root = false): string {
+    if (type.isTypeParameter()) {
+      return type.getSymbol()?.getName() ?? this.text(type);
+    }
+
+    const alias = type.getAliasSymbol();
+    const aliasDeclaration = alias?.getDeclarations()[0];
+    if (!root && alias && aliasDeclaration && this.options.isPreserved(aliasDeclaration)) {
+      return this.reference(alias.getName(), type.getAliasTypeArguments(), depth);
+    }
+
+    if (type.isBoolean()) {
+      return 'boolean';
+    }
+
+    if (type.isEnum() || type.isEnumLiteral()) {
+      return this.printEnum(type, depth);
+    }
+
+    if (type.isUnion()) {
+      return this.printUnion(type.getUnionTypes(), depth);
+    }
+
+    if (type.isIntersection()) {
+      return type.getIntersectionTypes().map(member => this.wrap(member, this.print(member, depth))).join(' & ');
+    }
+
+    if (!type.isObject()) {
+      return this.text(type);
+    }
+
+    if (type.isArray() || type.isReadonlyArray()) {
+      const element = type.getArrayElementType() ?? type.getTypeArguments()[0];
+      const text = element ? this.wrap(element, this.print(element, depth)) : 'unknown';
+      return `${type.isReadonlyArray() ? 'readonly ' : ''}${text}[]`;
+    }
+
+    if (type.isTuple()) {
+      return this.printTuple(type, depth);
+    }
+
+    const symbol = type.getSymbol();
+    const declaration = symbol?.getDeclarations()[0];
+    if (symbol && declaration && (type.isClassOrInterface() || type.getTargetType()?.isClassOrInterface()) && this.isNamed(declaration)) {
+      const parameterCount = type.getTargetType()?.compilerType.typeParameters?.length ?? 0;
+      return this.reference(symbol.getName(), type.getTypeArguments().slice(0, parameterCount), depth);
+    }
+
+    if (depth >= this.options.maxDepth) {
+      const text = this.text(type);
+      this.truncated.push(text);
+      return text;
+    }
+
+    return this.printObject(type, depth + 1);
+  }
+
+  /**
+   * Union members, with `true | false` collapsed back to boolean
+   */
+  protected printUnion(members: Type[], depth: number): string {
+    const texts: string[] = [];
+    const hasBoolean = members.some(member => member.getText() === 'true') && members.some(member => member.getText() === 'false');
+
+    for (const member of members) {
+      if (hasBoolean && member.isBooleanLiteral()) {
+        if (!texts.includes('boolean')) {
+          texts.push('boolean');
+        }
+        continue;
+      }
+      texts.push(this.wrap(member, this.print(member, depth)));
+    }
+
+    return texts.join(' | ');
+  }
+
+  /**
+   * Enum types and members: by name when the enum is preserved, as values otherwise
+   */
+  protected printEnum(type: Type, depth: number): string {
+    const symbol = type.getSymbol();
+    const declaration = symbol?.getDeclarations()[0];
+
+    if (type.isUnion()) {
+      if (symbol && declaration && this.options.isPreserved(declaration)) {
+        return symbol.getName();
+      }
+      return this.printUnion(type.getUnionTypes(), depth);
+    }
+
+    const enumDeclaration = declaration?.getParent();
+    if (symbol && enumDeclaration && Node.isEnumDeclaration(enumDeclaration) && this.options.isPreserved(enumDeclaration)) {
+      return `${enumDeclaration.getName()}.${symbol.getName()}`;
+    }
+
+    const value = type.getLiteralValue();
+    return typeof value === 'string' ? quote(value) : String(value);
+  }
+
+  /**
+   * Tuples, including optional, rest and named elements
+   */
+  protected printTuple(type: Type, depth: number): string {
+    const target = (type.getTargetType() ?? type).compilerType as unknown as ts.TupleType;
+    const elements = type.getTupleElements().map((element, index) => {
+      const flags = target.elementFlags?.[index] ?? ts.ElementFlags.Required;
+      if (flags & ts.ElementFlags.Optional && element.isUnion()) {
+        const members = element.getUnionTypes().filter(member => !member.isUndefined());
+        return `${members.length > 1 ? `(${this.printUnion(members, depth)})` : this.printUnion(members, depth)}?`;
+      }
+
+      const text = this.print(element, depth);
+      if (flags & ts.ElementFlags.Rest) {
+        return `...${this.wrap(element, text)}[]`;
+      }
+      return flags & ts.ElementFlags.Optional ? `${this.wrap(element, text)}?` : text;
+    });
+
+    return `${target.readonly ? 'readonly ' : ''}[${elements.join(', ')}]`;
+  }
+
+  /**
+   * Object types as literals; a lone call or construct signature as a function type
+   */
+  protected printObject(type: Type, depth: number): string {
+    const properties = type.getProperties().filter(prop => !prop.getName().startsWith('__@'));
+    const calls = type.getCallSignatures();
+    const constructs = type.getConstructSignatures();
+    const stringIndex = type.getStringIndexType();
+    const numberIndex = type.getNumberIndexType();
+
+    if (properties.length === 0 && !stringIndex && !numberIndex && calls.length + constructs.length === 1) {
+      const signature = calls[0] ?? constructs[0];
+      return `${constructs.length > 0 ? 'new ' : ''}${this.printSignature(signature, depth - 1, ' =>')}`;
+    }
+
+    const indent = '  '.repeat(depth);
+    const members: string[] = [
+      ...calls.map(signature => this.printSignature(signature, depth, ':')),
+      ...constructs.map(signature => `new ${this.printSignature(signature, depth, ':')}`)
+    ];
+
+    if (stringIndex) {
+      members.push(`[key: string]: ${this.print(stringIndex, depth)}`);
+    }
+    if (numberIndex && numberIndex !== stringIndex) {
+      members.push(`[index: number]: ${this.print(numberIndex, depth)}`);
+    }
+
+    const mappedReadonly = this.getMappedReadonly(type);
+    for (const prop of properties) {
+      members.push(...this.printProperty(prop, depth, mappedReadonly));
+    }
+
+    if (members.length === 0) {
+      return '{}';
+    }
+
+    return `{\n${members.map(member => `${indent}${member};`).join('\n')}\n${'  '.repeat(depth - 1)}}`;
+  }
+
+  /**
+   * A property, or one line per overload of a method
+   */
+  protected printProperty(prop: TypeSymbol, depth: number, mappedReadonly?: boolean, prefix = ''): string[] {
+    const declaration = prop.getDeclarations()[0];
+    const name = this.propertyName(prop.getName());
+    const type = prop.getTypeAtLocation(this.enclosing);
+
+    if (declaration && (Node.isMethodSignature(declaration) || Node.isMethodDeclaration(declaration))) {
+      const optional = prop.isOptional() ? '?' : '';
+      const signatures = type.getNonNullableType().getCallSignatures();
+      return signatures.map(signature => `${prefix}${name}${optional}${this.printSignature(signature, depth, ':')}`);
+    }
+
+    const readonly = mappedReadonly ?? this.isReadonly(prop);
+    const optional = prop.isOptional();
+    const text = optional && type.isUnion()
+      ? this.printUnion(type.getUnionTypes().filter(member => !member.isUndefined()), depth)
+      : this.print(type, depth);
+
+    return [`${prefix}${readonly ? 'readonly ' : ''}${name}${optional ? '?' : ''}: ${text}`];
+  }
+
+  /**
+   * `<T>(a: A, b?: B) => R` (arrow) or `<T>(a: A, b?: B): R` (member)
+   */
+  protected printSignature(signature: Signature, depth: number, separator: ' =>' | ':'): string {
+    const typeParameters = signature.getTypeParameters().map(param => {
+      const constraint = param.getConstraint();
+      return `${param.getSymbol()?.getName() ?? 'T'}${constraint ? ` extends ${this.print(constraint, depth)}` : ''}`;
+    });
+
+    const generics = typeParameters.length > 0 ? `<${typeParameters.join(', ')}>` : '';
+    return `${generics}${this.printParameters(signature, depth)}${separator} ${this.print(signature.getReturnType(), depth)}`;
+  }
+
+  /**
+   * Parameter list of a signature: `(a: A, b?: B, ...rest: C[])`
+   */
+  protected printParameters(signature: Signature, depth: number): string {
+    const parameters = signature.getParameters().map(param => {
+      const declaration = param.getValueDeclaration();
+      const isRest = declaration !== undefined && Node.isParameterDeclaration(declaration) && declaration.isRestParameter();
+      const isOptional = !isRest && declaration !== undefined && Node.isParameterDeclaration(declaration) && declaration.isOptional();
+      const type = param.getTypeAtLocation(this.enclosing);
+      const text = isOptional && type.isUnion()
+        ? this.printUnion(type.getUnionTypes().filter(member => !member.isUndefined()), depth)
+        : this.print(type, depth);
+      return `${isRest ? '...' : ''}${param.getName()}${isOptional ? '?' : ''}: ${text}`;
+    });
+
+    return `(${parameters.join(', ')})`;
+  }
+
+  /**
+   * @method printClass
+   * @description Prints a class as an ambient declaration with its member types
+   * @param {ClassDeclaration} node - Class to print
+   * @returns {ExpansionResult} Declaration and heritage clause
+   */
+  printClass(node: ClassDeclaration): ExpansionResult {
+    const baseType = node.getType().getBaseTypes()[0];
+    const baseDeclaration = baseType?.getSymbol()?.getDeclarations()[0];
+    const keepBase = baseType !== undefined && baseDeclaration !== undefined && this.isNamed(baseDeclaration);
+    const heritage = keepBase ? this.print(baseType, 0) : undefined;
+
+    const isOwn = (prop: TypeSymbol): boolean =>
+      !keepBase || prop.getDeclarations().some(declaration => declaration.getParent() === node);
+    const isVisible = (prop: TypeSymbol): boolean => {
+      const declaration = prop.getDeclarations()[0];
+      if (prop.getName().startsWith('#') || prop.getName().startsWith('__@')) {
+        return false;
+      }
+      return !(declaration && Node.isModifierable(declaration) && declaration.hasModifier(SyntaxKind.PrivateKeyword));
+    };
+    const modifiers = (prop: TypeSymbol): string => {
+      const declaration = prop.getDeclarations()[0];
+      return declaration && Node.isModifierable(declaration) && declaration.hasModifier(SyntaxKind.ProtectedKeyword)
+        ? 'protected '
+        : '';
+    };
+
+    const members: string[] = [];
+
+    const staticType = node.getSymbol()?.getTypeAtLocation(node);
+    if (node.getConstructors().length > 0 || !keepBase) {
+      for (const signature of staticType?.getConstructSignatures() ?? []) {
+        members.push(`constructor${this.printParameters(signature, 1)}`);
+      }
+    }
+
+    for (const prop of (staticType?.getProperties() ?? []).filter(prop => prop.getName() !== 'prototype')) {
+      if (isVisible(prop) && isOwn(prop)) {
+        members.push(...this.printProperty(prop, 1, undefined, `${modifiers(prop)}static `));
+      }
+    }
+
+    for (const prop of node.getType().getProperties()) {
+      if (isVisible(prop) && isOwn(prop)) {
+        members.push(...this.printProperty(prop, 1, undefined, modifiers(prop)));
+      }
+    }
+
+    const typeParameters = node.getTypeParameters().map(param => param.getText());
+    const generics = typeParameters.length > 0 ? `<${typeParameters.join(', ')}>` : '';
+    const modifierText = `${node.isExported() ? 'export ' : ''}declare ${node.isAbstract() ? 'abstract ' : ''}`;
+    const body = members.length > 0 ? `{\n${members.map(member => `  ${member};`).join('\n')}\n}` : '{}';
+
+    return {
+      definition: `${getLeadingText(node)}${modifierText}class ${node.getName() ?? 'AnonymousClass'}${generics}${heritage ? ` extends ${heritage}` : ''} ${body}`,
+      extends: heritage ? [heritage] : undefined,
+      truncated: this.truncated
+    };
+  }
+
+  /**
+   * Reference a named type with printed type arguments
+   */
+  protected reference(name: string, typeArguments: Type[], depth: number): string {
+    return typeArguments.length > 0
+      ? `${name}<${typeArguments.map(arg => this.print(arg, depth)).join(', ')}>`
+      : name;
+  }
+
+  /**
+   * Whether a declaration can be referenced by name: preserved, or a
+   * TypeScript lib interface or class (lib type aliases such as Pick are expanded)
+   */
+  protected isNamed(declaration: Node): boolean {
+    if (this.isLibDeclaration(declaration)) {
+      return !Node.isTypeAliasDeclaration(declaration);
+    }
+    return this.options.isPreserved(declaration);
+  }
+
+  /**
+   * Whether a declaration comes from a TypeScript lib file
+   */
+  protected isLibDeclaration(declaration: Node): boolean {
+    return this.program.isSourceFileDefaultLibrary(declaration.getSourceFile().compilerNode);
+  }
+
+  /**
+   * Readonly modifier of a homomorphic mapped type (`Readonly<T>`), if any
+   */
+  protected getMappedReadonly(type: Type): boolean | undefined {
+    const declaration = (type.compilerType as { declaration?: ts.MappedTypeNode }).declaration;
+    if (!declaration || !ts.isMappedTypeNode(declaration) || !declaration.readonlyToken) {
+      return undefined;
+    }
+    return declaration.readonlyToken.kind !== ts.SyntaxKind.MinusToken;
+  }
+
+  /**
+   * Whether a property is declared readonly (or is a getter without setter)
+   */
+  protected isReadonly(prop: TypeSymbol): boolean {
+    const declarations = prop.getDeclarations();
+    if (declarations.some(declaration => Node.isGetAccessorDeclaration(declaration)) &&
+        !declarations.some(declaration => Node.isSetAccessorDeclaration(declaration))) {
+      return true;
+    }
+    return declarations.some(declaration =>
+      (Node.isPropertySignature(declaration) || Node.isPropertyDeclaration(declaration)) && declaration.isReadonly()
+    );
+  }
+
+  /**
+   * Parenthesize function, union and intersection types inside arrays, unions and intersections
+   */
+  protected wrap(type: Type, text: string): string {
+    const needsParens = type.isUnion() && !type.isBoolean() && !type.isEnum() ||
+      type.isIntersection() ||
+      /^(new )?(<[^>]*>)?\(.*\) =>/s.test(text);
+    return needsParens && !/^[\w$.]+(<.*>)?$/s.test(text) ? `(${text})` : text;
+  }
+
+  /**
+   * Property name, quoted when it is not a valid identifier
+   */
+  protected propertyName(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) || /^\d+$/.test(name) ? name : quote(name);
+  }
+
+  /**
+   * The checker's own rendering
+   */
+  protected text(type: Type): string {
+    return type.getText(this.enclosing, TEXT_FLAGS);
+  }
+}
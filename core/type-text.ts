@@ -0,0 +1,252 @@
+/**
+ * @fileoverview Type Extraction Framework - Type Text Utilities
+ *
+ * @description
+ * AST helpers for working with the type strings stored on extracted types
+ * (definitions, property types, extends clauses). Text is parsed with ts-morph
+ * in an in-memory project so edits target real type references instead of
+ * arbitrary substrings.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { Project, Node, SourceFile, SyntaxKind, Identifier } from 'ts-morph';
+
+/**
+ * How a piece of text should be parsed
+ * - `type`: a type expression such as `Array<User> | null`
+ * - `declaration`: one or more declarations such as `export interface User { ... }`
+ */
+export type TypeTextMode = 'type' | 'declaration';
+
+const TYPE_PREFIX = 'type __TypeText = ';
+
+let scratchProject: Project | undefined;
+let scratchCounter = 0;
+
+/**
+ * @function withParsedText
+ * @description Parses text into a throwaway source file and runs a callback on it
+ * @param {string} text - Type or declaration text
+ * @param {TypeTextMode} mode - How to parse the text
+ * @param {Function} callback - Receives the source file and the offset of `text` within it
+ * @returns {T} Callback result
+ */
+export function withParsedText<T>(
+  text: string,
+  mode: TypeTextMode,
+  callback: (sourceFile: SourceFile, offset: number) => T
+): T {
+  scratchProject ??= new Project({
+    useInMemoryFileSystem: true,
+    compilerOptions: { strict: true, declaration: true }
+  });
+
+  const prefix = mode === 'type' ? TYPE_PREFIX : '';
+  const suffix = mode === 'type' ? ';' : '';
+  const sourceFile = scratchProject.createSourceFile(
+    `/__type-text-${scratchCounter++}.ts`,
+    prefix + text + suffix,
+    { overwrite: true }
+  );
+
+  try {
+    return callback(sourceFile, prefix.length);
+  } finally {
+    scratchProject.removeSourceFile(sourceFile);
+  }
+}
+
+/**
+ * @function collectTypeReferences
+ * @description Lists the names of types referenced by a piece of type text
+ * @param {string} text - Type or declaration text
+ * @param {TypeTextMode} mode - How to parse the text
+ * @param {string[]} shadowed - Type parameter names in scope outside the text
+ * @returns {string[]} Unique referenced names, in order of first appearance
+ *
+ * @example
+ * collectTypeReferences('Array<User> | Page<T>', 'type', ['T']);
+ * // ['Array', 'User', 'Page']
+ */
+export function collectTypeReferences(text: string, mode: TypeTextMode = 'type', shadowed: string[] = []): string[] {
+  return withParsedText(text, mode, sourceFile => {
+    const names = new Set<string>();
+
+    for (const identifier of sourceFile.getDescendantsOfKind(SyntaxKind.Identifier)) {
+      if (isTypeReferencePosition(identifier) && !isShadowed(identifier, shadowed)) {
+        names.add(identifier.getText());
+      }
+    }
+
+    return [...names];
+  });
+}
+
+/**
+ * @function rewriteTypeReferences
+ * @description Renames type references (and, in declaration mode, declared names)
+ * @param {string} text - Type or declaration text
+ * @param {ReadonlyMap<string, string>} renames - Old name to new name
+ * @param {TypeTextMode} mode - How to parse the text
+ * @param {string[]} shadowed - Type parameter names in scope outside the text
+ * @returns {string} Rewritten text; formatting and comments are preserved
+ *
+ * @remarks
+ * Only identifiers in type positions are touched: property names, string
+ * literals, comments and type parameters that shadow a renamed type are left alone.
+ */
+export function rewriteTypeReferences(
+  text: string,
+  renames: ReadonlyMap<string, string>,
+  mode: TypeTextMode = 'type',
+  shadowed: string[] = []
+): string {
+  if (renames.size === 0) {
+    return text;
+  }
+
+  return withParsedText(text, mode, (sourceFile, offset) => {
+    const edits: Array<{ start: number; end: number; replacement: string }> = [];
+
+    for (const identifier of sourceFile.getDescendantsOfKind(SyntaxKind.Identifier)) {
+      const replacement = renames.get(identifier.getText());
+      if (replacement === undefined) {
+        continue;
+      }
+
+      const isDeclaredName = mode === 'declaration' && isDeclarationName(identifier);
+      if (isDeclaredName || (isTypeReferencePosition(identifier) && !isShadowed(identifier, shadowed))) {
+        edits.push({
+          start: identifier.getStart() - offset,
+          end: identifier.getEnd() - offset,
+          replacement
+        });
+      }
+    }
+
+    let result = text;
+    for (const edit of edits.sort((a, b) => b.start - a.start)) {
+      result = result.slice(0, edit.start) + edit.replacement + result.slice(edit.end);
+    }
+
+    return result;
+  });
+}
+
+/**
+ * @function toAmbientDeclaration
+ * @description Prints declarations the way a declaration file declares them
+ * @param {string} text - Declarations, such as a class with method bodies and initializers
+ * @returns {string} Declarations without bodies, initializers or parameter properties
+ *
+ * @remarks
+ * Uses TypeScript's declaration emit, so overload implementations are dropped
+ * and members typed by their initializer or body get the inferred type
+ * (`count = 0` becomes `count: number;`).
+ *
+ * @example
+ * toAmbientDeclaration('export class Counter { count = 0; next() { return this.count + 1; } }');
+ * // 'export declare class Counter {\n    count: number;\n    next(): number;\n}\n'
+ */
+export function toAmbientDeclaration(text: string): string {
+  return withParsedText(text, 'declaration', sourceFile =>
+    sourceFile.getEmitOutput({ emitOnlyDtsFiles: true }).getOutputFiles()[0]?.getText() ?? text
+  );
+}
+
+/**
+ * @function getTypeParameterName
+ * @description Name of a type parameter declaration
+ * @param {string} declaration - Declaration with its modifiers, constraint and default
+ * @returns {string} Type parameter name
+ *
+ * @example
+ * getTypeParameterName("const T extends string = 'a'");
+ * // 'T'
+ */
+export function getTypeParameterName(declaration: string): string {
+  return /^(?:(?:const|in|out)\s+)*([\w$]+)/.exec(declaration.trim())?.[1] ?? declaration;
+}
+
+/**
+ * Whether an identifier names the top-level type being declared
+ */
+function isDeclarationName(identifier: Identifier): boolean {
+  const parent = identifier.getParent();
+  return (
+    Node.isInterfaceDeclaration(parent) ||
+    Node.isTypeAliasDeclaration(parent) ||
+    Node.isEnumDeclaration(parent) ||
+    Node.isClassDeclaration(parent)
+  ) && parent.getNameNode() === identifier;
+}
+
+/**
+ * Whether an identifier refers to a named type (or the left-most part of a qualified one)
+ */
+function isTypeReferencePosition(identifier: Identifier): boolean {
+  const parent = identifier.getParent();
+
+  if (!parent) {
+    return false;
+  }
+  if (Node.isTypeReference(parent) || Node.isExpressionWithTypeArguments(parent)) {
+    return true;
+  }
+  if (Node.isTypeQuery(parent)) {
+    return true;
+  }
+  if (Node.isQualifiedName(parent)) {
+    // Only the left-most segment names a type or namespace we may have renamed
+    return parent.getLeft() === identifier && isTypeReferenceContainer(parent);
+  }
+  if (Node.isPropertyAccessExpression(parent)) {
+    // `extends ns.Base` and enum initializers such as `Other.Value`
+    return parent.getExpression() === identifier;
+  }
+
+  return false;
+}
+
+/**
+ * Walk up a qualified name to check that it sits in a type position
+ */
+function isTypeReferenceContainer(node: Node): boolean {
+  let current: Node | undefined = node;
+
+  while (current && Node.isQualifiedName(current)) {
+    current = current.getParent();
+  }
+
+  return Boolean(current && (Node.isTypeReference(current) || Node.isTypeQuery(current)));
+}
+
+/**
+ * Whether a type parameter with the same name is in scope
+ */
+function isShadowed(identifier: Identifier, shadowed: string[]): boolean {
+  const name = identifier.getText();
+
+  if (shadowed.includes(name)) {
+    return true;
+  }
+
+  for (const ancestor of identifier.getAncestors()) {
+    if (Node.isTypeParametered(ancestor) && ancestor.getTypeParameters().some(tp => tp.getName() === name)) {
+      return true;
+    }
+    if (Node.isMappedTypeNode(ancestor) && ancestor.getTypeParameter().getName() === name) {
+      return true;
+    }
+    if (Node.isConditionalTypeNode(ancestor)) {
+      const inferred = ancestor.getExtendsType().getDescendantsOfKind(SyntaxKind.InferType);
+      if (inferred.some(infer => infer.getTypeParameter().getName() === name)) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
@@ -31,6 +31,9 @@ export interface ExtractedType {
   /** Type name (e.g., 'CalendarEntry', 'GuestyReservation') */
   name: string;
   
+  /** Name in the source before renaming or naming rules were applied */
+  originalName?: string;
+  
   /** Kind of type declaration */
   kind: 'interface' | 'type' | 'enum' | 'class';
   
@@ -40,7 +43,10 @@ export interface ExtractedType {
   /** Source file path */
   sourceFile: string;
   
-  /** Location in source file */
+  /** npm package the type was extracted from (package source mode) */
+  package?: string;
+  
+  /** 1-based line and column of the declaration in its source file */
   location: {
     line: number;
     column: number;
@@ -55,12 +61,27 @@ export interface ExtractedType {
   /** Properties for interfaces */
   properties?: PropertyInfo[];
   
-  /** Type parameters (generics) */
+  /** Methods for interfaces, one entry per overload */
+  methods?: MethodInfo[];
+  
+  /** Index signatures for interfaces (`[key: string]: T`) */
+  indexSignatures?: IndexSignatureInfo[];
+  
+  /** Call signatures for interfaces (`(input: T): R`) */
+  callSignatures?: SignatureInfo[];
+  
+  /** Construct signatures for interfaces (`new (input: T): R`) */
+  constructSignatures?: SignatureInfo[];
+  
+  /** Type parameter declarations, with constraints and defaults (`T extends string = string`) */
   typeParameters?: string[];
   
   /** What this type extends */
   extends?: string[];
   
+  /** Discriminant and variants when this type is a synthesized discriminated union */
+  discriminator?: Pick<DiscriminatorConfig, 'property' | 'variants'>;
+  
   /** Raw AST node (for advanced processing) */
   astNode?: unknown;
 }
@@ -78,6 +99,57 @@ export interface PropertyInfo {
   documentation?: string;
 }
 
+/**
+ * @interface ParameterInfo
+ * @description A parameter of a method, call or construct signature
+ * @since 2.0.0
+ */
+export interface ParameterInfo {
+  name: string;
+  type: string;
+  optional: boolean;
+  
+  /** Rest parameter (`...args: T[]`) */
+  rest: boolean;
+}
+
+/**
+ * @interface SignatureInfo
+ * @description A call or construct signature, or one overload of a method
+ * @since 2.0.0
+ */
+export interface SignatureInfo {
+  /** Type parameter declarations, with constraints and defaults (`T extends string = string`) */
+  typeParameters?: string[];
+  parameters: ParameterInfo[];
+  returnType: string;
+  documentation?: string;
+}
+
+/**
+ * @interface MethodInfo
+ * @description A method signature of an interface
+ * @since 2.0.0
+ */
+export interface MethodInfo extends SignatureInfo {
+  name: string;
+  optional: boolean;
+}
+
+/**
+ * @interface IndexSignatureInfo
+ * @description An index signature of an interface
+ * @since 2.0.0
+ */
+export interface IndexSignatureInfo {
+  /** Name of the key parameter (`key` in `[key: string]: T`) */
+  keyName: string;
+  keyType: string;
+  type: string;
+  readonly: boolean;
+  documentation?: string;
+}
+
 // ============================================================================
 // Transformation Rules
 // ============================================================================
@@ -118,11 +190,78 @@ export interface ExtractionRules {
   /** Types to exclude from extraction */
   excludeTypes?: string[];
   
+  /**
+   * Root types: when set, only these types and the declarations they
+   * (transitively) reference are extracted
+   */
+  roots?: string[];
+  
   /** Custom type validators */
   validators?: Record<string, TypeValidator>;
   
   /** Naming conventions */
   naming?: NamingRules;
+  
+  /** What to do with `any` in extracted types (default: fail) */
+  anyPolicy?: AnyPolicy;
+}
+
+/**
+ * @interface AnyPolicy
+ * @description How `any` in extracted types is handled, globally and per type or member
+ * @since 2.0.0
+ * 
+ * @example
+ * const anyPolicy: AnyPolicy = {
+ *   default: { mode: 'brand' },
+ *   paths: {
+ *     'Listing.meta': { mode: 'allow', justification: 'Free-form metadata, validated by the API' },
+ *     'Reservation': { mode: 'fail' }
+ *   }
+ * };
+ */
+export interface AnyPolicy {
+  /** Rule for occurrences no path matches (default: `{ mode: 'fail' }`) */
+  default?: AnyPolicyRule;
+  
+  /**
+   * Rules by type name or member path (`Listing`, `Listing.meta.tags`,
+   * `Client.fetch(id)`, `Client.fetch()` for a return type). A path covers
+   * everything nested in it; the most specific matching path wins. Original
+   * names of renamed types match as well.
+   */
+  paths?: Record<string, AnyPolicyRule>;
+}
+
+/**
+ * Handling of an `any` occurrence:
+ * - `fail`: report an error and fail the extraction
+ * - `brand`: replace it with a branded unknown naming its member path
+ * - `allow`: keep it, with a justification recorded in the generated output
+ */
+export type AnyPolicyRule =
+  | { mode: 'fail' }
+  | { mode: 'brand' }
+  | { mode: 'allow'; justification: string };
+
+/**
+ * @interface AnyException
+ * @description An `any` that was branded or allowed by the any policy
+ * @since 2.0.0
+ */
+export interface AnyException {
+  type: string;
+  
+  /** Member path of the occurrence (`Listing.meta.tags`) */
+  path: string;
+  
+  action: 'branded' | 'allowed';
+  
+  /** Justification of the matching `allow` rule */
+  justification?: string;
+  
+  file: string;
+  line?: number;
 }
 
 /**
@@ -219,7 +358,7 @@ export interface NamingRules {
   /** Suffix for all types */
   suffix?: string;
   
-  /** Transform function for type names */
+  /** Transform function for type names (takes precedence over prefix/suffix) */
   transform?: (name: string) => string;
 }
 
@@ -247,6 +386,84 @@ export interface ExtractionContext {
   
   /** Errors encountered */
   errors: ExtractionError[];
+  
+  /** `any` occurrences branded or allowed by the any policy */
+  anyExceptions: AnyException[];
+}
+
+/**
+ * Options for a single extraction run
+ */
+export interface ExtractOptions {
+  /**
+   * npm packages to extract from, mapped to the exported type names to extract
+   * (e.g. `{ '@heroui/react': ['ListboxProps', 'SelectProps'] }`)
+   */
+  packages?: Record<string, string[]>;
+  
+  /** Directory to start the node_modules lookup from (default: process.cwd()) */
+  resolveFrom?: string;
+  
+  /** OpenAPI 3.x documents (JSON or YAML) whose component schemas are extracted */
+  openapi?: string[];
+  
+  /** Directories of JSON response samples or HAR files to infer types from */
+  samples?: string[];
+  
+  /** Tuning for type inference from `samples` */
+  sampleInference?: SampleInferenceOptions;
+  
+  /**
+   * Resolve type aliases, enums and classes through the type checker so the
+   * output does not depend on helpers that are not extracted (default: off)
+   */
+  expand?: boolean | ExpandOptions;
+  
+  /**
+   * Also fail on parameters, properties and signatures the type checker
+   * infers as implicit `any` because no type was written (default: off)
+   */
+  implicitAny?: boolean;
+  
+  /**
+   * Library declarations the sources are checked against, as in the `lib`
+   * compiler option (default: `['es2022']`, without DOM globals)
+   */
+  lib?: string[];
+}
+
+/**
+ * @interface SampleInferenceOptions
+ * @description Tuning for type inference from samples
+ * @since 2.0.0
+ */
+export interface SampleInferenceOptions {
+  /**
+   * Most distinct values a string field may have to become a literal union
+   * (default: 5). Each value must also be seen at least twice on average, so
+   * a handful of samples does not turn every string into a literal.
+   */
+  maxLiterals?: number;
+}
+
+/**
+ * @interface ExpandOptions
+ * @description Tuning for resolving declarations through the type checker
+ * @since 2.0.0
+ */
+export interface ExpandOptions {
+  /**
+   * Levels of anonymous object types to inline (default: 5). Deeper types are
+   * printed as the checker writes them and reported as warnings.
+   */
+  maxDepth?: number;
+  
+  /**
+   * Names of types that are available to the output without being extracted
+   * (e.g. globals from @types packages), kept as references instead of inlined.
+   * Extracted types and TypeScript lib interfaces are always kept.
+   */
+  preserve?: string[];
 }
 
 /**
@@ -271,6 +488,12 @@ export interface ExtractionError {
   message: string;
   line?: number;
   column?: number;
+  
+  /** Defaults to 'error' when omitted */
+  severity?: 'error' | 'warning';
+  
+  /** Identifier of the check that produced this diagnostic (e.g., 'validator') */
+  rule?: string;
 }
 
 // ============================================================================
@@ -308,6 +531,18 @@ export interface OutputConfig {
   /** Header comment for generated files */
   header?: string;
   
-  /** Whether to include source maps */
+  /** Whether to write a `.map` source map next to each generated file */
   sourceMaps: boolean;
+  
+  /**
+   * Directory `@source` paths are written relative to, so the output is the
+   * same on every machine (default: absolute paths)
+   */
+  sourceBase?: string;
+  
+  /**
+   * Byte-identical output for identical inputs: no timestamp or extraction
+   * time, ordinal sorting of types and members, normalized whitespace
+   */
+  deterministic?: boolean;
 }
\ No newline at end of file
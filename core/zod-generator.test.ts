@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createRequire } from 'node:module';
+import ts from 'typescript';
+import type { ZodTypeAny } from 'zod';
+import { ZodSchemaGenerator } from './zod-generator.js';
+import { parseDeclarations } from './drift.js';
+import type { ExtractionContext } from './types.js';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'type-extraction-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+async function generate(source: string): Promise<string> {
+  const context = {
+    types: parseDeclarations(source, join(dir, 'api.ts')),
+    rules: { apiId: 'test' }
+  } as ExtractionContext;
+  const outputPath = join(dir, 'api.schemas.ts');
+
+  await new ZodSchemaGenerator({ outputPath, typesImport: './api.types.js' }).generate(context);
+  return readFileSync(outputPath, 'utf-8');
+}
+
+/**
+ * Evaluate generated schemas as CommonJS, resolving zod from this package
+ */
+function load(output: string): Record<string, ZodTypeAny> {
+  const { outputText } = ts.transpileModule(output, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 }
+  });
+  const module = { exports: {} as Record<string, ZodTypeAny> };
+  new Function('require', 'module', 'exports', outputText)(createRequire(import.meta.url), module, module.exports);
+  return module.exports;
+}
+
+describe('ZodSchemaGenerator', () => {
+  it('converts interfaces, optional properties and references', async () => {
+    const output = await generate([
+      'export interface Address { city: string }',
+      'export interface Guest { readonly id: string; age?: number; tags: string[]; address: Address | null }'
+    ].join('\n'));
+
+    expect(output).toContain("import { z } from 'zod';");
+    expect(output).toContain('export const AddressSchema = z.object({\n  city: z.string()\n});');
+    expect(output).toContain([
+      'export const GuestSchema = z.object({',
+      '  id: z.string(),',
+      '  age: z.number().optional(),',
+      '  tags: z.array(z.string()),',
+      '  address: AddressSchema.nullable()',
+      '});'
+    ].join('\n'));
+    expect(output).toContain('Guest: Assert<Compatible<z.infer<typeof GuestSchema>, Guest>>;');
+  });
+
+  it('converts string literal unions to z.enum', async () => {
+    const output = await generate("export type Status = 'active' | 'inactive';");
+
+    expect(output).toContain('export const StatusSchema = z.enum(["active", "inactive"]);');
+  });
+
+  it('uses z.nativeEnum for enums and imports them as values', async () => {
+    const output = await generate("export enum Status { Active = 'active' }");
+
+    expect(output).toContain("import { Status } from './api.types.js';");
+    expect(output).toContain('export const StatusSchema = z.nativeEnum(Status);');
+  });
+
+  it('converts const enums to literals, since they have no runtime object', async () => {
+    const output = await generate([
+      "export const enum Color { Red = 'red', Blue = 'blue' }",
+      'export const enum Level { One = 1 }',
+      'export interface Paint { color: Color; primary: Color.Red }'
+    ].join('\n'));
+
+    expect(output).not.toContain('z.nativeEnum');
+    expect(output).not.toMatch(/import \{[^}]*\bColor\b[^}]*\} from/);
+    expect(output).toContain('export const ColorSchema = z.union([z.literal("red"), z.literal("blue")]);');
+    expect(output).toContain('export const LevelSchema = z.literal(1);');
+    expect(output).toContain('primary: z.literal("red")');
+    // The schemas infer the member values, not the enum types
+    expect(output).not.toContain('Color: Assert');
+    expect(output).not.toContain('Paint: Assert');
+  });
+
+  it('turns generic types into schema factories', async () => {
+    const output = await generate('export interface Page<T> { items: T[]; total: number }');
+
+    expect(output).toContain('export const PageSchema = <T extends z.ZodTypeAny>(tSchema: T) =>');
+    expect(output).toContain('items: z.array(tSchema)');
+  });
+
+  it('brands primitives instead of intersecting them with the brand shape', async () => {
+    const output = await generate([
+      "export type GuestId = string & { readonly __brand: 'GuestId' };",
+      "export type Cents = number & { readonly __brand: 'Cents' };",
+      'export interface Guest { id: GuestId; balance: Cents }'
+    ].join('\n'));
+
+    expect(output).toContain('export const GuestIdSchema = z.string().brand<\'GuestId\'>();');
+    expect(output).toContain('export const CentsSchema = z.number().brand<\'Cents\'>();');
+    expect(output).not.toContain('z.intersection');
+
+    const { GuestSchema, GuestIdSchema } = load(output);
+    expect(GuestIdSchema.safeParse('g-1').success).toBe(true);
+    expect(GuestIdSchema.safeParse(1).success).toBe(false);
+    expect(GuestSchema.parse({ id: 'g-1', balance: 250 })).toEqual({ id: 'g-1', balance: 250 });
+  });
+});
@@ -0,0 +1,901 @@
+/**
+ * @fileoverview Type Extraction Framework - Zod Schema Generator
+ *
+ * @description
+ * Generates Zod schemas from extracted type definitions, so trust-boundary
+ * validation (RFC-2025-TS-A01 section 4) no longer has to be written by hand.
+ * Type text is converted through the AST; constructs Zod cannot express are
+ * emitted as `z.custom<T>()` so the schema still infers the right type.
+ *
+ * @module @invisiblecities/type-extraction/core
+ * @since 2.0.0
+ */
+
+import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { Node, SyntaxKind, TypeNode } from 'ts-morph';
+import type { ExtractedType, ExtractionContext } from './types.js';
+import { collectTypeReferences, getTypeParameterName, withParsedText } from './type-text.js';
+
+/**
+ * @interface ZodGeneratorConfig
+ * @description Configuration for ZodSchemaGenerator
+ * @since 2.0.0
+ */
+export interface ZodGeneratorConfig {
+  /** Path of the generated schemas file */
+  outputPath: string;
+
+  /**
+   * Module the generated types are imported from, relative to the schemas
+   * file (e.g. './myapi.types.js'). Used for enums, classes and the
+   * compatibility assertions.
+   */
+  typesImport: string;
+
+  /** Header comment for the generated file */
+  header?: string;
+}
+
+/**
+ * Per-type conversion state
+ */
+interface SchemaScope {
+  /** Type being converted */
+  type: ExtractedType;
+
+  /** Type parameter name to schema parameter name (generic factories) */
+  parameters: Map<string, string>;
+
+  /** Types in the same reference cycle, referenced lazily */
+  cycle: Set<string>;
+
+  /** Whether the cycle is wrapped in a lazy schema as a whole */
+  lazyBody: boolean;
+
+  /** Cleared when the schema cannot infer the exact type (brands, dropped clauses) */
+  exact: boolean;
+}
+
+/** Keyword types and their schemas */
+const KEYWORD_SCHEMAS: Partial<Record<SyntaxKind, string>> = {
+  [SyntaxKind.StringKeyword]: 'z.string()',
+  [SyntaxKind.NumberKeyword]: 'z.number()',
+  [SyntaxKind.BooleanKeyword]: 'z.boolean()',
+  [SyntaxKind.BigIntKeyword]: 'z.bigint()',
+  [SyntaxKind.SymbolKeyword]: 'z.symbol()',
+  [SyntaxKind.NullKeyword]: 'z.null()',
+  [SyntaxKind.UndefinedKeyword]: 'z.undefined()',
+  [SyntaxKind.UnknownKeyword]: 'z.unknown()',
+  [SyntaxKind.AnyKeyword]: 'z.any()',
+  [SyntaxKind.NeverKeyword]: 'z.never()',
+  [SyntaxKind.VoidKeyword]: 'z.void()'
+};
+
+const BRANDABLE_KINDS = new Set([
+  SyntaxKind.StringKeyword,
+  SyntaxKind.NumberKeyword,
+  SyntaxKind.BooleanKeyword,
+  SyntaxKind.BigIntKeyword,
+  SyntaxKind.UnknownKeyword
+]);
+
+/**
+ * @class ZodSchemaGenerator
+ * @description Generates Zod schemas for extracted types
+ *
+ * @example
+ * const generator = new ZodSchemaGenerator({
+ *   outputPath: './src/types/generated/myapi.schemas.ts',
+ *   typesImport: './myapi.types.js'
+ * });
+ *
+ * await generator.generate(extractionContext);
+ *
+ * @since 2.0.0
+ */
+export class ZodSchemaGenerator {
+  private config: ZodGeneratorConfig;
+  private types: Map<string, ExtractedType> = new Map();
+  private lazyTypes = new Set<string>();
+  private valueImports = new Set<string>();
+  private typeImports = new Set<string>();
+
+  constructor(config: ZodGeneratorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * @method generate
+   * @description Writes the schemas file
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {Promise<string[]>} The schemas file path if its content changed, otherwise empty
+   * @public
+   * @async
+   */
+  async generate(context: ExtractionContext): Promise<string[]> {
+    const content = this.generateSchemas(context);
+
+    if (existsSync(this.config.outputPath) && readFileSync(this.config.outputPath, 'utf-8') === content) {
+      return [];
+    }
+
+    mkdirSync(dirname(this.config.outputPath), { recursive: true });
+    writeFileSync(this.config.outputPath, content, 'utf-8');
+    return [this.config.outputPath];
+  }
+
+  /**
+   * @method generateSchemas
+   * @description Generates the schemas file content
+   * @param {ExtractionContext} context - Extraction results
+   * @returns {string} TypeScript source
+   * @public
+   *
+   * @remarks
+   * Schemas are emitted in dependency order. Types that reference each other
+   * are wrapped in `z.lazy()`: non-generic ones are annotated with
+   * `z.ZodType<T>` as Zod requires for recursive schemas. Generic types become
+   * factories taking one schema per type parameter.
+   */
+  generateSchemas(context: ExtractionContext): string {
+    this.types = context.types;
+    this.valueImports = new Set();
+    this.typeImports = new Set();
+
+    const dependencies = new Map<string, string[]>();
+    for (const type of this.types.values()) {
+      dependencies.set(type.name, this.getDependencies(type));
+    }
+
+    // Types in a reference cycle, by component
+    const components = this.orderByDependencies(dependencies).map(component => ({
+      names: component,
+      cycle: new Set(component.length > 1 || dependencies.get(component[0])!.includes(component[0]) ? component : [])
+    }));
+
+    this.lazyTypes = new Set(components.flatMap(({ cycle }) =>
+      [...cycle].filter(name => !this.types.get(name)!.typeParameters?.length)
+    ));
+
+    const exactness = new Map<string, boolean>();
+    const schemas: string[] = [];
+
+    for (const { names, cycle } of components) {
+      for (const name of names) {
+        const type = this.types.get(name)!;
+        const { code, exact } = this.generateSchema(type, cycle);
+        schemas.push(code);
+        exactness.set(name, exact);
+      }
+    }
+
+    // A schema is only as exact as the schemas it references
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const [name, deps] of dependencies) {
+        if (exactness.get(name) && deps.some(dep => exactness.get(dep) === false)) {
+          exactness.set(name, false);
+          changed = true;
+        }
+      }
+    }
+
+    const assertions = [...this.types.values()]
+      .filter(type => type.isExported && !type.typeParameters?.length && exactness.get(type.name))
+      .map(type => {
+        this.typeImports.add(type.name);
+        return `  ${type.name}: Assert<Compatible<z.infer<typeof ${this.schemaName(type.name)}>, ${type.name}>>;`;
+      });
+
+    return this.renderFile(context, schemas, assertions);
+  }
+
+  /**
+   * Assemble the file: header, imports, schemas and compatibility assertions
+   */
+  protected renderFile(context: ExtractionContext, schemas: string[], assertions: string[]): string {
+    let content = '';
+
+    if (this.config.header) {
+      content += this.config.header + '\n\n';
+    }
+
+    content += `/**
+ * Generated Zod schemas for ${context.rules.apiId} API
+ *
+ * DO NOT EDIT MANUALLY - This file is auto-generated from the extracted types
+ */
+
+import { z } from 'zod';
+`;
+
+    const valueImports = [...this.valueImports].sort();
+    const typeImports = [...this.typeImports].filter(name => !this.valueImports.has(name)).sort();
+    if (valueImports.length > 0) {
+      content += `import { ${valueImports.join(', ')} } from '${this.config.typesImport}';\n`;
+    }
+    if (typeImports.length > 0) {
+      content += `import type { ${typeImports.join(', ')} } from '${this.config.typesImport}';\n`;
+    }
+    content += '\n';
+
+    content += schemas.join('\n\n') + '\n';
+
+    if (assertions.length > 0) {
+      content += `
+// ============================================================================
+// COMPATIBILITY ASSERTIONS
+// ============================================================================
+
+type Compatible<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type Assert<T extends true> = T;
+
+/**
+ * Fails to compile when a schema no longer infers the generated type
+ */
+export type SchemaCompatibility = {
+${assertions.join('\n')}
+};
+`;
+    }
+
+    return content;
+  }
+
+  /**
+   * @method generateSchema
+   * @description Generates the schema declaration for one type
+   * @param {ExtractedType} type - Type to convert
+   * @param {Set<string>} cycle - Types in the same reference cycle (empty if none)
+   * @returns {{ code: string; exact: boolean }} Declaration and whether it infers the type exactly
+   * @protected
+   */
+  protected generateSchema(type: ExtractedType, cycle: Set<string>): { code: string; exact: boolean } {
+    const typeParameters = (type.typeParameters ?? []).map(getTypeParameterName);
+    const scope: SchemaScope = {
+      type,
+      parameters: new Map(typeParameters.map(name => [name, this.parameterName(name)])),
+      cycle,
+      lazyBody: cycle.size > 0 && typeParameters.length === 0,
+      exact: true
+    };
+
+    const body = this.convertDeclaration(type, scope);
+    const indented = body.split('\n').join('\n  ');
+    const name = this.schemaName(type.name);
+    const doc = type.documentation ? `/** ${type.documentation.split('\n')[0]} */\n` : '';
+
+    if (typeParameters.length > 0) {
+      const generics = typeParameters.map(param => `${param} extends z.ZodTypeAny`).join(', ');
+      const params = typeParameters.map(param => `${scope.parameters.get(param)}: ${param}`).join(', ');
+      const returnType = cycle.size > 0 ? ': z.ZodTypeAny' : '';
+      return { code: `${doc}export const ${name} = <${generics}>(${params})${returnType} =>\n  ${indented};`, exact: scope.exact };
+    }
+
+    if (scope.lazyBody) {
+      let annotation = 'z.ZodTypeAny';
+      if (type.isExported && !type.methods?.length) {
+        this.typeImports.add(type.name);
+        annotation = `z.ZodType<${type.name}, z.ZodTypeDef, unknown>`;
+      }
+      return { code: `${doc}export const ${name}: ${annotation} = z.lazy(() =>\n  ${indented}\n);`, exact: scope.exact };
+    }
+
+    return { code: `${doc}export const ${name} = ${body};`, exact: scope.exact };
+  }
+
+  /**
+   * Convert a declaration to a schema expression
+   */
+  protected convertDeclaration(type: ExtractedType, scope: SchemaScope): string {
+    switch (type.kind) {
+      case 'interface':
+        return this.convertInterface(type, scope);
+
+      case 'enum': {
+        // Const enums have no runtime object for z.nativeEnum
+        const constMembers = this.getConstEnumMembers(type);
+        if (constMembers) {
+          return this.convertConstEnum(type, [...constMembers.values()], scope);
+        }
+        this.valueImports.add(type.name);
+        return `z.nativeEnum(${type.name})`;
+      }
+
+      case 'class':
+        this.valueImports.add(type.name);
+        return `z.instanceof(${type.name})`;
+
+      default: {
+        const discriminated = this.convertDiscriminatedUnion(type, scope);
+        if (discriminated) {
+          return discriminated;
+        }
+
+        return withParsedText(type.definition, 'declaration', sourceFile => {
+          const typeNode = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+          return typeNode ? this.convertTypeNode(typeNode, scope) : this.fallback(type.name, scope);
+        });
+      }
+    }
+  }
+
+  /**
+   * Interfaces become objects; extended interfaces are merged in
+   */
+  protected convertInterface(type: ExtractedType, scope: SchemaScope): string {
+    if (type.callSignatures?.length || type.constructSignatures?.length) {
+      // Callable values are functions, which z.object rejects
+      return this.fallback(type.name, scope);
+    }
+
+    const properties = type.properties ?? [];
+    const shape = properties.map(prop => {
+      let schema = this.convertTypeText(prop.type, scope);
+      if (prop.optional && !schema.endsWith('.optional()')) {
+        schema += '.optional()';
+      }
+      return `  ${this.propertyKey(prop.name)}: ${schema}`;
+    });
+    const shapeText = shape.length > 0 ? `{\n${shape.join(',\n')}\n}` : '{}';
+
+    const bases = (type.extends ?? [])
+      .map(ext => {
+        const schema = this.convertTypeText(ext, scope);
+        const isExtracted = collectTypeReferences(ext).some(name => this.types.has(name));
+        if (!isExtracted || schema.startsWith('z.lazy(') || schema.startsWith('z.custom')) {
+          // Zod cannot merge what it does not know as an object schema
+          scope.exact = false;
+          return undefined;
+        }
+        return this.asObjectSchema(ext, schema);
+      })
+      .filter((schema): schema is string => schema !== undefined);
+
+    let schema = bases.length > 0
+      ? `${bases.reduce((merged, base) => `${merged}.merge(${base})`)}.extend(${shapeText})`
+      : `z.object(${shapeText})`;
+
+    for (const signature of type.indexSignatures ?? []) {
+      if (signature.keyType === 'string') {
+        schema += `.catchall(${this.convertTypeText(signature.type, scope)})`;
+      } else {
+        // Number, symbol and template literal keys have no Zod equivalent
+        scope.exact = false;
+      }
+    }
+
+    if (type.methods?.length) {
+      // Methods are not validated
+      scope.exact = false;
+    }
+
+    // Zod can only mark the object readonly as a whole
+    if (properties.length > 0 && properties.every(prop => prop.readonly)) {
+      schema += '.readonly()';
+    }
+
+    return schema;
+  }
+
+  /**
+   * Discriminated unions synthesized from discriminator rules
+   */
+  protected convertDiscriminatedUnion(type: ExtractedType, scope: SchemaScope): string | undefined {
+    if (!type.discriminator) {
+      return undefined;
+    }
+
+    const variants = Object.values(type.discriminator.variants);
+    const variantsAreObjects = variants.every(variant => {
+      const variantType = this.types.get(variant);
+      return variantType?.kind === 'interface' && !scope.cycle.has(variant) && !this.isLazy(variant);
+    });
+    if (!variantsAreObjects) {
+      return undefined;
+    }
+
+    const typeArguments = (type.typeParameters ?? []).map(param => scope.parameters.get(getTypeParameterName(param))!);
+    const options = variants.map(variant =>
+      typeArguments.length > 0 && this.types.get(variant)?.typeParameters?.length
+        ? `${this.schemaName(variant)}(${typeArguments.join(', ')})`
+        : this.schemaName(variant)
+    );
+
+    return `z.discriminatedUnion(${JSON.stringify(type.discriminator.property)}, [${options.join(', ')}])`;
+  }
+
+  /**
+   * Convert a type string to a schema expression
+   */
+  protected convertTypeText(text: string, scope: SchemaScope): string {
+    return withParsedText(text, 'type', sourceFile => {
+      const typeNode = sourceFile.getFirstDescendantByKind(SyntaxKind.TypeAliasDeclaration)?.getTypeNode();
+      return typeNode ? this.convertTypeNode(typeNode, scope) : this.fallback(text, scope);
+    });
+  }
+
+  /**
+   * @method convertTypeNode
+   * @description Converts a type node to a schema expression
+   * @param {TypeNode} node - Type node
+   * @param {SchemaScope} scope - Conversion state
+   * @returns {string} Schema expression
+   * @protected
+   */
+  protected convertTypeNode(node: TypeNode, scope: SchemaScope): string {
+    const keyword = KEYWORD_SCHEMAS[node.getKind()];
+    if (keyword) {
+      return keyword;
+    }
+
+    if (Node.isParenthesizedTypeNode(node)) {
+      return this.convertTypeNode(node.getTypeNode(), scope);
+    }
+
+    if (Node.isLiteralTypeNode(node)) {
+      const literal = node.getLiteral();
+      if (Node.isNullLiteral(literal)) {
+        return 'z.null()';
+      }
+      if (Node.isStringLiteral(literal)) {
+        return `z.literal(${JSON.stringify(literal.getLiteralValue())})`;
+      }
+      return `z.literal(${literal.getText()})`;
+    }
+
+    if (Node.isUnionTypeNode(node)) {
+      return this.convertUnion(node.getTypeNodes(), scope);
+    }
+
+    if (Node.isIntersectionTypeNode(node)) {
+      const branded = this.getBrand(node.getTypeNodes());
+      if (branded) {
+        // z.infer yields Zod's own brand, not the { __brand } shape
+        scope.exact = false;
+        return `${branded.base}.brand<${branded.brand}>()`;
+      }
+      return node.getTypeNodes()
+        .map(member => this.convertTypeNode(member, scope))
+        .reduce((left, right) => `z.intersection(${left}, ${right})`);
+    }
+
+    if (Node.isArrayTypeNode(node)) {
+      return `z.array(${this.convertTypeNode(node.getElementTypeNode(), scope)})`;
+    }
+
+    if (Node.isTypeOperatorTypeNode(node) && node.getOperator() === SyntaxKind.ReadonlyKeyword) {
+      return `${this.convertTypeNode(node.getTypeNode(), scope)}.readonly()`;
+    }
+
+    if (Node.isTupleTypeNode(node)) {
+      return this.convertTuple(node.getElements(), scope);
+    }
+
+    if (Node.isTypeLiteral(node)) {
+      return this.convertTypeLiteral(node, scope);
+    }
+
+    if (Node.isTypeReference(node)) {
+      return this.convertTypeReference(node, scope);
+    }
+
+    return this.fallback(node.getText(), scope);
+  }
+
+  /**
+   * Unions: string literal unions become z.enum, null/undefined become modifiers
+   */
+  protected convertUnion(members: TypeNode[], scope: SchemaScope): string {
+    const isKind = (member: TypeNode, kind: SyntaxKind): boolean =>
+      member.getKind() === kind || (Node.isLiteralTypeNode(member) && member.getLiteral().getKind() === kind);
+
+    const nullable = members.some(member => isKind(member, SyntaxKind.NullKeyword));
+    const optional = members.some(member => isKind(member, SyntaxKind.UndefinedKeyword));
+    const rest = members.filter(member => !isKind(member, SyntaxKind.NullKeyword) && !isKind(member, SyntaxKind.UndefinedKeyword));
+
+    let schema: string;
+    if (rest.length === 0) {
+      schema = nullable ? 'z.null()' : 'z.undefined()';
+      return nullable && optional ? `${schema}.optional()` : schema;
+    }
+
+    const stringLiterals = rest.every(member =>
+      Node.isLiteralTypeNode(member) && Node.isStringLiteral(member.getLiteral())
+    );
+
+    if (stringLiterals && rest.length > 1) {
+      const values = rest.map(member => JSON.stringify((member as Node).getText().slice(1, -1)));
+      schema = `z.enum([${values.join(', ')}])`;
+    } else if (rest.length === 1) {
+      schema = this.convertTypeNode(rest[0], scope);
+    } else {
+      schema = `z.union([${rest.map(member => this.convertTypeNode(member, scope)).join(', ')}])`;
+    }
+
+    if (nullable) {
+      schema += '.nullable()';
+    }
+    if (optional) {
+      schema += '.optional()';
+    }
+    return schema;
+  }
+
+  /**
+   * Tuples, including optional and rest elements
+   */
+  protected convertTuple(elements: TypeNode[], scope: SchemaScope): string {
+    const items: string[] = [];
+    let rest: string | undefined;
+
+    for (const element of elements) {
+      const member = Node.isNamedTupleMember(element) ? element.getTypeNode() : element;
+      const isNamedRest = Node.isNamedTupleMember(element) && element.getDotDotDotToken() !== undefined;
+
+      if (Node.isRestTypeNode(member) || isNamedRest) {
+        const restType = Node.isRestTypeNode(member) ? member.getTypeNode() : member;
+        rest = Node.isArrayTypeNode(restType)
+          ? this.convertTypeNode(restType.getElementTypeNode(), scope)
+          : this.fallback(restType.getText(), scope);
+      } else if (member.getKind() === SyntaxKind.OptionalType) {
+        items.push(`${this.convertTypeNode(member.getFirstChildOrThrow() as TypeNode, scope)}.optional()`);
+      } else {
+        const optional = Node.isNamedTupleMember(element) && element.hasQuestionToken();
+        items.push(`${this.convertTypeNode(member, scope)}${optional ? '.optional()' : ''}`);
+      }
+    }
+
+    return `z.tuple([${items.join(', ')}])${rest ? `.rest(${rest})` : ''}`;
+  }
+
+  /**
+   * Object type literals and index signatures
+   */
+  protected convertTypeLiteral(node: Node, scope: SchemaScope): string {
+    if (!Node.isTypeLiteral(node) || node.getMethods().length > 0 ||
+        node.getCallSignatures().length > 0 || node.getConstructSignatures().length > 0) {
+      return this.fallback(node.getText(), scope);
+    }
+
+    const shape = node.getProperties().map(prop => {
+      const typeNode = prop.getTypeNode();
+      let schema = typeNode ? this.convertTypeNode(typeNode, scope) : 'z.unknown()';
+      if (prop.hasQuestionToken() && !schema.endsWith('.optional()')) {
+        schema += '.optional()';
+      }
+      return `${this.propertyKey(prop.getName())}: ${schema}`;
+    });
+
+    const indexSignatures = node.getIndexSignatures();
+    if (indexSignatures.length > 0) {
+      const signature = indexSignatures[0];
+      const keySchema = this.convertTypeNode(signature.getKeyTypeNode(), scope);
+      const valueNode = signature.getReturnTypeNode();
+      const valueSchema = valueNode ? this.convertTypeNode(valueNode, scope) : 'z.unknown()';
+
+      if (shape.length === 0) {
+        return `z.record(${keySchema}, ${valueSchema})`;
+      }
+      return `z.object({ ${shape.join(', ')} }).catchall(${valueSchema})`;
+    }
+
+    return `z.object({ ${shape.join(', ')} })`;
+  }
+
+  /**
+   * Const enums accept their member values; the schema infers the values, not the enum type
+   */
+  protected convertConstEnum(type: ExtractedType, values: Array<string | number | undefined>, scope: SchemaScope): string {
+    if (values.some(value => value === undefined)) {
+      return this.fallback(type.name, scope);
+    }
+
+    scope.exact = false;
+    const literals = values.map(value => `z.literal(${JSON.stringify(value)})`);
+
+    if (literals.length === 0) {
+      return 'z.never()';
+    }
+    return literals.length === 1 ? literals[0] : `z.union([${literals.join(', ')}])`;
+  }
+
+  /**
+   * Member values of a const enum, undefined for computed members; undefined for other enums
+   */
+  protected getConstEnumMembers(type: ExtractedType): Map<string, string | number | undefined> | undefined {
+    return withParsedText(type.definition, 'declaration', sourceFile => {
+      const declaration = sourceFile.getEnum(type.name);
+      return declaration?.isConstEnum()
+        ? new Map(declaration.getMembers().map(member => [member.getName(), member.getValue()]))
+        : undefined;
+    });
+  }
+
+  /**
+   * Named types: extracted types, type parameters and well-known globals
+   */
+  protected convertTypeReference(node: Node, scope: SchemaScope): string {
+    if (!Node.isTypeReference(node)) {
+      return this.fallback(node.getText(), scope);
+    }
+
+    const typeName = node.getTypeName();
+    const name = typeName.getText();
+    const args = node.getTypeArguments();
+    const convertArg = (index: number): string => args[index] ? this.convertTypeNode(args[index], scope) : 'z.unknown()';
+
+    // Enum members: Status.Active
+    if (Node.isQualifiedName(typeName)) {
+      const enumName = typeName.getLeft().getText();
+      const enumType = this.types.get(enumName);
+      const constMembers = enumType?.kind === 'enum' ? this.getConstEnumMembers(enumType) : undefined;
+      if (constMembers) {
+        const value = constMembers.get(typeName.getRight().getText());
+        if (value === undefined) {
+          return this.fallback(node.getText(), scope);
+        }
+        scope.exact = false;
+        return `z.literal(${JSON.stringify(value)})`;
+      }
+      if (enumType?.kind === 'enum') {
+        this.valueImports.add(enumName);
+        return `z.literal(${name})`;
+      }
+      return this.fallback(node.getText(), scope);
+    }
+
+    const parameter = scope.parameters.get(name);
+    if (parameter) {
+      return parameter;
+    }
+
+    if (this.types.has(name)) {
+      return this.referenceSchema(name, args.map((_, index) => convertArg(index)), scope);
+    }
+
+    switch (name) {
+      case 'Array':
+        return `z.array(${convertArg(0)})`;
+      case 'ReadonlyArray':
+        return `z.array(${convertArg(0)}).readonly()`;
+      case 'Record':
+        if (args[0]?.getKind() !== SyntaxKind.StringKeyword) {
+          // Zod records with literal keys infer Partial<Record<K, V>>
+          scope.exact = false;
+        }
+        return `z.record(${convertArg(0)}, ${convertArg(1)})`;
+      case 'Partial':
+      case 'Required':
+        return this.isObjectSchemaArgument(args[0])
+          ? `${this.asObjectSchema(args[0]!.getText(), convertArg(0))}.${name === 'Partial' ? 'partial' : 'required'}()`
+          : this.fallback(node.getText(), scope);
+      case 'Pick':
+      case 'Omit': {
+        const keys = args[1] ? this.getStringLiterals(args[1]) : undefined;
+        if (!this.isObjectSchemaArgument(args[0]) || !keys) {
+          return this.fallback(node.getText(), scope);
+        }
+        const mask = keys.map(key => `${this.propertyKey(key)}: true`).join(', ');
+        return `${this.asObjectSchema(args[0]!.getText(), convertArg(0))}.${name === 'Pick' ? 'pick' : 'omit'}({ ${mask} })`;
+      }
+      case 'Date':
+        return 'z.date()';
+      case 'Promise':
+        return `z.promise(${convertArg(0)})`;
+      case 'Map':
+        return `z.map(${convertArg(0)}, ${convertArg(1)})`;
+      case 'Set':
+        return `z.set(${convertArg(0)})`;
+      case 'BrandedUnknown':
+        scope.exact = false;
+        return `z.unknown().brand<${args[0]?.getText() ?? 'string'}>()`;
+      default:
+        return this.fallback(node.getText(), scope);
+    }
+  }
+
+  /**
+   * Reference another extracted type's schema, lazily inside reference cycles
+   */
+  protected referenceSchema(name: string, typeArguments: string[], scope: SchemaScope): string {
+    const target = this.types.get(name)!;
+    const schema = target.typeParameters?.length
+      ? `${this.schemaName(name)}(${target.typeParameters.map((_, index) => typeArguments[index] ?? 'z.unknown()').join(', ')})`
+      : this.schemaName(name);
+
+    // The whole body is lazy already; generic factories must defer to avoid infinite recursion
+    return scope.cycle.has(name) && !scope.lazyBody ? `z.lazy(() => ${schema})` : schema;
+  }
+
+  /**
+   * Unwrap schemas of all-readonly interfaces (ZodReadonly) so object methods are available
+   */
+  protected asObjectSchema(typeText: string, schema: string): string {
+    const type = this.types.get(typeText.replace(/<[\s\S]*$/, '').trim());
+    const properties = type?.kind === 'interface' ? type.properties ?? [] : [];
+    return properties.length > 0 && properties.every(prop => prop.readonly) ? `${schema}.unwrap()` : schema;
+  }
+
+  /**
+   * Whether a type argument converts to a ZodObject (for partial/pick/omit)
+   */
+  protected isObjectSchemaArgument(node: TypeNode | undefined): boolean {
+    if (!node || !Node.isTypeReference(node)) {
+      return Boolean(node && Node.isTypeLiteral(node));
+    }
+    const type = this.types.get(node.getTypeName().getText());
+    return type?.kind === 'interface' && !this.isLazy(type.name);
+  }
+
+  /**
+   * Whether a type's schema is declared lazily (non-generic and part of a reference cycle)
+   */
+  protected isLazy(name: string): boolean {
+    return this.lazyTypes.has(name);
+  }
+
+  /**
+   * String literal members of a type (`'a' | 'b'`), or undefined for other types
+   */
+  protected getStringLiterals(node: TypeNode): string[] | undefined {
+    const members = Node.isUnionTypeNode(node) ? node.getTypeNodes() : [node];
+    const values: string[] = [];
+
+    for (const member of members) {
+      if (!Node.isLiteralTypeNode(member) || !Node.isStringLiteral(member.getLiteral())) {
+        return undefined;
+      }
+      values.push((member.getLiteral() as Node).getText().slice(1, -1));
+    }
+
+    return values;
+  }
+
+  /**
+   * Base schema and brand literal of a branded primitive (`string & { readonly __brand: 'Id' }`)
+   */
+  protected getBrand(members: TypeNode[]): { base: string; brand: string } | undefined {
+    if (members.length !== 2) {
+      return undefined;
+    }
+
+    const marker = members.find(member => Node.isTypeLiteral(member) && member.getMembers().length === 1);
+    const brand = marker && Node.isTypeLiteral(marker) ? marker.getProperty('__brand')?.getTypeNode() : undefined;
+    const primitive = members.find(member => member !== marker);
+    const base = primitive && BRANDABLE_KINDS.has(primitive.getKind()) ? KEYWORD_SCHEMAS[primitive.getKind()] : undefined;
+
+    return brand && base ? { base, brand: brand.getText() } : undefined;
+  }
+
+  /**
+   * Constructs Zod cannot express: keep the static type with z.custom
+   */
+  protected fallback(text: string, scope: SchemaScope): string {
+    const references = collectTypeReferences(text);
+    const usesParameters = references.some(reference => scope.parameters.has(reference));
+    const importable = references.every(reference => {
+      const type = this.types.get(reference);
+      return !type || type.isExported;
+    });
+
+    if (usesParameters || !importable) {
+      scope.exact = false;
+      return 'z.unknown()';
+    }
+
+    for (const reference of references) {
+      if (this.types.has(reference)) {
+        this.typeImports.add(reference);
+      }
+    }
+
+    return `z.custom<${text.replace(/\s+/g, ' ').trim()}>()`;
+  }
+
+  /**
+   * Names of extracted types a type references
+   */
+  protected getDependencies(type: ExtractedType): string[] {
+    const shadowed = (type.typeParameters ?? []).map(getTypeParameterName);
+    const texts = type.kind === 'interface'
+      ? [...(type.extends ?? []), ...(type.properties ?? []).map(prop => prop.type)]
+      : type.kind === 'type'
+        ? [type.definition]
+        : [];
+
+    const names = new Set<string>();
+    for (const text of texts) {
+      const mode = type.kind === 'type' ? 'declaration' : 'type';
+      for (const reference of collectTypeReferences(text, mode, shadowed)) {
+        if (this.types.has(reference)) {
+          names.add(reference);
+        }
+      }
+    }
+
+    for (const variant of Object.values(type.discriminator?.variants ?? {})) {
+      if (this.types.has(variant)) {
+        names.add(variant);
+      }
+    }
+
+    return [...names];
+  }
+
+  /**
+   * @method orderByDependencies
+   * @description Groups types into strongly connected components, dependencies first
+   * @param {Map<string, string[]>} dependencies - Type name to referenced type names
+   * @returns {string[][]} Components in declaration order (Tarjan's algorithm)
+   * @protected
+   */
+  protected orderByDependencies(dependencies: Map<string, string[]>): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let counter = 0;
+
+    const visit = (name: string): void => {
+      index.set(name, counter);
+      lowLink.set(name, counter);
+      counter++;
+      stack.push(name);
+      onStack.add(name);
+
+      for (const dependency of dependencies.get(name) ?? []) {
+        if (!index.has(dependency)) {
+          visit(dependency);
+          lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(dependency)!));
+        } else if (onStack.has(dependency)) {
+          lowLink.set(name, Math.min(lowLink.get(name)!, index.get(dependency)!));
+        }
+      }
+
+      if (lowLink.get(name) === index.get(name)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== name);
+        components.push(component.reverse());
+      }
+    };
+
+    for (const name of dependencies.keys()) {
+      if (!index.has(name)) {
+        visit(name);
+      }
+    }
+
+    return components;
+  }
+
+  /**
+   * Schema constant name for a type
+   */
+  protected schemaName(typeName: string): string {
+    return `${typeName}Schema`;
+  }
+
+  /**
+   * Schema parameter name for a type parameter (T -> tSchema)
+   */
+  protected parameterName(typeParameter: string): string {
+    return `${typeParameter.charAt(0).toLowerCase()}${typeParameter.slice(1)}Schema`;
+  }
+
+  /**
+   * Object key, quoted when it is not a valid identifier
+   */
+  protected propertyKey(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) || /^(['"]).*\1$/.test(name) ? name : JSON.stringify(name);
+  }
+}
+
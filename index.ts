@@ -12,6 +12,28 @@
 export * from './core/types.js';
 export { BaseTypeExtractor } from './core/extractor.js';
 export { TypeGenerator } from './core/generator.js';
+export { RFCCompliantGenerator, type RFCGeneratorConfig, type ContractReview, type ExtractionMap } from './core/rfc-generator.js';
+export * from './core/drift.js';
+export * from './core/security.js';
+export * from './core/approvals.js';
+export * from './core/source-map.js';
+export * from './core/check.js';
+export * from './core/report.js';
+export * from './core/metrics-history.js';
+export { ZodSchemaGenerator, type ZodGeneratorConfig } from './core/zod-generator.js';
+export { TypeGuardGenerator, type TypeGuardGeneratorConfig } from './core/guard-generator.js';
+export {
+  JsonSchemaGenerator,
+  formatUnsupportedConstructs,
+  JSON_SCHEMA_DIALECT,
+  type JsonSchemaGeneratorConfig,
+  type JsonSchema,
+  type JsonSchemaTypeName,
+  type JsonSchemaDocument,
+  type JsonSchemaReport,
+  type UnsupportedConstruct,
+  type UnsupportedConstructKind
+} from './core/json-schema-generator.js';
 export * from './core/config.js';
 
 // Re-export types for convenience
@@ -27,7 +27,27 @@ export default {
       '**/*.d.ts',
       '**/node_modules/**',
       '**/dist/**'
-    ]
+    ],
+
+    // Extract types from installed npm packages (with their dependencies)
+    // packages: {
+    //   '@heroui/react': ['ListboxProps', 'SelectProps']
+    // },
+
+    // Extract components.schemas from OpenAPI 3.x documents (JSON or YAML)
+    // openapi: ['./specs/stripe.yaml'],
+
+    // Infer types from recorded responses: directories of JSON samples or HAR files
+    // samples: ['./samples/guesty', './recordings/guesty.har'],
+
+    // Resolve aliases built from helpers outside the source list (Pick<>, typeof, imports)
+    // expand: true,
+
+    // Also fail on parameters and properties the checker infers as implicit any
+    // implicitAny: true,
+
+    // Library declarations the sources are checked against (default: ['es2022'], no DOM)
+    // lib: ['es2022', 'dom']
   },
 
   // Output configuration
@@ -44,6 +64,15 @@ export default {
     // Split each type into its own file (false = single file)
     splitTypes: false,
     
+    // Write a .map source map next to each generated file
+    // sourceMaps: true,
+    
+    // Directory @source paths are relative to (default: project root)
+    // sourceBase: '.',
+    
+    // Byte-identical output for identical inputs (no timestamps), for CI diff gates
+    // deterministic: true,
+    
     // Custom header for generated files
     header: `/**
  * Generated TypeScript types for MyAPI
@@ -52,6 +81,20 @@ export default {
  */`
   },
 
+  // RFC-2025-TS-A01 contracts (optional)
+  // contracts: {
+  //   outputPath: './app/types/generated/third-party-contracts.d.ts',
+  //   extractionMapPath: './type-extraction-map.json',
+  //   // Reviewed drift is recorded in type-extraction-approvals.json next to the map
+  //   failOnDrift: true,
+  //   apiVersion: '2024-01'
+  // },
+
+  // Metrics history (type-extraction-metrics.jsonl, only recorded when set) and regression thresholds in percent
+  // metrics: {
+  //   thresholds: { anyTypeViolations: 10, validationsFailed: 10, typesExtracted: 20 }
+  // },
+
   // Extraction rules (optional - these can also be defined in your adapter)
   rules: {
     // Transform specific types
@@ -85,6 +128,15 @@ export default {
       'TestHelper'
     ],
     
+    // Only extract these types and the types they reference
+    // roots: ['Order', 'User'],
+    
+    // Brand or allow 'any' instead of failing (per type or member path)
+    // anyPolicy: {
+    //   default: { mode: 'brand' },
+    //   paths: { 'Order.metadata': { mode: 'allow', justification: 'Free-form, validated upstream' } }
+    // },
+    
     // Custom validators
     validators: {
       'Product': (type) => {
@@ -119,7 +171,7 @@ export default {
   },
 
   // Development options
-  watch: false,        // Watch mode (not yet implemented)
+  watch: false,        // Watch mode (re-extract when sources change)
   verbose: false       // Verbose logging
 };
 